@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "MovingAverageType" AS ENUM ('SMA', 'EMA');
+
+-- CreateEnum
+CREATE TYPE "CrossDirection" AS ENUM ('ABOVE', 'BELOW');
+
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'MOVING_AVERAGE_CROSS';
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "crossDirection" "CrossDirection",
+ADD COLUMN     "movingAverageType" "MovingAverageType";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PriceHistory" ADD COLUMN     "sources" TEXT[] DEFAULT ARRAY[]::TEXT[];
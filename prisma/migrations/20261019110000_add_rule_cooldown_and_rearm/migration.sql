@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "RuleRearmMode" AS ENUM ('REPEAT', 'ONCE', 'CROSS_BACK');
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "cooldownMinutes" INTEGER NOT NULL DEFAULT 119,
+ADD COLUMN     "isArmed" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "rearmMode" "RuleRearmMode" NOT NULL DEFAULT 'REPEAT',
+ADD COLUMN     "rearmPercent" DOUBLE PRECISION;
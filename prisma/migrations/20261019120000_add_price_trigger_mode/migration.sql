@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "PriceTriggerMode" AS ENUM ('CROSSING', 'LEVEL');
+
+-- AlterTable
+-- Existing rules keep the level behaviour they were created with; new rules default to crossing.
+ALTER TABLE "NotificationRule" ADD COLUMN     "triggerMode" "PriceTriggerMode" NOT NULL DEFAULT 'LEVEL';
+ALTER TABLE "NotificationRule" ALTER COLUMN "triggerMode" SET DEFAULT 'CROSSING';
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "QuoteCurrency" AS ENUM ('USD', 'EUR', 'GBP', 'JPY', 'BTC', 'ETH');
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "quoteCurrency" "QuoteCurrency" NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "PriceHistory" ADD COLUMN     "currency" "QuoteCurrency" NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "referenceCurrency" "QuoteCurrency" NOT NULL DEFAULT 'USD';
+
+-- CreateIndex
+CREATE INDEX "PriceHistory_assetId_currency_timestamp_idx" ON "PriceHistory"("assetId", "currency", "timestamp");
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "DeliveryChannel" AS ENUM ('EMAIL');
+
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('QUEUED', 'SENT', 'FAILED', 'SUPPRESSED');
+
+-- CreateTable
+CREATE TABLE "NotificationDelivery" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "channel" "DeliveryChannel" NOT NULL,
+    "status" "DeliveryStatus" NOT NULL DEFAULT 'QUEUED',
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastAttemptAt" TIMESTAMP(3),
+    "nextAttemptAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationDelivery_status_nextAttemptAt_idx" ON "NotificationDelivery"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationDelivery_alertId_channel_key" ON "NotificationDelivery"("alertId", "channel");
+
+-- AddForeignKey
+ALTER TABLE "NotificationDelivery" ADD CONSTRAINT "NotificationDelivery_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "TriggeredAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
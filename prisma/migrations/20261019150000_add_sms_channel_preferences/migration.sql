@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "DeliveryChannel" ADD VALUE 'SMS';
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "channels" "DeliveryChannel"[] DEFAULT ARRAY[]::"DeliveryChannel"[];
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "defaultChannels" "DeliveryChannel"[] DEFAULT ARRAY['EMAIL']::"DeliveryChannel"[],
+ADD COLUMN     "phoneVerificationAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "phoneVerificationCodeHash" TEXT,
+ADD COLUMN     "phoneVerificationExpiresAt" TIMESTAMP(3);
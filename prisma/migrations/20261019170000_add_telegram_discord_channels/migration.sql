@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "DeliveryChannel" ADD VALUE 'TELEGRAM';
+ALTER TYPE "DeliveryChannel" ADD VALUE 'DISCORD';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "discordWebhookUrl" TEXT,
+ADD COLUMN     "telegramChatId" TEXT,
+ADD COLUMN     "telegramLinkCodeHash" TEXT,
+ADD COLUMN     "telegramLinkExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_telegramChatId_key" ON "User"("telegramChatId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_telegramLinkCodeHash_key" ON "User"("telegramLinkCodeHash");
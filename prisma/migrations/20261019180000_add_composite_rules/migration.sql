@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'COMPOSITE';
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "condition" JSONB;
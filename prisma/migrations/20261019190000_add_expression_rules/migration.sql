@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'EXPRESSION';
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "expression" TEXT;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'RSI_CROSS';
+ALTER TYPE "NotificationRuleType" ADD VALUE 'BOLLINGER_BREAKOUT';
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "indicatorPeriod" INTEGER;
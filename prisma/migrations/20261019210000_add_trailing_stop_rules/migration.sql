@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'TRAILING_STOP';
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "peakAt" TIMESTAMP(3),
+ADD COLUMN     "peakPrice" DOUBLE PRECISION;
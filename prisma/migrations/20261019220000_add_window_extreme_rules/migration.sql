@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'DRAWDOWN_FROM_HIGH';
+ALTER TYPE "NotificationRuleType" ADD VALUE 'RALLY_FROM_LOW';
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'RATIO_ABOVE';
+ALTER TYPE "NotificationRuleType" ADD VALUE 'RATIO_BELOW';
+ALTER TYPE "NotificationRuleType" ADD VALUE 'RATIO_CHANGE_INCREASE';
+ALTER TYPE "NotificationRuleType" ADD VALUE 'RATIO_CHANGE_DECREASE';
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "compareAssetId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "NotificationRule" ADD CONSTRAINT "NotificationRule_compareAssetId_fkey" FOREIGN KEY ("compareAssetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
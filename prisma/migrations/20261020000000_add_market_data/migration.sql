@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "NotificationRuleType" ADD VALUE 'VOLUME_SPIKE';
+ALTER TYPE "NotificationRuleType" ADD VALUE 'MARKET_CAP_ABOVE';
+ALTER TYPE "NotificationRuleType" ADD VALUE 'MARKET_CAP_BELOW';
+
+-- AlterTable
+ALTER TABLE "PriceHistory" ADD COLUMN     "change24h" DOUBLE PRECISION,
+ADD COLUMN     "marketCap" DOUBLE PRECISION,
+ADD COLUMN     "volume24h" DOUBLE PRECISION;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "RulePriority" AS ENUM ('NORMAL', 'CRITICAL');
+
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "priority" "RulePriority" NOT NULL DEFAULT 'NORMAL';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "quietTimeAllowCritical" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "quietTimeBreakthroughPercent" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "TriggeredAlert" ADD COLUMN     "quietTimeBreakthrough" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "TriggeredAlert" ADD COLUMN     "digestSentAt" TIMESTAMP(3),
+ADD COLUMN     "queuedForDigest" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "quietTimeDigestEnabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE INDEX "TriggeredAlert_queuedForDigest_digestSentAt_idx" ON "TriggeredAlert"("queuedForDigest", "digestSentAt");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "NotificationRuleChange" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "changes" JSONB NOT NULL,
+
+    CONSTRAINT "NotificationRuleChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationRuleChange_ruleId_changedAt_idx" ON "NotificationRuleChange"("ruleId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "NotificationRuleChange" ADD CONSTRAINT "NotificationRuleChange_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "NotificationRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
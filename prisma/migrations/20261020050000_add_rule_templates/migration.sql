@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "NotificationRule" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RuleTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "NotificationRuleType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "timeWindowHours" INTEGER,
+    "movingAverageType" "MovingAverageType",
+    "crossDirection" "CrossDirection",
+    "indicatorPeriod" INTEGER,
+    "triggerMode" "PriceTriggerMode" NOT NULL DEFAULT 'CROSSING',
+    "quoteCurrency" "QuoteCurrency",
+    "cooldownMinutes" INTEGER NOT NULL DEFAULT 119,
+    "rearmMode" "RuleRearmMode" NOT NULL DEFAULT 'REPEAT',
+    "rearmPercent" DOUBLE PRECISION,
+    "channels" "DeliveryChannel"[] DEFAULT ARRAY[]::"DeliveryChannel"[],
+    "priority" "RulePriority" NOT NULL DEFAULT 'NORMAL',
+    "autoApply" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RuleTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RuleTemplate_userId_idx" ON "RuleTemplate"("userId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationRule" ADD CONSTRAINT "NotificationRule_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "RuleTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RuleTemplate" ADD CONSTRAINT "RuleTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
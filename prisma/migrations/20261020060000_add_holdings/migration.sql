@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "TrackedAsset" ADD COLUMN     "averageCost" DOUBLE PRECISION,
+ADD COLUMN     "costCurrency" "QuoteCurrency",
+ADD COLUMN     "quantity" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "HoldingLot" (
+    "id" TEXT NOT NULL,
+    "trackedAssetId" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unitCost" DOUBLE PRECISION NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HoldingLot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HoldingLot_trackedAssetId_idx" ON "HoldingLot"("trackedAssetId");
+
+-- AddForeignKey
+ALTER TABLE "HoldingLot" ADD CONSTRAINT "HoldingLot_trackedAssetId_fkey" FOREIGN KEY ("trackedAssetId") REFERENCES "TrackedAsset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
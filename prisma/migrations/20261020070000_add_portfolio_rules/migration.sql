@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "PortfolioRuleType" AS ENUM ('PORTFOLIO_VALUE_BELOW', 'PORTFOLIO_CHANGE_DECREASE', 'PORTFOLIO_ALLOCATION_ABOVE');
+
+-- AlterTable
+ALTER TABLE "TriggeredAlert" ADD COLUMN     "portfolioRuleId" TEXT,
+ALTER COLUMN "ruleId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "PortfolioRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "PortfolioRuleType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "timeWindowHours" INTEGER,
+    "assetId" TEXT,
+    "quoteCurrency" "QuoteCurrency" NOT NULL DEFAULT 'USD',
+    "channels" "DeliveryChannel"[] DEFAULT ARRAY[]::"DeliveryChannel"[],
+    "priority" "RulePriority" NOT NULL DEFAULT 'NORMAL',
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "cooldownMinutes" INTEGER NOT NULL DEFAULT 119,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PortfolioRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PortfolioRule_userId_idx" ON "PortfolioRule"("userId");
+
+-- CreateIndex
+CREATE INDEX "TriggeredAlert_portfolioRuleId_triggeredAt_idx" ON "TriggeredAlert"("portfolioRuleId", "triggeredAt");
+
+-- AddForeignKey
+ALTER TABLE "PortfolioRule" ADD CONSTRAINT "PortfolioRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PortfolioRule" ADD CONSTRAINT "PortfolioRule_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriggeredAlert" ADD CONSTRAINT "TriggeredAlert_portfolioRuleId_fkey" FOREIGN KEY ("portfolioRuleId") REFERENCES "PortfolioRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
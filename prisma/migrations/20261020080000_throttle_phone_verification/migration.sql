@@ -0,0 +1,10 @@
+-- DropIndex
+DROP INDEX "User_phoneNumber_key";
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "phoneVerificationSendCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "phoneVerificationSentAt" TIMESTAMP(3),
+ADD COLUMN     "phoneVerificationWindowStart" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_phoneNumber_idx" ON "User"("phoneNumber");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "TriggeredAlert" ADD COLUMN     "allocationPercent" DOUBLE PRECISION,
+ADD COLUMN     "marketCap" DOUBLE PRECISION,
+ADD COLUMN     "peakPrice" DOUBLE PRECISION,
+ADD COLUMN     "ratio" DOUBLE PRECISION,
+ADD COLUMN     "volume24h" DOUBLE PRECISION;
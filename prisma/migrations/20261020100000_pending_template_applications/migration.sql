@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "PendingTemplateApplication" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "trackedAssetId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PendingTemplateApplication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PendingTemplateApplication_trackedAssetId_idx" ON "PendingTemplateApplication"("trackedAssetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingTemplateApplication_templateId_trackedAssetId_key" ON "PendingTemplateApplication"("templateId", "trackedAssetId");
+
+-- AddForeignKey
+ALTER TABLE "PendingTemplateApplication" ADD CONSTRAINT "PendingTemplateApplication_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "RuleTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PendingTemplateApplication" ADD CONSTRAINT "PendingTemplateApplication_trackedAssetId_fkey" FOREIGN KEY ("trackedAssetId") REFERENCES "TrackedAsset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
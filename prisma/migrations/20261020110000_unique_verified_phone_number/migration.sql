@@ -0,0 +1,4 @@
+-- Only one user can have a number verified; unverified claims on it are allowed.
+-- Prisma can't describe partial indexes, so this one is only kept here.
+-- CreateIndex
+CREATE UNIQUE INDEX "User_phoneNumber_verified_key" ON "User"("phoneNumber") WHERE "phoneNumberVerified" IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Rules created twice from the same template by concurrent requests keep only the oldest as the
+-- template's; the others stay as hand-made rules
+UPDATE "NotificationRule" AS r SET "templateId" = NULL
+WHERE r."templateId" IS NOT NULL AND EXISTS (
+    SELECT 1 FROM "NotificationRule" AS o
+    WHERE o."templateId" = r."templateId" AND o."trackedAssetId" = r."trackedAssetId"
+      AND (o."createdAt", o."id") < (r."createdAt", r."id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationRule_templateId_trackedAssetId_key" ON "NotificationRule"("templateId", "trackedAssetId");
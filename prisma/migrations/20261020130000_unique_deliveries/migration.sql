@@ -0,0 +1,29 @@
+-- The old index let an alert have several EMAIL, SMS, TELEGRAM or DISCORD deliveries, as Postgres
+-- treats their NULL webhookEndpointId values as distinct. Prisma can't describe partial indexes,
+-- so these are only kept here.
+
+-- Keep the oldest of any duplicates
+DELETE FROM "NotificationDelivery" AS d
+WHERE d."webhookEndpointId" IS NULL AND d."channel" <> 'WEBHOOK' AND EXISTS (
+    SELECT 1 FROM "NotificationDelivery" AS o
+    WHERE o."alertId" = d."alertId" AND o."channel" = d."channel" AND o."webhookEndpointId" IS NULL
+      AND (o."createdAt", o."id") < (d."createdAt", d."id")
+);
+DELETE FROM "NotificationDelivery" AS d
+WHERE d."webhookEndpointId" IS NOT NULL AND EXISTS (
+    SELECT 1 FROM "NotificationDelivery" AS o
+    WHERE o."alertId" = d."alertId" AND o."webhookEndpointId" = d."webhookEndpointId"
+      AND (o."createdAt", o."id") < (d."createdAt", d."id")
+);
+
+-- DropIndex
+DROP INDEX "NotificationDelivery_alertId_channel_webhookEndpointId_key";
+
+-- One delivery per alert and channel. WEBHOOK deliveries are left out: deleting an endpoint sets
+-- their webhookEndpointId to NULL, and an alert can have had several endpoints.
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationDelivery_alertId_channel_key" ON "NotificationDelivery"("alertId", "channel") WHERE "webhookEndpointId" IS NULL AND "channel" <> 'WEBHOOK';
+
+-- One delivery per alert and webhook endpoint
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationDelivery_alertId_webhookEndpointId_key" ON "NotificationDelivery"("alertId", "webhookEndpointId") WHERE "webhookEndpointId" IS NOT NULL;
@@ -1,7 +1,54 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getPrices } from '@/lib/coingecko';
+import { getPriceProviders } from '@/lib/priceProviders';
+import { fetchAggregatedPrices, DEFAULT_OUTLIER_TOLERANCE_PERCENT } from '@/lib/priceAggregation';
 import { evaluateRules } from '@/lib/ruleEvaluator';
+import { evaluatePortfolioRules } from '@/lib/portfolioRules';
+import { retryFailedDeliveries } from '@/lib/notificationSender';
+import { sendQuietTimeDigests } from '@/lib/quietTimeDigest';
+import { applyPendingRuleTemplates } from '@/lib/ruleTemplates';
+import { toVsCurrency } from '@/lib/currency';
+import { QuoteCurrency } from '@prisma/client';
+
+// Currencies to store prices in: USD, plus every asset and portfolio rule's quote currency, every tracking
+// user's reference currency, every holding's cost currency and the currency of every template waiting for a price
+async function getRequiredCurrencies(): Promise<QuoteCurrency[]> {
+  const [ruleCurrencies, portfolioRuleCurrencies, userCurrencies, holdingCurrencies, pendingTemplateCurrencies] = await Promise.all([
+    prisma.notificationRule.findMany({
+      where: { isEnabled: true },
+      select: { quoteCurrency: true },
+      distinct: ['quoteCurrency'],
+    }),
+    prisma.portfolioRule.findMany({
+      where: { isEnabled: true },
+      select: { quoteCurrency: true },
+      distinct: ['quoteCurrency'],
+    }),
+    prisma.user.findMany({
+      where: { trackedAssets: { some: {} } },
+      select: { referenceCurrency: true },
+      distinct: ['referenceCurrency'],
+    }),
+    prisma.trackedAsset.findMany({
+      where: { costCurrency: { not: null } },
+      select: { costCurrency: true },
+      distinct: ['costCurrency'],
+    }),
+    prisma.ruleTemplate.findMany({
+      where: { pendingApplications: { some: {} }, quoteCurrency: { not: null } },
+      select: { quoteCurrency: true },
+      distinct: ['quoteCurrency'],
+    }),
+  ]);
+  return [...new Set([
+    QuoteCurrency.USD,
+    ...ruleCurrencies.map(r => r.quoteCurrency),
+    ...portfolioRuleCurrencies.map(r => r.quoteCurrency),
+    ...userCurrencies.map(u => u.referenceCurrency),
+    ...holdingCurrencies.flatMap(t => t.costCurrency ? [t.costCurrency] : []),
+    ...pendingTemplateCurrencies.flatMap(t => t.quoteCurrency ? [t.quoteCurrency] : []),
+  ])];
+}
 
 // Function to fetch prices and save them to history
 async function fetchAndStorePrices() {
@@ -28,26 +75,39 @@ async function fetchAndStorePrices() {
   const coingeckoIds = trackedAssets.map(a => a.coingeckoId);
   console.log(`Cron Job: Found ${coingeckoIds.length} unique assets to fetch prices for.`);
 
-  // 2. Fetch current prices from CoinGecko
-  const priceData = await getPrices(coingeckoIds);
+  // 2. Fetch current prices from all configured providers and drop outlier quotes
+  const providers = getPriceProviders();
+  const tolerancePercent = process.env.PRICE_OUTLIER_TOLERANCE_PERCENT
+    ? parseFloat(process.env.PRICE_OUTLIER_TOLERANCE_PERCENT)
+    : DEFAULT_OUTLIER_TOLERANCE_PERCENT;
+  const currencies = await getRequiredCurrencies();
+  const aggregatedPrices = await fetchAggregatedPrices(coingeckoIds, providers, tolerancePercent, currencies.map(toVsCurrency));
 
-  // 3. Prepare data for PriceHistory insertion
+  // 3. Prepare data for PriceHistory insertion (one point per asset and currency, with market data if reported)
   const now = new Date(); // Consistent timestamp for this batch
   const priceHistoryEntries = [];
 
-  for (const asset of trackedAssets) {
-    const price = priceData[asset.coingeckoId]?.usd;
-    if (price !== undefined) {
-      priceHistoryEntries.push({
-        assetId: asset.id, // Use our internal Asset ID
-        price: price,
-        timestamp: now,
-      });
+  for (const currency of currencies) {
+    const pricesForCurrency = aggregatedPrices.get(toVsCurrency(currency));
+    for (const asset of trackedAssets) {
+      const aggregate = pricesForCurrency?.get(asset.coingeckoId);
+      if (aggregate) {
+        priceHistoryEntries.push({
+          assetId: asset.id, // Use our internal Asset ID
+          price: aggregate.price,
+          currency,
+          sources: aggregate.sources,
+          marketCap: aggregate.market?.marketCap,
+          volume24h: aggregate.market?.volume24h,
+          change24h: aggregate.market?.change24h,
+          timestamp: now,
+        });
+      }
     }
   }
 
   if (priceHistoryEntries.length === 0) {
-    console.log("Cron Job: Failed to fetch any prices from CoinGecko.");
+    console.log(`Cron Job: Failed to fetch any prices from ${providers.map(p => p.name).join(', ')}.`);
     // Consider logging which IDs failed if possible from getPrices error handling
     return { message: "No prices fetched", count: 0 };
   }
@@ -100,11 +160,38 @@ export async function GET(request: Request) {
   try {
     const storeResult = await fetchAndStorePrices();
 
-    // Only evaluate rules if new prices were actually stored
+    // Only apply waiting templates and evaluate rules if new prices were actually stored
+    let templateRulesCreated = 0;
     if (storeResult.count > 0) { 
+        try {
+            templateRulesCreated = await applyPendingRuleTemplates();
+        } catch (templateError) {
+            console.error("Cron Job: Error applying pending rule templates:", templateError);
+        }
         console.log("Cron Job: New prices stored, evaluating rules...");
         await evaluateRules(); // Just call it, don't expect a return value
         // Logs within evaluateRules and sendNotifications will indicate triggered rules
+        try {
+            await evaluatePortfolioRules();
+        } catch (portfolioError) {
+            console.error("Cron Job: Error evaluating portfolio rules:", portfolioError);
+        }
+    }
+
+    // Re-send notifications that failed on an earlier run (runs even if no new prices were stored)
+    let deliveriesRetried = 0;
+    try {
+        deliveriesRetried = await retryFailedDeliveries();
+    } catch (retryError) {
+        console.error("Cron Job: Error retrying failed deliveries:", retryError);
+    }
+
+    // Send held alerts to users whose quiet time has ended
+    let digestsSent = 0;
+    try {
+        digestsSent = await sendQuietTimeDigests();
+    } catch (digestError) {
+        console.error("Cron Job: Error sending quiet time digests:", digestError);
     }
 
     // Prune old history after processing
@@ -117,6 +204,9 @@ export async function GET(request: Request) {
       pricesStored: storeResult.count,
       // rulesEvaluated: evaluationResult.length, // Removed
       evaluationTriggered: storeResult.count > 0, // Indicate if evaluation was attempted
+      templateRulesCreated: templateRulesCreated,
+      deliveriesRetried: deliveriesRetried,
+      digestsSent: digestsSent,
       historyPruned: pruneResult.count,
     });
 
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
 import { z } from 'zod';
+import { editNotificationRule } from "@/lib/ruleInput";
 
 // Define schema for the route parameter
 const cuidSchema = z.string().cuid({ message: "Invalid Rule ID format." });
@@ -29,10 +30,20 @@ async function verifyRuleOwnership(ruleId: string, userId: string): Promise<bool
   return true; // Ownership verified
 }
 
-// Schema for PATCH request body validation (only allowing isEnabled toggle for now)
-const updateRuleSchema = z.object({
-  isEnabled: z.boolean(),
-});
+// Edits a rule (see editNotificationRule); alerts and history are kept
+async function editRule(ruleId: string, userId: string, body: Record<string, unknown>) {
+  const ruleExistsAndOwned = await verifyRuleOwnership(ruleId, userId);
+  if (!ruleExistsAndOwned) {
+    return NextResponse.json({ error: "Notification rule not found" }, { status: 404 });
+  }
+  const existingRule = await prisma.notificationRule.findUniqueOrThrow({ where: { id: ruleId }, include: { trackedAsset: true } });
+
+  const result = await editNotificationRule(existingRule, userId, body);
+  if ('error' in result) {
+    return NextResponse.json({ error: result.error, details: result.details }, { status: result.status });
+  }
+  return NextResponse.json(result.rule);
+}
 
 // Using the simplified route handler pattern for Next.js App Router
 // Without explicit typing for contexts to avoid type issues
@@ -71,29 +82,15 @@ export async function PATCH(
     return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
   }
 
-  const validationResult = updateRuleSchema.safeParse(rawBody);
-  if (!validationResult.success) {
-    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  if (typeof rawBody !== 'object' || rawBody === null || Array.isArray(rawBody)) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  if (Object.keys(rawBody).length === 0) {
+    return NextResponse.json({ error: "At least one field must be provided" }, { status: 400 });
   }
-
-  const { isEnabled } = validationResult.data;
 
   try {
-    const ruleExistsAndOwned = await verifyRuleOwnership(ruleId, user.id);
-    if (!ruleExistsAndOwned) {
-         return NextResponse.json({ error: "Notification rule not found" }, { status: 404 });
-    }
-
-    // Update the rule
-    const updatedRule = await prisma.notificationRule.update({
-      where: { id: ruleId },
-      data: {
-        isEnabled: isEnabled,
-      },
-    });
-
-    return NextResponse.json(updatedRule);
-
+    return await editRule(ruleId, user.id, rawBody);
   } catch (error) {
     if (error instanceof Error && error.message === 'Forbidden') {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
@@ -190,6 +187,7 @@ export async function GET(
       where: { id: ruleId },
       include: {
         trackedAsset: true,
+        changes: { orderBy: { changedAt: 'desc' } }, // Edit history, newest first
       },
     });
 
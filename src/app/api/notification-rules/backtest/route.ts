@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { buildRuleFields, createRuleSchema, resolveRuleReferences } from "@/lib/ruleInput";
+import { backtestRule } from "@/lib/ruleBacktest";
+
+// POST /api/notification-rules/backtest - Replay stored price history through a rule (not saved) and report when it would have fired
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  // Same validation as creating the rule
+  const validationResult = createRuleSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  }
+  const input = validationResult.data;
+
+  try {
+    const trackedAsset = await prisma.trackedAsset.findUnique({
+      where: { id: input.trackedAssetId },
+      include: { user: true },
+    });
+
+    if (!trackedAsset) {
+      return NextResponse.json({ error: "Tracked asset not found" }, { status: 404 });
+    }
+    if (trackedAsset.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const references = await resolveRuleReferences(input, user.id, trackedAsset.assetId);
+    if ('error' in references) {
+      return NextResponse.json({ error: references.error }, { status: references.status });
+    }
+
+    const fields = buildRuleFields(input, references, input.quoteCurrency ?? trackedAsset.user.referenceCurrency);
+    const assetIds = [...new Set([
+      trackedAsset.assetId,
+      ...(references.compareAssetId ? [references.compareAssetId] : []),
+      ...(references.conditionAssets?.values() ?? []),
+    ])];
+    const history = await prisma.priceHistory.findMany({
+      where: { assetId: { in: assetIds }, currency: fields.quoteCurrency },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    const result = await backtestRule({ id: 'backtest', createdAt: new Date(), ...fields }, {
+      assetId: trackedAsset.assetId,
+      history,
+      compositeCondition: references.storedCondition,
+      ownedAssets: references.conditionAssets,
+      user: trackedAsset.user,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (e) {
+    console.error("Error backtesting notification rule:", e);
+    return NextResponse.json({ error: "Failed to backtest notification rule" }, { status: 500 });
+  }
+}
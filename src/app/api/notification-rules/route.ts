@@ -2,26 +2,12 @@ import { NextResponse, type NextRequest } from "next/server";
 import { getCurrentUser } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
 import { z } from 'zod';
-import { NotificationRuleType } from "@prisma/client";
+import { NotificationRuleType, Prisma } from "@prisma/client";
+import { buildRuleFields, createRuleSchema, resolveRuleReferences } from "@/lib/ruleInput";
 
 // Define schema for the query parameter
 const cuidSchema = z.string().cuid({ message: "Invalid Tracked Asset ID format." });
 
-// Schema for POST request body validation
-const createRuleSchema = z.object({
-  trackedAssetId: z.string().cuid(),
-  type: z.nativeEnum(NotificationRuleType),
-  value: z.number(),
-  timeWindowHours: z.number().int().min(1).max(72).optional(), // Optional, but validated if present
-}).refine((data: { type: NotificationRuleType, timeWindowHours?: number | null }) => {
-    // Require timeWindowHours for percent change types
-    const isPercentChange = data.type === NotificationRuleType.PERCENT_CHANGE_INCREASE || data.type === NotificationRuleType.PERCENT_CHANGE_DECREASE;
-    return !isPercentChange || (isPercentChange && typeof data.timeWindowHours === 'number');
-  }, {
-    message: "timeWindowHours is required for percentage change rule types",
-    path: ["timeWindowHours"], // Field responsible for the error
-});
-
 // GET /api/notification-rules?trackedAssetId={id} - Fetch rules for a specific tracked asset
 export async function GET(request: NextRequest) {
   const user = await getCurrentUser();
@@ -43,6 +29,7 @@ export async function GET(request: NextRequest) {
     // Verify user owns the parent TrackedAsset before fetching rules
     const trackedAsset = await prisma.trackedAsset.findUnique({
       where: { id: trackedAssetId },
+      include: { user: { select: { referenceCurrency: true } } },
     });
 
     if (!trackedAsset) {
@@ -57,6 +44,7 @@ export async function GET(request: NextRequest) {
       where: {
         trackedAssetId: trackedAssetId,
       },
+      include: { compareAsset: { select: { symbol: true } } }, // For describing ratio rules
       orderBy: {
         createdAt: 'asc', // Or order by type, value etc.
       }
@@ -89,12 +77,13 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
   }
 
-  const { trackedAssetId, type, value, timeWindowHours } = validationResult.data;
+  const input = validationResult.data;
 
   try {
     // Verify user owns the parent TrackedAsset before creating rule
     const trackedAsset = await prisma.trackedAsset.findUnique({
-      where: { id: trackedAssetId },
+      where: { id: input.trackedAssetId },
+      include: { user: { select: { referenceCurrency: true } } },
     });
 
     if (!trackedAsset) {
@@ -104,13 +93,29 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Compound and ratio rules may only refer to the user's own tracked assets
+    const references = await resolveRuleReferences(input, user.id, trackedAsset.assetId);
+    if ('error' in references) {
+      return NextResponse.json({ error: references.error }, { status: references.status });
+    }
+
+    // Trailing stops start measuring from the latest known price
+    const ruleQuoteCurrency = input.quoteCurrency ?? trackedAsset.user.referenceCurrency;
+    const latestPrice = input.type === NotificationRuleType.TRAILING_STOP
+      ? await prisma.priceHistory.findFirst({
+          where: { assetId: trackedAsset.assetId, currency: ruleQuoteCurrency },
+          orderBy: { timestamp: 'desc' },
+        })
+      : null;
+
     // Create the rule
     const newRule = await prisma.notificationRule.create({
       data: {
-        trackedAssetId: trackedAssetId,
-        type: type,
-        value: value,
-        timeWindowHours: timeWindowHours, // Will be null/undefined if not applicable
+        trackedAssetId: input.trackedAssetId,
+        ...buildRuleFields(input, references, ruleQuoteCurrency),
+        condition: references.storedCondition ? (references.storedCondition as unknown as Prisma.InputJsonValue) : undefined,
+        peakPrice: latestPrice?.price,
+        peakAt: latestPrice?.timestamp,
         isEnabled: true, // Default
       },
     });
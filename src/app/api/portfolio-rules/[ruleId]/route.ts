@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+
+// Define schema for the route parameter
+const cuidSchema = z.string().cuid({ message: "Invalid ID format." });
+
+const updatePortfolioRuleSchema = z.object({
+  isEnabled: z.boolean(),
+});
+
+// PATCH /api/portfolio-rules/[ruleId] - Turn a portfolio rule on or off
+export async function PATCH(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.ruleId);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid rule ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const ruleId = idValidation.data;
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = updatePortfolioRuleSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const rule = await prisma.portfolioRule.findUnique({ where: { id: ruleId } });
+    if (!rule || rule.userId !== user.id) {
+      return NextResponse.json({ error: "Portfolio rule not found" }, { status: 404 });
+    }
+
+    const updatedRule = await prisma.portfolioRule.update({
+      where: { id: ruleId },
+      data: validationResult.data,
+      include: { asset: true },
+    });
+
+    return NextResponse.json(updatedRule);
+  } catch (error) {
+    console.error(`[API/PORTFOLIO_RULES/[ruleId]] PATCH Error (ID: ${ruleId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/portfolio-rules/[ruleId] - Remove a portfolio rule and its alert history
+export async function DELETE(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.ruleId);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid rule ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const ruleId = idValidation.data;
+
+  try {
+    const rule = await prisma.portfolioRule.findUnique({ where: { id: ruleId } });
+    if (!rule || rule.userId !== user.id) {
+      return NextResponse.json({ error: "Portfolio rule not found" }, { status: 404 });
+    }
+
+    await prisma.portfolioRule.delete({ where: { id: ruleId } });
+
+    return NextResponse.json({ message: "Portfolio rule removed successfully" }, { status: 200 });
+  } catch (error) {
+    console.error(`[API/PORTFOLIO_RULES/[ruleId]] DELETE Error (ID: ${ruleId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { PortfolioRuleType } from "@prisma/client";
+import { DEFAULT_PORTFOLIO_CHANGE_WINDOW_HOURS, portfolioRuleSchema } from "@/lib/portfolioRules";
+
+const MAX_PORTFOLIO_RULES = 20;
+
+// GET /api/portfolio-rules - Fetch the current user's portfolio rules
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const rules = await prisma.portfolioRule.findMany({
+      where: { userId: user.id },
+      include: { asset: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error("[API/PORTFOLIO_RULES] GET Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/portfolio-rules - Create a portfolio rule
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = portfolioRuleSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: "Invalid input", details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const input = validationResult.data;
+
+  try {
+    const ruleCount = await prisma.portfolioRule.count({ where: { userId: user.id } });
+    if (ruleCount >= MAX_PORTFOLIO_RULES) {
+      return NextResponse.json({ error: `You can have up to ${MAX_PORTFOLIO_RULES} portfolio rules` }, { status: 400 });
+    }
+
+    // Allocation rules can only watch an asset the user tracks
+    if (input.assetId) {
+      const trackedAsset = await prisma.trackedAsset.findFirst({ where: { userId: user.id, assetId: input.assetId } });
+      if (!trackedAsset) {
+        return NextResponse.json({ error: "Asset not found in your tracked assets" }, { status: 404 });
+      }
+    }
+
+    const owner = await prisma.user.findUniqueOrThrow({ where: { id: user.id }, select: { referenceCurrency: true } });
+    const rule = await prisma.portfolioRule.create({
+      data: {
+        userId: user.id,
+        type: input.type,
+        value: input.value,
+        timeWindowHours: input.type === PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE
+          ? input.timeWindowHours ?? DEFAULT_PORTFOLIO_CHANGE_WINDOW_HOURS
+          : null,
+        assetId: input.assetId ?? null,
+        quoteCurrency: input.quoteCurrency ?? owner.referenceCurrency,
+        cooldownMinutes: input.cooldownMinutes,
+        channels: input.channels ? [...new Set(input.channels)] : [],
+        priority: input.priority,
+      },
+      include: { asset: true },
+    });
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error("[API/PORTFOLIO_RULES] POST Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
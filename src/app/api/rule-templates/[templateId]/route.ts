@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+import { MAX_TEMPLATE_NAME_LENGTH } from "@/lib/ruleTemplates";
+
+// Define schema for the route parameter
+const cuidSchema = z.string().cuid({ message: "Invalid ID format." });
+
+const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_TEMPLATE_NAME_LENGTH).optional(),
+  autoApply: z.boolean().optional(),
+}).refine(data => data.name !== undefined || data.autoApply !== undefined, {
+  message: "Nothing to update",
+});
+
+// PATCH /api/rule-templates/[templateId] - Rename a template or turn auto-attach on or off
+export async function PATCH(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.templateId);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid template ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const templateId = idValidation.data;
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = updateTemplateSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const template = await prisma.ruleTemplate.findUnique({ where: { id: templateId } });
+    if (!template || template.userId !== user.id) {
+      return NextResponse.json({ error: "Rule template not found" }, { status: 404 });
+    }
+
+    const updatedTemplate = await prisma.ruleTemplate.update({
+      where: { id: templateId },
+      data: validationResult.data,
+      include: { _count: { select: { rules: true } } },
+    });
+
+    return NextResponse.json(updatedTemplate);
+  } catch (error) {
+    console.error(`[API/RULE_TEMPLATES/[templateId]] PATCH Error (ID: ${templateId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/rule-templates/[templateId] - Remove a template; rules created from it are kept
+export async function DELETE(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.templateId);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid template ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const templateId = idValidation.data;
+
+  try {
+    const template = await prisma.ruleTemplate.findUnique({ where: { id: templateId } });
+    if (!template || template.userId !== user.id) {
+      return NextResponse.json({ error: "Rule template not found" }, { status: 404 });
+    }
+
+    await prisma.ruleTemplate.delete({ where: { id: templateId } });
+
+    return NextResponse.json({ message: "Rule template removed successfully" }, { status: 200 });
+  } catch (error) {
+    console.error(`[API/RULE_TEMPLATES/[templateId]] DELETE Error (ID: ${templateId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
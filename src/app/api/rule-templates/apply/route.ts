@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+import { applyRuleTemplates } from "@/lib/ruleTemplates";
+
+const applyTemplatesSchema = z.object({
+  templateIds: z.array(z.string().cuid()).min(1),
+  trackedAssetIds: z.array(z.string().cuid()).min(1).optional(), // Omit to apply to every tracked asset
+});
+
+// POST /api/rule-templates/apply - Create rules from templates on all or some of the user's tracked assets
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = applyTemplatesSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  }
+  const { templateIds, trackedAssetIds } = validationResult.data;
+
+  try {
+    const templates = await prisma.ruleTemplate.findMany({
+      where: { id: { in: templateIds }, userId: user.id },
+    });
+    if (templates.length !== new Set(templateIds).size) {
+      return NextResponse.json({ error: "Rule template not found" }, { status: 404 });
+    }
+
+    const trackedAssets = await prisma.trackedAsset.findMany({
+      where: { userId: user.id, ...(trackedAssetIds && { id: { in: trackedAssetIds } }) },
+      select: { id: true, assetId: true },
+    });
+    if (trackedAssetIds && trackedAssets.length !== new Set(trackedAssetIds).size) {
+      return NextResponse.json({ error: "Tracked asset not found" }, { status: 404 });
+    }
+
+    const owner = await prisma.user.findUniqueOrThrow({ where: { id: user.id }, select: { referenceCurrency: true } });
+    const result = await applyRuleTemplates(templates, trackedAssets, owner.referenceCurrency);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[API/RULE_TEMPLATES/APPLY] POST Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
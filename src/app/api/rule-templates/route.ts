@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { NotificationRuleType, RuleRearmMode } from "@prisma/client";
+import { ruleTemplateSchema } from "@/lib/ruleTemplates";
+
+const MAX_RULE_TEMPLATES = 20;
+
+// GET /api/rule-templates - Fetch the current user's rule templates
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const templates = await prisma.ruleTemplate.findMany({
+      where: { userId: user.id },
+      include: { _count: { select: { rules: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error("[API/RULE_TEMPLATES] GET Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/rule-templates - Save a rule template
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = ruleTemplateSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: "Invalid input", details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const input = validationResult.data;
+
+  try {
+    const templateCount = await prisma.ruleTemplate.count({ where: { userId: user.id } });
+    if (templateCount >= MAX_RULE_TEMPLATES) {
+      return NextResponse.json({ error: `You can save up to ${MAX_RULE_TEMPLATES} rule templates` }, { status: 400 });
+    }
+
+    // Fields that don't apply to the rule type are dropped, as when saving a rule
+    const isMovingAverageCross = input.type === NotificationRuleType.MOVING_AVERAGE_CROSS;
+    const isIndicator = input.type === NotificationRuleType.RSI_CROSS || input.type === NotificationRuleType.BOLLINGER_BREAKOUT;
+    const template = await prisma.ruleTemplate.create({
+      data: {
+        userId: user.id,
+        name: input.name,
+        type: input.type,
+        value: input.value,
+        timeWindowHours: input.timeWindowHours ?? null,
+        movingAverageType: isMovingAverageCross ? input.movingAverageType ?? null : null,
+        crossDirection: isMovingAverageCross || isIndicator ? input.crossDirection ?? null : null,
+        indicatorPeriod: isIndicator ? input.indicatorPeriod ?? null : null,
+        triggerMode: input.triggerMode,
+        quoteCurrency: input.quoteCurrency ?? null,
+        cooldownMinutes: input.cooldownMinutes,
+        rearmMode: input.rearmMode,
+        rearmPercent: input.rearmMode === RuleRearmMode.CROSS_BACK ? input.rearmPercent ?? null : null,
+        channels: input.channels ? [...new Set(input.channels)] : [],
+        priority: input.priority,
+        autoApply: input.autoApply ?? false,
+      },
+      include: { _count: { select: { rules: true } } },
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("[API/RULE_TEMPLATES] POST Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hashVerificationCode } from '@/lib/phoneVerification';
+import { parseTelegramLinkCode, sendTelegramMessage } from '@/lib/notifications/telegram';
+
+// Minimal shape of the Telegram updates we handle
+interface TelegramUpdate {
+  message?: {
+    chat: { id: number | string };
+    text?: string;
+  };
+}
+
+async function reply(chatId: string, text: string) {
+  try {
+    await sendTelegramMessage(chatId, text);
+  } catch {
+    // Already logged by sendTelegramMessage; Telegram shouldn't retry the update because of it
+  }
+}
+
+/**
+ * Receives updates from the Telegram bot (registered with setWebhook and TELEGRAM_WEBHOOK_SECRET).
+ * Users link their chat by sending the one-time code from Settings.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || request.headers.get('x-telegram-bot-api-secret-token') !== secret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let update: TelegramUpdate;
+  try {
+    update = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const message = update.message;
+  if (!message) {
+    return NextResponse.json({ ok: true }); // Not a message we care about
+  }
+  const chatId = String(message.chat.id);
+  const code = parseTelegramLinkCode(message.text);
+
+  if (!code) {
+    await reply(chatId, "Hi! To get alerts here, open Settings in Don't Look At The Chart, click \"Link Telegram\" and send me the code.");
+    return NextResponse.json({ ok: true });
+  }
+
+  try {
+    const user = await prisma.user.findFirst({
+      where: { telegramLinkCodeHash: hashVerificationCode(code), telegramLinkExpiresAt: { gt: new Date() } },
+      select: { id: true },
+    });
+    if (!user) {
+      await reply(chatId, 'That code is invalid or has expired. Create a new one in Settings.');
+      return NextResponse.json({ ok: true });
+    }
+
+    await prisma.$transaction([
+      // A chat can only be linked to one account at a time
+      prisma.user.updateMany({ where: { telegramChatId: chatId, NOT: { id: user.id } }, data: { telegramChatId: null } }),
+      prisma.user.update({
+        where: { id: user.id },
+        data: { telegramChatId: chatId, telegramLinkCodeHash: null, telegramLinkExpiresAt: null },
+      }),
+    ]);
+    console.log(`Telegram: Linked chat ${chatId} to user ${user.id}.`);
+    await reply(chatId, "Linked! You'll get your alerts here.");
+  } catch (error) {
+    console.error('Error linking Telegram chat:', error);
+    return NextResponse.json({ error: 'Failed to link chat' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
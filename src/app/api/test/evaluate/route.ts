@@ -1,34 +1,39 @@
 import { NextResponse } from 'next/server';
-// import { evaluateRules } from '@/lib/ruleEvaluator'; // Keep import commented out
+import { UserRole } from '@prisma/client';
+import { getCurrentUser } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import { evaluateRules } from '@/lib/ruleEvaluator';
 
-// Simple route to manually trigger rule evaluation for testing purposes.
-// GET /api/test/evaluate
-
-// --- TEMPORARILY DISABLED ---
-export async function GET() {
-  console.log('API Route: /api/test/evaluate accessed but is disabled.');
-  return NextResponse.json(
-    { message: 'This test endpoint is currently disabled.' },
-    { status: 403 } // Return Forbidden status
-  );
-/* --- Original Logic Below ---
+// GET /api/test/evaluate - Dry-run rule evaluation: reports what the next cron pass would do with
+// each rule, without recording alerts, updating rules or sending notifications.
+// Users see their own rules. Admins see every user's rules, or one user's with ?userId=.
 export async function GET(request: Request) {
-  console.log('API Route: /api/test/evaluate triggered.');
-
-  try {
-    // Call the rule evaluation function
-    await evaluateRules();
+  const user = await getCurrentUser();
+  if (!user || !user.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
 
-    console.log('API Route: /api/test/evaluate finished successfully.');
-    return NextResponse.json({ message: 'Rule evaluation triggered successfully.' });
+  // The session's role is only refreshed at sign-in, so check the stored one
+  const storedUser = await prisma.user.findUnique({ where: { id: user.id }, select: { role: true } });
+  if (!storedUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const isAdmin = storedUser.role === UserRole.ADMIN;
+  const requestedUserId = new URL(request.url).searchParams.get('userId');
+  if (requestedUserId && requestedUserId !== user.id && !isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  const userId = requestedUserId ?? (isAdmin ? undefined : user.id);
 
+  try {
+    const rules = await evaluateRules(undefined, { dryRun: true, userId });
+    return NextResponse.json({
+      evaluatedAt: new Date(),
+      wouldFire: rules.filter(r => r.wouldFire).length,
+      rules,
+    });
   } catch (error) {
-    console.error('API Route: /api/test/evaluate encountered an error:', error);
-    return NextResponse.json(
-      { message: 'Error triggering rule evaluation.', error: error instanceof Error ? error.message : String(error) },
-      { status: 500 }
-    );
+    console.error('API Route: /api/test/evaluate dry run failed:', error);
+    return NextResponse.json({ error: 'Failed to run dry-run evaluation' }, { status: 500 });
   }
 }
-*/
-} 
\ No newline at end of file
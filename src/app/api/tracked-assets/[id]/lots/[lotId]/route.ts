@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+import { syncHoldingWithLots } from "@/lib/holdingLots";
+
+// Define schema for the route parameters
+const cuidSchema = z.string().cuid({ message: "Invalid ID format." });
+
+// DELETE /api/tracked-assets/[id]/lots/[lotId] - Remove a lot; removing the last one clears the holding
+export async function DELETE(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const trackedAssetValidation = cuidSchema.safeParse(context?.params?.id);
+  const lotValidation = cuidSchema.safeParse(context?.params?.lotId);
+  if (!trackedAssetValidation.success || !lotValidation.success) {
+    return NextResponse.json({ error: "Invalid ID format." }, { status: 400 });
+  }
+  const trackedAssetId = trackedAssetValidation.data;
+  const lotId = lotValidation.data;
+
+  try {
+    const lot = await prisma.holdingLot.findUnique({
+      where: { id: lotId },
+      include: { trackedAsset: { select: { userId: true } } },
+    });
+    if (!lot || lot.trackedAssetId !== trackedAssetId || lot.trackedAsset.userId !== user.id) {
+      return NextResponse.json({ error: "Lot not found" }, { status: 404 });
+    }
+
+    await prisma.holdingLot.delete({ where: { id: lotId } });
+    const updatedTrackedAsset = await syncHoldingWithLots(trackedAssetId);
+
+    return NextResponse.json(updatedTrackedAsset);
+  } catch (error) {
+    console.error(`[API/TRACKED_ASSETS/[id]/LOTS/[lotId]] DELETE Error (ID: ${lotId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
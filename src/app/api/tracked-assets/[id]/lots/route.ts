@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+import { holdingLotSchema } from "@/lib/holdings";
+import { syncHoldingWithLots } from "@/lib/holdingLots";
+
+// Define schema for the route parameter
+const cuidSchema = z.string().cuid({ message: "Invalid ID format." });
+
+// POST /api/tracked-assets/[id]/lots - Add a lot to a holding. The first lot replaces a quantity set by hand.
+export async function POST(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.id);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid Tracked Asset ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const trackedAssetId = idValidation.data;
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = holdingLotSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  }
+  const input = validationResult.data;
+
+  try {
+    const trackedAsset = await prisma.trackedAsset.findUnique({
+      where: { id: trackedAssetId },
+      include: { user: { select: { referenceCurrency: true } }, _count: { select: { lots: true } } },
+    });
+
+    if (!trackedAsset) {
+      return NextResponse.json({ error: "Tracked asset not found" }, { status: 404 });
+    }
+    if (trackedAsset.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden - Asset does not belong to user" }, { status: 403 });
+    }
+
+    // All lots of a holding are in the same currency, picked with the first one
+    const hasLots = trackedAsset._count.lots > 0;
+    if (hasLots && input.costCurrency && input.costCurrency !== trackedAsset.costCurrency) {
+      return NextResponse.json({ error: `This holding's lots are in ${trackedAsset.costCurrency}` }, { status: 400 });
+    }
+    const costCurrency = hasLots
+      ? trackedAsset.costCurrency
+      : input.costCurrency ?? trackedAsset.costCurrency ?? trackedAsset.user.referenceCurrency;
+
+    await prisma.$transaction([
+      prisma.holdingLot.create({
+        data: {
+          trackedAssetId,
+          quantity: input.quantity,
+          unitCost: input.unitCost,
+          acquiredAt: input.acquiredAt,
+          note: input.note || null,
+        },
+      }),
+      prisma.trackedAsset.update({ where: { id: trackedAssetId }, data: { costCurrency } }),
+    ]);
+    const updatedTrackedAsset = await syncHoldingWithLots(trackedAssetId);
+
+    return NextResponse.json(updatedTrackedAsset, { status: 201 });
+  } catch (error) {
+    console.error(`[API/TRACKED_ASSETS/[id]/LOTS] POST Error (ID: ${trackedAssetId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
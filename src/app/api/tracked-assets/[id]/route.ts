@@ -2,10 +2,82 @@ import { NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
 import { z } from 'zod'; // Import Zod
+import { holdingSchema } from "@/lib/holdings";
+import { lotsInclude } from "@/lib/holdingLots";
 
 // Define schema for the route parameter
 const cuidSchema = z.string().cuid({ message: "Invalid ID format." });
 
+// PATCH /api/tracked-assets/[id] - Set or clear the holding (quantity and average cost) of a tracked asset
+export async function PATCH(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.id);
+  if (!idValidation.success) {
+    return NextResponse.json(
+      { error: "Invalid Tracked Asset ID", details: idValidation.error.flatten() },
+      { status: 400 }
+    );
+  }
+  const trackedAssetId = idValidation.data;
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = holdingSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  }
+  const input = validationResult.data;
+
+  try {
+    const trackedAsset = await prisma.trackedAsset.findUnique({
+      where: { id: trackedAssetId },
+      include: { user: { select: { referenceCurrency: true } }, _count: { select: { lots: true } } },
+    });
+
+    if (!trackedAsset) {
+        return NextResponse.json({ error: "Tracked asset not found" }, { status: 404 });
+    }
+    if (trackedAsset.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden - Asset does not belong to user" }, { status: 403 });
+    }
+    // Holdings made of lots follow their lots
+    if (trackedAsset._count.lots > 0) {
+      return NextResponse.json({ error: "This holding is made of lots; add or remove lots instead" }, { status: 409 });
+    }
+
+    const updatedTrackedAsset = await prisma.trackedAsset.update({
+      where: { id: trackedAssetId },
+      data: input.quantity === null
+        ? { quantity: null, averageCost: null, costCurrency: null }
+        : {
+            quantity: input.quantity,
+            averageCost: input.averageCost,
+            costCurrency: input.costCurrency ?? trackedAsset.costCurrency ?? trackedAsset.user.referenceCurrency,
+          },
+      include: lotsInclude,
+    });
+
+    return NextResponse.json(updatedTrackedAsset);
+  } catch (error) {
+    console.error(`[API/TRACKED_ASSETS/[id]] PATCH Error (ID: ${trackedAssetId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
 // DELETE /api/tracked-assets/[id] - Remove an asset from the user's tracked list
 export async function DELETE(
   request: Request, 
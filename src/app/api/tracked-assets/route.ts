@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/session";
 import { prisma } from "@/lib/prisma";
 import { z } from 'zod'; // Import Zod
+import { applyRuleTemplates, TemplateApplicationResult } from "@/lib/ruleTemplates";
 // import { Prisma } from '@prisma/client'; // Unused
 
 // Define Zod schema for the POST request body
@@ -26,6 +27,7 @@ export async function GET() {
       },
       include: {
         asset: true, // Include the details of the tracked asset (name, symbol)
+        lots: { orderBy: { acquiredAt: 'asc' } }, // Holding lots, if the holding is made of lots
         _count: { // Include the count of related rules
           select: { notificationRules: true },
         },
@@ -101,7 +103,24 @@ export async function POST(request: Request) {
       }
     });
 
-    return NextResponse.json(newTrackedAsset, { status: 201 }); // 201 Created
+    // 3. Attach the user's auto-attach rule templates. The asset is tracked either way, so a failure
+    // here is reported alongside it rather than as an error.
+    let appliedTemplates: TemplateApplicationResult = { created: [], skipped: [] };
+    let templateWarning: string | undefined;
+    try {
+      const autoTemplates = await prisma.ruleTemplate.findMany({
+        where: { userId: user.id, autoApply: true },
+        include: { user: { select: { referenceCurrency: true } } },
+      });
+      if (autoTemplates.length > 0) {
+        appliedTemplates = await applyRuleTemplates(autoTemplates, [newTrackedAsset], autoTemplates[0].user.referenceCurrency, { waitForPrice: true });
+      }
+    } catch (templateError) {
+      console.error("[API/TRACKED_ASSETS] POST: Error applying rule templates:", templateError);
+      templateWarning = "The asset was added, but your auto-applied rule templates couldn't be attached. Apply them from Settings.";
+    }
+
+    return NextResponse.json({ ...newTrackedAsset, appliedTemplates, templateWarning }, { status: 201 }); // 201 Created
 
   } catch (error) {
     // Check if the error object has a 'code' property matching P2002
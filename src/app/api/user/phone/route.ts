@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { DeliveryChannel } from '@prisma/client';
+import { sendSms } from '@/lib/notifications/sms';
+import {
+  checkVerificationSend,
+  e164Regex,
+  generateVerificationCode,
+  hashVerificationCode,
+  VERIFICATION_CODE_TTL_MINUTES,
+} from '@/lib/phoneVerification';
+
+const phoneSchema = z.object({
+  phoneNumber: z.string().trim().regex(e164Regex, { message: 'Use international format, e.g. +15551234567' }),
+});
+
+// --- POST Handler: set a phone number and text it a verification code ---
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let requestBody;
+  try {
+    requestBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const validation = phoneSchema.safeParse(requestBody);
+
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+  }
+
+  const { phoneNumber } = validation.data;
+
+  try {
+    // Unverified claims don't block a number; its owner can still verify it
+    const verifiedOwner = await prisma.user.findFirst({
+      where: { phoneNumber, phoneNumberVerified: { not: null }, id: { not: session.user.id } },
+      select: { id: true },
+    });
+    if (verifiedOwner) {
+      return NextResponse.json({ error: 'This phone number is already in use' }, { status: 409 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { phoneVerificationSentAt: true, phoneVerificationWindowStart: true, phoneVerificationSendCount: true, phoneVerificationAttempts: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const sendCheck = checkVerificationSend(user);
+    if (!sendCheck.allowed) {
+      return NextResponse.json({ error: sendCheck.error }, { status: 429 });
+    }
+
+    // The code and send counters are only stored once the SMS has gone out, so a failed send
+    // neither uses up one of the day's codes nor replaces a code the user already has
+    const code = generateVerificationCode();
+    await sendSms(phoneNumber, `Your Don't Look At The Chart verification code is ${code}. It expires in ${VERIFICATION_CODE_TTL_MINUTES} minutes.`);
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        phoneNumber,
+        phoneNumberVerified: null,
+        phoneVerificationCodeHash: hashVerificationCode(code),
+        phoneVerificationExpiresAt: new Date(Date.now() + VERIFICATION_CODE_TTL_MINUTES * 60 * 1000),
+        ...sendCheck.counters,
+      },
+    });
+
+    return NextResponse.json({ phoneNumber, phoneNumberVerified: null });
+  } catch (error) {
+    console.error('Error starting phone verification:', error);
+    return NextResponse.json({ error: 'Failed to send verification code' }, { status: 500 });
+  }
+}
+
+// --- DELETE Handler: remove the phone number and stop SMS alerts ---
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: { defaultChannels: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const defaultChannels = user.defaultChannels.filter(channel => channel !== DeliveryChannel.SMS);
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        phoneNumber: null,
+        phoneNumberVerified: null,
+        phoneVerificationCodeHash: null,
+        phoneVerificationExpiresAt: null,
+        defaultChannels: defaultChannels.length > 0 ? defaultChannels : [DeliveryChannel.EMAIL],
+      },
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error removing phone number:', error);
+    return NextResponse.json({ error: 'Failed to remove phone number' }, { status: 500 });
+  }
+}
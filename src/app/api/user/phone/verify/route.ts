@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { MAX_VERIFICATION_ATTEMPTS, verificationCodeMatches } from '@/lib/phoneVerification';
+
+const verifySchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, { message: 'Enter the 6-digit code' }),
+});
+
+// --- POST Handler: confirm the code sent to the user's phone ---
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let requestBody;
+  try {
+    requestBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const validation = verifySchema.safeParse(requestBody);
+
+  if (!validation.success) {
+    return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { phoneNumber: true, phoneVerificationCodeHash: true, phoneVerificationExpiresAt: true, phoneVerificationAttempts: true },
+    });
+
+    if (!user?.phoneNumber || !user.phoneVerificationCodeHash || !user.phoneVerificationExpiresAt) {
+      return NextResponse.json({ error: 'No verification is pending. Request a new code.' }, { status: 400 });
+    }
+    if (user.phoneVerificationAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+      return NextResponse.json({ error: 'Too many incorrect codes. Try again tomorrow.' }, { status: 400 });
+    }
+    if (user.phoneVerificationExpiresAt < new Date()) {
+      return NextResponse.json({ error: 'This code has expired. Request a new code.' }, { status: 400 });
+    }
+
+    if (!verificationCodeMatches(validation.data.code, user.phoneVerificationCodeHash)) {
+      await prisma.user.update({
+        where: { id: session.user.id },
+        data: { phoneVerificationAttempts: { increment: 1 } },
+      });
+      return NextResponse.json({ error: 'Incorrect code' }, { status: 400 });
+    }
+
+    const phoneNumber = user.phoneNumber;
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      // Someone else may have verified the number since the code was sent
+      const verifiedOwner = await tx.user.findFirst({
+        where: { phoneNumber, phoneNumberVerified: { not: null }, id: { not: session.user.id } },
+        select: { id: true },
+      });
+      if (verifiedOwner) {
+        return null;
+      }
+      // Other users' unverified claims on the number are dropped
+      await tx.user.updateMany({
+        where: { phoneNumber, phoneNumberVerified: null, id: { not: session.user.id } },
+        data: { phoneNumber: null, phoneVerificationCodeHash: null, phoneVerificationExpiresAt: null },
+      });
+      return tx.user.update({
+        where: { id: session.user.id },
+        data: {
+          phoneNumberVerified: new Date(),
+          phoneVerificationCodeHash: null,
+          phoneVerificationExpiresAt: null,
+          phoneVerificationAttempts: 0,
+        },
+        select: { phoneNumber: true, phoneNumberVerified: true },
+      });
+    });
+    if (!updatedUser) {
+      return NextResponse.json({ error: 'This phone number is already in use' }, { status: 409 });
+    }
+
+    return NextResponse.json(updatedUser);
+  } catch (error) {
+    // The database only allows one verified user per number; this catches a verification racing ours
+    if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002') {
+      return NextResponse.json({ error: 'This phone number is already in use' }, { status: 409 });
+    }
+    console.error('Error verifying phone number:', error);
+    return NextResponse.json({ error: 'Failed to verify phone number' }, { status: 500 });
+  }
+}
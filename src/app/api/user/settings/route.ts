@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { DeliveryChannel, QuoteCurrency } from '@prisma/client';
+import { discordWebhookUrlRegex } from '@/lib/notifications/discord';
 
 // Basic time validation regex (HH:MM)
 const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
@@ -13,7 +15,13 @@ const settingsSchema = z.object({
   quietTimeStart: z.string().regex(timeRegex, { message: 'Invalid start time format. Use HH:MM' }).optional().nullable(),
   quietTimeEnd: z.string().regex(timeRegex, { message: 'Invalid end time format. Use HH:MM' }).optional().nullable(),
   quietTimeZone: z.string().optional().nullable(),
+  quietTimeAllowCritical: z.boolean().optional(),
+  quietTimeBreakthroughPercent: z.number().positive().max(100, { message: 'Breakthrough move must be at most 100%' }).optional().nullable(),
+  quietTimeDigestEnabled: z.boolean().optional(),
   morningSummaryEnabled: z.boolean().optional(),
+  referenceCurrency: z.nativeEnum(QuoteCurrency).optional(),
+  defaultChannels: z.array(z.nativeEnum(DeliveryChannel)).min(1, { message: 'Pick at least one channel' }).optional(),
+  discordWebhookUrl: z.string().trim().regex(discordWebhookUrlRegex, { message: 'Use a Discord webhook URL (https://discord.com/api/webhooks/...)' }).optional().nullable(),
 }).refine(data => {
     if (data.quietTimeEnabled && (data.quietTimeStart === undefined || data.quietTimeEnd === undefined || data.quietTimeZone === undefined)) {
       // Depending on UI, might enforce required fields if enabled
@@ -39,7 +47,16 @@ export async function GET() {
         quietTimeStart: true,
         quietTimeEnd: true,
         quietTimeZone: true,
+        quietTimeAllowCritical: true,
+        quietTimeBreakthroughPercent: true,
+        quietTimeDigestEnabled: true,
         morningSummaryEnabled: true,
+        referenceCurrency: true,
+        defaultChannels: true,
+        phoneNumber: true,
+        phoneNumberVerified: true,
+        telegramChatId: true,
+        discordWebhookUrl: true,
       },
     });
 
@@ -83,8 +100,49 @@ export async function PATCH(request: Request) {
   if (dataToUpdate.quietTimeStart === undefined) delete dataToUpdate.quietTimeStart;
   if (dataToUpdate.quietTimeEnd === undefined) delete dataToUpdate.quietTimeEnd;
   if (dataToUpdate.quietTimeZone === undefined) delete dataToUpdate.quietTimeZone;
+  if (dataToUpdate.quietTimeAllowCritical === undefined) delete dataToUpdate.quietTimeAllowCritical;
+  if (dataToUpdate.quietTimeBreakthroughPercent === undefined) delete dataToUpdate.quietTimeBreakthroughPercent;
+  if (dataToUpdate.quietTimeDigestEnabled === undefined) delete dataToUpdate.quietTimeDigestEnabled;
   // Ensure morningSummaryEnabled is deleted if not provided, to avoid setting it to undefined
   if (dataToUpdate.morningSummaryEnabled === undefined) delete dataToUpdate.morningSummaryEnabled;
+  if (dataToUpdate.referenceCurrency === undefined) delete dataToUpdate.referenceCurrency;
+  if (dataToUpdate.defaultChannels === undefined) delete dataToUpdate.defaultChannels;
+  if (dataToUpdate.discordWebhookUrl === undefined) delete dataToUpdate.discordWebhookUrl;
+
+  // Channels have to be set up before they can be defaults
+  if (dataToUpdate.defaultChannels || dataToUpdate.discordWebhookUrl === null) {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { phoneNumberVerified: true, telegramChatId: true, discordWebhookUrl: true, defaultChannels: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!dataToUpdate.defaultChannels) {
+      // Removing the Discord webhook stops using Discord by default
+      const remaining = user.defaultChannels.filter(channel => channel !== DeliveryChannel.DISCORD);
+      dataToUpdate.defaultChannels = remaining.length > 0 ? remaining : [DeliveryChannel.EMAIL];
+    }
+    const defaultChannels = dataToUpdate.defaultChannels;
+    const discordWebhookUrl = dataToUpdate.discordWebhookUrl !== undefined ? dataToUpdate.discordWebhookUrl : user.discordWebhookUrl;
+
+    if (defaultChannels.includes(DeliveryChannel.SMS) && !user.phoneNumberVerified) {
+      return NextResponse.json({ error: 'Verify your phone number before choosing SMS' }, { status: 400 });
+    }
+    if (defaultChannels.includes(DeliveryChannel.TELEGRAM) && !user.telegramChatId) {
+      return NextResponse.json({ error: 'Link Telegram before choosing it' }, { status: 400 });
+    }
+    if (defaultChannels.includes(DeliveryChannel.DISCORD) && !discordWebhookUrl) {
+      return NextResponse.json({ error: 'Add a Discord webhook URL before choosing Discord' }, { status: 400 });
+    }
+    if (defaultChannels.includes(DeliveryChannel.WEBHOOK)) {
+      const enabledEndpoints = await prisma.webhookEndpoint.count({ where: { userId: session.user.id, isEnabled: true } });
+      if (enabledEndpoints === 0) {
+        return NextResponse.json({ error: 'Add a webhook endpoint before choosing webhooks' }, { status: 400 });
+      }
+    }
+  }
 
   try {
     const updatedUser = await prisma.user.update({
@@ -97,7 +155,16 @@ export async function PATCH(request: Request) {
         quietTimeStart: true,
         quietTimeEnd: true,
         quietTimeZone: true,
+        quietTimeAllowCritical: true,
+        quietTimeBreakthroughPercent: true,
+        quietTimeDigestEnabled: true,
         morningSummaryEnabled: true,
+        referenceCurrency: true,
+        defaultChannels: true,
+        phoneNumber: true,
+        phoneNumberVerified: true,
+        telegramChatId: true,
+        discordWebhookUrl: true,
       },
     });
     return NextResponse.json(updatedUser);
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { DeliveryChannel } from '@prisma/client';
+import { hashVerificationCode } from '@/lib/phoneVerification';
+import { generateTelegramLinkCode, TELEGRAM_LINK_CODE_TTL_MINUTES } from '@/lib/notifications/telegram';
+
+// --- POST Handler: create a one-time code for linking a Telegram chat ---
+export async function POST() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const code = generateTelegramLinkCode();
+    const expiresAt = new Date(Date.now() + TELEGRAM_LINK_CODE_TTL_MINUTES * 60 * 1000);
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { telegramLinkCodeHash: hashVerificationCode(code), telegramLinkExpiresAt: expiresAt },
+    });
+
+    // The deep link opens the bot with "/start CODE" ready to send
+    const botUsername = process.env.TELEGRAM_BOT_USERNAME;
+    const deepLink = botUsername ? `https://t.me/${botUsername}?start=${code}` : null;
+
+    return NextResponse.json({ code, deepLink, botUsername: botUsername ?? null, expiresAt });
+  } catch (error) {
+    console.error('Error creating Telegram link code:', error);
+    return NextResponse.json({ error: 'Failed to create link code' }, { status: 500 });
+  }
+}
+
+// --- DELETE Handler: unlink the Telegram chat ---
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: { defaultChannels: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const defaultChannels = user.defaultChannels.filter(channel => channel !== DeliveryChannel.TELEGRAM);
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        telegramChatId: null,
+        telegramLinkCodeHash: null,
+        telegramLinkExpiresAt: null,
+        defaultChannels: defaultChannels.length > 0 ? defaultChannels : [DeliveryChannel.EMAIL],
+      },
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error unlinking Telegram:', error);
+    return NextResponse.json({ error: 'Failed to unlink Telegram' }, { status: 500 });
+  }
+}
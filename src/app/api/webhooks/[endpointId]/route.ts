@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+import { DeliveryChannel } from "@prisma/client";
+
+// Define schema for the route parameter
+const cuidSchema = z.string().cuid({ message: "Invalid ID format." });
+
+const updateWebhookSchema = z.object({
+  isEnabled: z.boolean(),
+});
+
+/**
+ * Stops using webhooks by default once the user has no enabled endpoints left.
+ */
+async function dropWebhookDefaultIfUnused(userId: string) {
+  const enabledCount = await prisma.webhookEndpoint.count({ where: { userId, isEnabled: true } });
+  if (enabledCount > 0) return;
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { defaultChannels: true } });
+  if (!user?.defaultChannels.includes(DeliveryChannel.WEBHOOK)) return;
+
+  const defaultChannels = user.defaultChannels.filter(channel => channel !== DeliveryChannel.WEBHOOK);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { defaultChannels: defaultChannels.length > 0 ? defaultChannels : [DeliveryChannel.EMAIL] },
+  });
+}
+
+// PATCH /api/webhooks/[endpointId] - Enable or disable an endpoint
+export async function PATCH(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.endpointId);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid endpoint ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const endpointId = idValidation.data;
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = updateWebhookSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json({ error: "Invalid input", details: validationResult.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } });
+    if (!endpoint || endpoint.userId !== user.id) {
+      return NextResponse.json({ error: "Webhook endpoint not found" }, { status: 404 });
+    }
+
+    const updatedEndpoint = await prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: { isEnabled: validationResult.data.isEnabled },
+      select: { id: true, url: true, description: true, isEnabled: true, createdAt: true },
+    });
+    await dropWebhookDefaultIfUnused(user.id);
+
+    return NextResponse.json(updatedEndpoint);
+  } catch (error) {
+    console.error(`[API/WEBHOOKS/[endpointId]] PATCH Error (ID: ${endpointId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/webhooks/[endpointId] - Remove an endpoint
+export async function DELETE(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.endpointId);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid endpoint ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const endpointId = idValidation.data;
+
+  try {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } });
+    if (!endpoint || endpoint.userId !== user.id) {
+      return NextResponse.json({ error: "Webhook endpoint not found" }, { status: 404 });
+    }
+
+    await prisma.webhookEndpoint.delete({ where: { id: endpointId } });
+    await dropWebhookDefaultIfUnused(user.id);
+
+    return NextResponse.json({ message: "Webhook endpoint removed successfully" }, { status: 200 });
+  } catch (error) {
+    console.error(`[API/WEBHOOKS/[endpointId]] DELETE Error (ID: ${endpointId}):`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
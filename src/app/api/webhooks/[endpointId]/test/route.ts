@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+import { postWebhook } from "@/lib/notifications/webhook";
+
+// Define schema for the route parameter
+const cuidSchema = z.string().cuid({ message: "Invalid ID format." });
+
+// POST /api/webhooks/[endpointId]/test - Send a signed test event to an endpoint
+export async function POST(
+  request: Request,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  context: any // Use any for context to bypass complex type issues
+) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const idValidation = cuidSchema.safeParse(context?.params?.endpointId);
+  if (!idValidation.success) {
+    return NextResponse.json({ error: "Invalid endpoint ID", details: idValidation.error.flatten() }, { status: 400 });
+  }
+  const endpointId = idValidation.data;
+
+  const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } });
+  if (!endpoint || endpoint.userId !== user.id) {
+    return NextResponse.json({ error: "Webhook endpoint not found" }, { status: 404 });
+  }
+
+  const eventId = `test_${randomUUID()}`;
+  try {
+    await postWebhook(endpoint, {
+      id: eventId,
+      type: 'test',
+      createdAt: new Date().toISOString(),
+      data: { message: "This is a test event from Don't Look At The Chart." },
+    }, eventId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // The endpoint's failure is the result of the test, not a server error. The upstream status and
+    // error stay in the logs, so the test can't be used to probe other hosts.
+    console.warn(`[API/WEBHOOKS/[endpointId]/TEST] Test event to endpoint ${endpointId} failed:`, error);
+    return NextResponse.json({ success: false, error: "The endpoint did not accept the test event" });
+  }
+}
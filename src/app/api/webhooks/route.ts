@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { prisma } from "@/lib/prisma";
+import { z } from 'zod';
+import { assertPublicWebhookUrl, generateWebhookSecret, WebhookUrlError } from "@/lib/notifications/webhook";
+
+const MAX_WEBHOOK_ENDPOINTS = 5;
+
+// Define Zod schema for the POST request body
+const createWebhookSchema = z.object({
+  url: z.string().url({ message: "Invalid URL" }).refine(url => url.startsWith('https://'), {
+    message: "Webhook URLs must use HTTPS",
+  }),
+  description: z.string().max(100).optional(),
+});
+
+// Fields returned when listing endpoints; the secret is only shown once, on creation
+const endpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  isEnabled: true,
+  createdAt: true,
+};
+
+// GET /api/webhooks - Fetch the current user's webhook endpoints
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId: user.id },
+      select: endpointSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+    return NextResponse.json(endpoints);
+  } catch (error) {
+    console.error("[API/WEBHOOKS] GET Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/webhooks - Register a new webhook endpoint
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+
+  if (!user || !user.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let rawBody;
+  try {
+    rawBody = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const validationResult = createWebhookSchema.safeParse(rawBody);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: "Invalid input", details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await assertPublicWebhookUrl(validationResult.data.url);
+  } catch (error) {
+    if (error instanceof WebhookUrlError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: { formErrors: [], fieldErrors: { url: [error.message] } } },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const endpointCount = await prisma.webhookEndpoint.count({ where: { userId: user.id } });
+    if (endpointCount >= MAX_WEBHOOK_ENDPOINTS) {
+      return NextResponse.json({ error: `You can register up to ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints` }, { status: 400 });
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        userId: user.id,
+        url: validationResult.data.url,
+        description: validationResult.data.description || null,
+        secret: generateWebhookSecret(),
+      },
+      select: { ...endpointSelect, secret: true },
+    });
+
+    return NextResponse.json(endpoint, { status: 201 });
+  } catch (error) {
+    console.error("[API/WEBHOOKS] POST Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -4,10 +4,13 @@ import { authOptions } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import QuietTimeForm from '@/components/settings/QuietTimeForm';
 import MorningSummaryForm from '@/components/settings/MorningSummaryForm';
+import CurrencyForm from '@/components/settings/CurrencyForm';
+import NotificationPreferencesForm from '@/components/settings/NotificationPreferencesForm';
+import WebhooksForm from '@/components/settings/WebhooksForm';
+import RuleTemplatesForm from '@/components/settings/RuleTemplatesForm';
 import { Separator } from '@/components/ui/separator';
 
 // You might want to add other setting sections here later
-// import NotificationPreferencesForm from '@/components/settings/NotificationPreferencesForm';
 // import AccountSettingsForm from '@/components/settings/AccountSettingsForm';
 
 export default async function SettingsPage() {
@@ -24,6 +27,21 @@ export default async function SettingsPage() {
       <h1 className="text-3xl font-bold mb-6">Settings</h1>
 
       <div className="space-y-8">
+        {/* Notification Channel Settings Card */}
+        <NotificationPreferencesForm />
+
+        <Separator />
+
+        {/* Webhook Endpoints Card */}
+        <WebhooksForm />
+
+        <Separator />
+
+        {/* Rule Templates Card */}
+        <RuleTemplatesForm />
+
+        <Separator />
+
         {/* Quiet Time Settings Card */}
         <QuietTimeForm />
 
@@ -33,6 +51,11 @@ export default async function SettingsPage() {
         {/* Morning Summary Settings Card */}
         <MorningSummaryForm />
 
+        <Separator />
+
+        {/* Reference Currency Settings Card */}
+        <CurrencyForm />
+
         {/* Add other settings sections as needed */}
         {/* <Separator />
         <AccountSettingsForm /> */}      
@@ -1,9 +1,16 @@
 'use client'
 
 import React, { useState, Fragment } from 'react'
-import { NotificationRuleType } from '@prisma/client' // Import enum
+import { NotificationRule, NotificationRuleType, MovingAverageType, CrossDirection, RuleRearmMode, PriceTriggerMode, QuoteCurrency, DeliveryChannel, RulePriority } from '@prisma/client' // Import enums
 import { Listbox, Transition } from '@headlessui/react' // Import Listbox
 import { CheckIcon, ChevronUpDownIcon } from '@heroicons/react/20/solid' // Import icons
+import { DEFAULT_BOLLINGER_PERIOD, DEFAULT_RSI_PERIOD, MAX_BOLLINGER_MULTIPLIER, MAX_MOVING_AVERAGE_PERIOD, MAX_RSI_PERIOD } from '@/lib/indicators'
+import { DEFAULT_RULE_COOLDOWN_MINUTES, MAX_RULE_COOLDOWN_MINUTES } from '@/lib/ruleDefaults'
+import { formatPrice, quoteCurrencyOptions } from '@/lib/currency'
+import { deliveryChannelOptions } from '@/lib/deliveryChannels'
+import { compositeConditionSchema, isRatioRuleType, isWindowedRuleType, MAX_RATIO_WINDOW_HOURS, MAX_TIME_WINDOW_HOURS, parseStoredCondition, VOLUME_SPIKE_AVERAGE_DAYS } from '@/lib/ruleConditions'
+import { MAX_EXPRESSION_LENGTH, validateRuleExpression } from '@/lib/ruleExpression'
+import CompositeConditionBuilder, { ConditionAssetOption, DraftConditionGroup, newDraftCondition, toCompositeCondition, toDraftCondition } from './CompositeConditionBuilder'
 
 // Define options for the Listbox
 const ruleTypeOptions = [
@@ -11,54 +18,236 @@ const ruleTypeOptions = [
   { id: NotificationRuleType.PRICE_TARGET_BELOW, name: 'Price Below' },
   { id: NotificationRuleType.PERCENT_CHANGE_INCREASE, name: '% Increase' },
   { id: NotificationRuleType.PERCENT_CHANGE_DECREASE, name: '% Decrease' },
+  { id: NotificationRuleType.DRAWDOWN_FROM_HIGH, name: 'Drop From High' },
+  { id: NotificationRuleType.RALLY_FROM_LOW, name: 'Rise From Low' },
+  { id: NotificationRuleType.MOVING_AVERAGE_CROSS, name: 'MA Cross' },
+  { id: NotificationRuleType.RSI_CROSS, name: 'RSI Cross' },
+  { id: NotificationRuleType.BOLLINGER_BREAKOUT, name: 'Bollinger Breakout' },
+  { id: NotificationRuleType.TRAILING_STOP, name: 'Trailing Stop' },
+  { id: NotificationRuleType.VOLUME_SPIKE, name: 'Volume Spike' },
+  { id: NotificationRuleType.MARKET_CAP_ABOVE, name: 'Market Cap Above' },
+  { id: NotificationRuleType.MARKET_CAP_BELOW, name: 'Market Cap Below' },
+  { id: NotificationRuleType.RATIO_ABOVE, name: 'Ratio Above' },
+  { id: NotificationRuleType.RATIO_BELOW, name: 'Ratio Below' },
+  { id: NotificationRuleType.RATIO_CHANGE_INCREASE, name: 'Outperforms By %' },
+  { id: NotificationRuleType.RATIO_CHANGE_DECREASE, name: 'Underperforms By %' },
+  { id: NotificationRuleType.COMPOSITE, name: 'Combined (AND/OR)' },
+  { id: NotificationRuleType.EXPRESSION, name: 'Expression' },
 ];
 
+// When and at what price a rule would have fired, from /api/notification-rules/backtest
+interface BacktestReport {
+  from: string | null;
+  to: string | null;
+  pointsEvaluated: number;
+  firings: { timestamp: string; price: number; ratio: number | null; duringQuietTime: boolean }[];
+}
+
+// Firings listed in the backtest panel; the rest are counted
+const MAX_LISTED_FIRINGS = 20;
+
 interface AddNotificationRuleFormProps {
   trackedAssetId: string; // ID of the parent TrackedAsset
-  onRuleAdded: () => void; // Callback to refresh the rule list
+  referenceCurrency: QuoteCurrency; // User's reference currency, the default quote currency
+  assets: ConditionAssetOption[]; // The user's tracked assets, for combined and ratio rules
+  onRuleAdded: () => void; // Callback to refresh the rule list (after adding a rule or saving an edit)
+  rule?: NotificationRule; // Set to edit this rule instead of adding one
+  onCancel?: () => void; // Closes the form when editing
+}
+
+// Form state for a saved rule's compound condition, or a new one with a single condition
+function initialConditionGroup(trackedAssetId: string, rule?: NotificationRule): DraftConditionGroup {
+  const stored = rule?.type === NotificationRuleType.COMPOSITE ? parseStoredCondition(rule.condition) : null;
+  const draft = stored ? toDraftCondition(stored) : null;
+  if (draft?.kind === 'group') {
+    return draft;
+  }
+  return { kind: 'group', operator: 'AND', conditions: [draft ?? newDraftCondition(trackedAssetId)] };
 }
 
-export default function AddNotificationRuleForm({ trackedAssetId, onRuleAdded }: AddNotificationRuleFormProps) {
+export default function AddNotificationRuleForm({ trackedAssetId, referenceCurrency, assets, onRuleAdded, rule, onCancel }: AddNotificationRuleFormProps) {
   // Use the object structure for selected state with Listbox
-  const [selectedRuleType, setSelectedRuleType] = useState(ruleTypeOptions[0]);
-  const [value, setValue] = useState('');
-  const [timeWindowHours, setTimeWindowHours] = useState('24'); // Default for % change
+  const [selectedRuleType, setSelectedRuleType] = useState(ruleTypeOptions.find(option => option.id === rule?.type) ?? ruleTypeOptions[0]);
+  const [value, setValue] = useState(rule ? String(rule.value) : '');
+  const [timeWindowHours, setTimeWindowHours] = useState(String(rule?.timeWindowHours ?? 24)); // Default for % change
+  const [movingAverageType, setMovingAverageType] = useState<MovingAverageType>(rule?.movingAverageType ?? MovingAverageType.SMA);
+  const [crossDirection, setCrossDirection] = useState<CrossDirection>(rule?.crossDirection ?? CrossDirection.ABOVE);
+  const [indicatorPeriod, setIndicatorPeriod] = useState(String(rule?.indicatorPeriod ?? DEFAULT_RSI_PERIOD));
+  const [quoteCurrency, setQuoteCurrency] = useState<QuoteCurrency | null>(rule?.quoteCurrency ?? null); // null = reference currency
+  const [triggerMode, setTriggerMode] = useState<PriceTriggerMode>(rule?.triggerMode ?? PriceTriggerMode.CROSSING);
+  const [rearmMode, setRearmMode] = useState<RuleRearmMode>(rule?.rearmMode ?? RuleRearmMode.REPEAT);
+  const [cooldownMinutes, setCooldownMinutes] = useState(String(rule?.cooldownMinutes ?? DEFAULT_RULE_COOLDOWN_MINUTES));
+  const [rearmPercent, setRearmPercent] = useState(String(rule?.rearmPercent ?? 2));
+  const [channels, setChannels] = useState<DeliveryChannel[]>(rule?.channels ?? []); // Empty = user's default channels
+  const [priority, setPriority] = useState<RulePriority>(rule?.priority ?? RulePriority.NORMAL);
+  const [expression, setExpression] = useState(rule?.expression ?? '');
+  const compareAssetOptions = assets.filter(asset => asset.id !== trackedAssetId);
+  const [compareTrackedAssetId, setCompareTrackedAssetId] = useState(
+    compareAssetOptions.find(asset => asset.assetId === rule?.compareAssetId)?.id ?? compareAssetOptions[0]?.id ?? ''
+  );
+  const [conditionGroup, setConditionGroup] = useState<DraftConditionGroup>(() => initialConditionGroup(trackedAssetId, rule));
+  const formId = rule?.id ?? trackedAssetId; // Keeps input IDs unique when an edit form is open next to the add form
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isBacktesting, setIsBacktesting] = useState(false);
+  const [backtest, setBacktest] = useState<BacktestReport | null>(null);
 
   const isPercentChange = selectedRuleType.id === NotificationRuleType.PERCENT_CHANGE_INCREASE || selectedRuleType.id === NotificationRuleType.PERCENT_CHANGE_DECREASE;
+  const isDrawdown = selectedRuleType.id === NotificationRuleType.DRAWDOWN_FROM_HIGH;
+  const isRally = selectedRuleType.id === NotificationRuleType.RALLY_FROM_LOW;
+  const hasTimeWindow = isWindowedRuleType(selectedRuleType.id);
+  const isRatio = isRatioRuleType(selectedRuleType.id);
+  const isRatioTarget = selectedRuleType.id === NotificationRuleType.RATIO_ABOVE || selectedRuleType.id === NotificationRuleType.RATIO_BELOW;
+  const maxTimeWindowHours = isRatio ? MAX_RATIO_WINDOW_HOURS : MAX_TIME_WINDOW_HOURS;
+  const isVolumeSpike = selectedRuleType.id === NotificationRuleType.VOLUME_SPIKE;
+  const isMarketCap = selectedRuleType.id === NotificationRuleType.MARKET_CAP_ABOVE || selectedRuleType.id === NotificationRuleType.MARKET_CAP_BELOW;
+  const isMovingAverageCross = selectedRuleType.id === NotificationRuleType.MOVING_AVERAGE_CROSS;
+  const isRsi = selectedRuleType.id === NotificationRuleType.RSI_CROSS;
+  const isBollinger = selectedRuleType.id === NotificationRuleType.BOLLINGER_BREAKOUT;
+  const isTrailingStop = selectedRuleType.id === NotificationRuleType.TRAILING_STOP;
+  const maxIndicatorPeriod = isRsi ? MAX_RSI_PERIOD : MAX_MOVING_AVERAGE_PERIOD;
+  const isPriceTarget = selectedRuleType.id === NotificationRuleType.PRICE_TARGET_ABOVE || selectedRuleType.id === NotificationRuleType.PRICE_TARGET_BELOW;
+  const hasTriggerMode = isPriceTarget || isRatioTarget || isMarketCap;
+  const isComposite = selectedRuleType.id === NotificationRuleType.COMPOSITE;
+  const isExpression = selectedRuleType.id === NotificationRuleType.EXPRESSION;
+  // Checked as the user types, with the same parser the API uses
+  const expressionError = isExpression && expression.trim() ? validateRuleExpression(expression) : null;
+  // Re-arming after a move back past the target only applies to price targets
+  const effectiveRearmMode = rearmMode === RuleRearmMode.CROSS_BACK && !isPriceTarget ? RuleRearmMode.REPEAT : rearmMode;
 
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setIsSubmitting(true);
-    setError(null);
+  const handleRuleTypeChange = (option: typeof ruleTypeOptions[number]) => {
+    setSelectedRuleType(option);
+    // Start indicator rules from their usual periods
+    if (option.id === NotificationRuleType.RSI_CROSS) setIndicatorPeriod(String(DEFAULT_RSI_PERIOD));
+    if (option.id === NotificationRuleType.BOLLINGER_BREAKOUT) setIndicatorPeriod(String(DEFAULT_BOLLINGER_PERIOD));
+  };
 
-    const ruleData = {
+  // The rule as the API expects it, from the current form state
+  const buildRuleData = () => {
+    return {
       trackedAssetId,
       type: selectedRuleType.id, // Use the id from the selected object
-      value: parseFloat(value),
-      timeWindowHours: isPercentChange ? parseInt(timeWindowHours, 10) : undefined,
+      value: isComposite || isExpression ? 0 : parseFloat(value),
+      condition: isComposite ? toCompositeCondition(conditionGroup) : undefined,
+      expression: isExpression ? expression : undefined,
+      compareTrackedAssetId: isRatio ? compareTrackedAssetId : undefined,
+      timeWindowHours: hasTimeWindow ? parseInt(timeWindowHours, 10) : undefined,
+      movingAverageType: isMovingAverageCross ? movingAverageType : undefined,
+      crossDirection: isMovingAverageCross || isRsi || isBollinger ? crossDirection : undefined,
+      indicatorPeriod: isRsi || isBollinger ? parseInt(indicatorPeriod, 10) : undefined,
+      quoteCurrency: quoteCurrency ?? referenceCurrency,
+      triggerMode: hasTriggerMode ? triggerMode : undefined,
+      rearmMode: effectiveRearmMode,
+      cooldownMinutes: effectiveRearmMode !== RuleRearmMode.ONCE ? parseInt(cooldownMinutes, 10) : undefined,
+      rearmPercent: effectiveRearmMode === RuleRearmMode.CROSS_BACK ? parseFloat(rearmPercent) : undefined,
+      channels,
+      priority,
       // isEnabled defaults to true on the backend
     };
+  };
 
+  // Checks the rule before sending it, so most mistakes are reported without a round trip
+  const validateRuleData = (ruleData: ReturnType<typeof buildRuleData>): string | null => {
     // Basic validation
+    if (isExpression && (expressionError || !expression.trim())) {
+      return expressionError ? expressionError.toDisplayString() : 'Enter an expression.';
+    }
+    if (ruleData.condition) {
+      const conditionResult = compositeConditionSchema.safeParse(ruleData.condition);
+      if (!conditionResult.success) {
+        return conditionResult.error.issues[0]?.message ?? 'Invalid conditions.';
+      }
+    }
     if (isNaN(ruleData.value)) {
-      setError('Invalid value provided.');
-      setIsSubmitting(false);
-      return;
+      return 'Invalid value provided.';
     }
-    if (isPercentChange && (isNaN(ruleData.timeWindowHours!) || ruleData.timeWindowHours! <= 0 || ruleData.timeWindowHours! > 72 )) {
-        setError('Invalid time window (must be 1-72 hours).');
-        setIsSubmitting(false);
-        return;
+    if (hasTimeWindow && (isNaN(ruleData.timeWindowHours!) || ruleData.timeWindowHours! <= 0 || ruleData.timeWindowHours! > maxTimeWindowHours )) {
+        return `Invalid time window (must be 1-${maxTimeWindowHours} hours).`;
+    }
+    if (isMovingAverageCross && (!Number.isInteger(ruleData.value) || ruleData.value < 2 || ruleData.value > MAX_MOVING_AVERAGE_PERIOD)) {
+        return `Invalid period (must be a whole number from 2 to ${MAX_MOVING_AVERAGE_PERIOD}).`;
+    }
+    if (ruleData.indicatorPeriod !== undefined && (isNaN(ruleData.indicatorPeriod) || ruleData.indicatorPeriod < 2 || ruleData.indicatorPeriod > maxIndicatorPeriod)) {
+        return `Invalid period (must be a whole number from 2 to ${maxIndicatorPeriod}).`;
+    }
+    if (isRsi && (ruleData.value <= 0 || ruleData.value >= 100)) {
+        return 'Invalid RSI level (must be between 0 and 100).';
+    }
+    if (isBollinger && (ruleData.value <= 0 || ruleData.value > MAX_BOLLINGER_MULTIPLIER)) {
+        return `Invalid band width (must be above 0 and at most ${MAX_BOLLINGER_MULTIPLIER}).`;
+    }
+    if ((isDrawdown && (ruleData.value <= 0 || ruleData.value >= 100)) || (isRally && ruleData.value <= 0)) {
+        return isDrawdown ? 'Invalid drop (must be between 0 and 100%).' : 'Invalid rise (must be above 0%).';
+    }
+    if (isRatio && !ruleData.compareTrackedAssetId) {
+        return 'Choose an asset to compare with.';
     }
+    if (isVolumeSpike && ruleData.value <= 1) {
+        return 'Invalid multiple (must be above 1).';
+    }
+    if ((isRatio || isMarketCap) && ruleData.value <= 0) {
+        return 'Invalid value (must be above 0).';
+    }
+    if (isTrailingStop && (ruleData.value <= 0 || ruleData.value >= 100)) {
+        return 'Invalid trailing stop (must be between 0 and 100%).';
+    }
+    if (ruleData.cooldownMinutes !== undefined && (isNaN(ruleData.cooldownMinutes) || ruleData.cooldownMinutes < 0 || ruleData.cooldownMinutes > MAX_RULE_COOLDOWN_MINUTES)) {
+        return `Invalid cooldown (must be 0-${MAX_RULE_COOLDOWN_MINUTES} minutes).`;
+    }
+    if (ruleData.rearmPercent !== undefined && (isNaN(ruleData.rearmPercent) || ruleData.rearmPercent <= 0 || ruleData.rearmPercent > 100)) {
+        return 'Invalid re-arm percentage (must be above 0 and at most 100).';
+    }
+    return null;
+  };
 
-    // Remove TODO comment
-    console.log('Submitting new rule:', ruleData);
+  // Replays stored price history through the rule without saving it
+  const handleBacktest = async () => {
+    setError(null);
+    const ruleData = buildRuleData();
+    const validationError = validateRuleData(ruleData);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
 
+    setIsBacktesting(true);
     try {
-      const response = await fetch('/api/notification-rules', {
+      const response = await fetch('/api/notification-rules/backtest', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ruleData),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.fieldErrors?.expression?.[0] || result.error || `Failed to backtest rule (status: ${response.status})`);
+      }
+      setBacktest(result);
+    } catch (err) {
+      console.error('Failed to backtest rule:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error backtesting rule.');
+    }
+    setIsBacktesting(false);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const ruleData = buildRuleData();
+    const validationError = validateRuleData(ruleData);
+    if (validationError) {
+      setError(validationError);
+      setIsSubmitting(false);
+      return;
+    }
+
+    console.log(rule ? `Saving rule ${rule.id}:` : 'Submitting new rule:', ruleData);
+
+    try {
+      // Edits send the whole rule, validated like a new one
+      const response = await fetch(rule ? `/api/notification-rules/${rule.id}` : '/api/notification-rules', {
+        method: rule ? 'PATCH' : 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -69,21 +258,40 @@ export default function AddNotificationRuleForm({ trackedAssetId, onRuleAdded }:
 
       if (!response.ok) {
         // Use error message from API if available
-        throw new Error(result.error || `Failed to add rule (status: ${response.status})`);
+        throw new Error(result.details?.fieldErrors?.expression?.[0] || result.error || `Failed to ${rule ? 'save' : 'add'} rule (status: ${response.status})`);
+      }
+
+      if (rule) {
+        onRuleAdded(); // The list closes the form
+        setIsSubmitting(false);
+        return;
       }
 
       console.log('Rule added successfully:', result);
       // Clear form
       setValue('');
       setTimeWindowHours('24');
+      setMovingAverageType(MovingAverageType.SMA);
+      setCrossDirection(CrossDirection.ABOVE);
+      setIndicatorPeriod(String(DEFAULT_RSI_PERIOD));
+      setQuoteCurrency(null);
+      setTriggerMode(PriceTriggerMode.CROSSING);
+      setRearmMode(RuleRearmMode.REPEAT);
+      setCooldownMinutes(String(DEFAULT_RULE_COOLDOWN_MINUTES));
+      setRearmPercent('2');
+      setChannels([]);
+      setPriority(RulePriority.NORMAL);
+      setExpression('');
+      setConditionGroup({ kind: 'group', operator: 'AND', conditions: [newDraftCondition(trackedAssetId)] });
       setSelectedRuleType(ruleTypeOptions[0]); // Reset select
+      setBacktest(null);
       // Notify parent to refresh list
       onRuleAdded(); 
 
     } catch (err) {
-      console.error('Failed to add rule:', err);
+      console.error(`Failed to ${rule ? 'save' : 'add'} rule:`, err);
       // TODO: Add better error feedback (e.g., toast notification)
-      setError(err instanceof Error ? err.message : 'Unknown error adding rule.');
+      setError(err instanceof Error ? err.message : `Unknown error ${rule ? 'saving' : 'adding'} rule.`);
     }
 
     // Remove simulated API call and success/failure logic
@@ -96,14 +304,14 @@ export default function AddNotificationRuleForm({ trackedAssetId, onRuleAdded }:
 
   return (
     <form onSubmit={handleSubmit} className="mt-4 p-4 bg-dracula-bg rounded-lg border border-dracula-comment">
-      <h4 className="text-md font-semibold text-dracula-purple mb-3">Add New Rule</h4>
+      <h4 className="text-md font-semibold text-dracula-purple mb-3">{rule ? 'Edit Rule' : 'Add New Rule'}</h4>
       {error && <p className="text-dracula-red text-sm mb-3">Error: {error}</p>}
       
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
         {/* Rule Type Listbox */}
         <div className="relative">
           <label className="block text-sm font-medium text-dracula-comment mb-1">Type</label>
-          <Listbox value={selectedRuleType} onChange={setSelectedRuleType}> 
+          <Listbox value={selectedRuleType} onChange={handleRuleTypeChange}> 
             <div className="relative mt-1">
               <Listbox.Button className="relative w-full cursor-default rounded bg-dracula-selection py-2 pl-3 pr-10 text-left shadow-sm focus:outline-none focus-visible:border-dracula-purple focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-opacity-75 focus-visible:ring-offset-2 focus-visible:ring-offset-dracula-bg text-sm border border-dracula-comment text-dracula-fg">
                 <span className="block truncate">{selectedRuleType.name}</span>
@@ -156,49 +364,352 @@ export default function AddNotificationRuleForm({ trackedAssetId, onRuleAdded }:
         </div>
 
         {/* Value Input */}
+        {!isComposite && !isExpression && (
         <div>
-          <label htmlFor={`value-${trackedAssetId}`} className="block text-sm font-medium text-dracula-comment mb-1">
-            {isPercentChange ? 'Percentage (%)' : 'Target Price ($'}
+          <label htmlFor={`value-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">
+            {isPercentChange || (isRatio && !isRatioTarget) ? 'Percentage (%)'
+              : isMovingAverageCross ? 'Period (15m points)'
+              : isRsi ? 'RSI Level (0-100)'
+              : isBollinger ? 'Band Width (std. deviations)'
+              : isDrawdown ? 'Drop From Window High (%)'
+              : isRally ? 'Rise From Window Low (%)'
+              : isTrailingStop ? 'Trail (% below peak)'
+              : isRatioTarget ? 'Target Ratio'
+              : isVolumeSpike ? `Multiple of ${VOLUME_SPIKE_AVERAGE_DAYS}-day Average Volume`
+              : isMarketCap ? `Target Market Cap (${quoteCurrency ?? referenceCurrency})`
+              : `Target Price (${quoteCurrency ?? referenceCurrency})`}
           </label>
           <input
-            id={`value-${trackedAssetId}`}
+            id={`value-${formId}`}
             type="number"
-            step="any" 
-            placeholder={isPercentChange ? 'e.g., 5 or -10' : 'e.g., 75000'}
+            step={isMovingAverageCross ? '1' : 'any'}
+            placeholder={isPercentChange ? 'e.g., 5 or -10' : isMovingAverageCross ? 'e.g., 50' : isRsi ? 'e.g., 70 or 30' : isBollinger ? 'e.g., 2' : isTrailingStop || isDrawdown || isRally || (isRatio && !isRatioTarget) ? 'e.g., 10' : isRatioTarget ? 'e.g., 0.045' : isVolumeSpike ? 'e.g., 3' : isMarketCap ? 'e.g., 1000000000' : 'e.g., 75000'}
             value={value}
             onChange={(e) => setValue(e.target.value)}
             className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment"
             required
           />
         </div>
+        )}
 
         {/* Time Window Input (Conditional) */}
-        {isPercentChange && (
+        {hasTimeWindow && (
           <div>
-            <label htmlFor={`time-window-${trackedAssetId}`} className="block text-sm font-medium text-dracula-comment mb-1">Time Window (h)</label>
+            <label htmlFor={`time-window-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Time Window (h)</label>
             <input
-              id={`time-window-${trackedAssetId}`}
+              id={`time-window-${formId}`}
               type="number"
               min="1"
-              max="72" // As per requirements
+              max={maxTimeWindowHours}
               step="1"
-              placeholder="1-72 hours"
+              placeholder={`1-${maxTimeWindowHours} hours`}
               value={timeWindowHours}
               onChange={(e) => setTimeWindowHours(e.target.value)}
               className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment"
-              required={isPercentChange}
+              required={hasTimeWindow}
             />
           </div>
         )}
+
+        {/* Compare Asset for Ratio Rules (Conditional) */}
+        {isRatio && (
+          <div>
+            <label htmlFor={`compare-asset-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Divided By</label>
+            {compareAssetOptions.length > 0 ? (
+              <select
+                id={`compare-asset-${formId}`}
+                value={compareTrackedAssetId}
+                onChange={(e) => setCompareTrackedAssetId(e.target.value)}
+                className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+              >
+                {compareAssetOptions.map(asset => (
+                  <option key={asset.id} value={asset.id}>{asset.symbol}</option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-xs text-dracula-comment">Track another asset to compare with.</p>
+            )}
+          </div>
+        )}
+
+        {/* Target Trigger Mode (Conditional) */}
+        {hasTriggerMode && (
+          <div>
+            <label htmlFor={`trigger-mode-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Trigger</label>
+            <select
+              id={`trigger-mode-${formId}`}
+              value={triggerMode}
+              onChange={(e) => setTriggerMode(e.target.value as PriceTriggerMode)}
+              className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+            >
+              <option value={PriceTriggerMode.CROSSING}>When {isRatioTarget ? 'the ratio' : isMarketCap ? 'market cap' : 'price'} crosses the target</option>
+              <option value={PriceTriggerMode.LEVEL}>Whenever {isRatioTarget ? 'the ratio' : isMarketCap ? 'market cap' : 'price'} is past the target</option>
+            </select>
+          </div>
+        )}
+
+        {/* Moving Average Options (Conditional) */}
+        {isMovingAverageCross && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`ma-type-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Average</label>
+              <select
+                id={`ma-type-${formId}`}
+                value={movingAverageType}
+                onChange={(e) => setMovingAverageType(e.target.value as MovingAverageType)}
+                className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+              >
+                <option value={MovingAverageType.SMA}>SMA</option>
+                <option value={MovingAverageType.EMA}>EMA</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`cross-direction-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Direction</label>
+              <select
+                id={`cross-direction-${formId}`}
+                value={crossDirection}
+                onChange={(e) => setCrossDirection(e.target.value as CrossDirection)}
+                className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+              >
+                <option value={CrossDirection.ABOVE}>Crosses above</option>
+                <option value={CrossDirection.BELOW}>Crosses below</option>
+              </select>
+            </div>
+          </div>
+        )}
+
+        {/* Indicator Options (Conditional) */}
+        {(isRsi || isBollinger) && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`indicator-period-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Period (15m points)</label>
+              <input
+                id={`indicator-period-${formId}`}
+                type="number"
+                min="2"
+                max={maxIndicatorPeriod}
+                step="1"
+                value={indicatorPeriod}
+                onChange={(e) => setIndicatorPeriod(e.target.value)}
+                className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor={`indicator-direction-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Direction</label>
+              <select
+                id={`indicator-direction-${formId}`}
+                value={crossDirection}
+                onChange={(e) => setCrossDirection(e.target.value as CrossDirection)}
+                className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+              >
+                <option value={CrossDirection.ABOVE}>{isRsi ? 'Crosses above' : 'Closes above upper band'}</option>
+                <option value={CrossDirection.BELOW}>{isRsi ? 'Crosses below' : 'Closes below lower band'}</option>
+              </select>
+            </div>
+          </div>
+        )}
       </div>
 
-      <button 
-        type="submit"
-        className="w-full sm:w-auto bg-dracula-green hover:bg-opacity-80 text-dracula-bg font-semibold py-2 px-4 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
-        disabled={isSubmitting}
-      >
-        {isSubmitting ? 'Adding Rule...' : 'Add Rule'}
-      </button>
+      {/* Combined Rule Conditions (Conditional) */}
+      {isComposite && (
+        <div className="mb-3">
+          <CompositeConditionBuilder
+            idPrefix={`condition-${formId}`}
+            group={conditionGroup}
+            assets={assets}
+            defaultTrackedAssetId={trackedAssetId}
+            onChange={setConditionGroup}
+          />
+        </div>
+      )}
+
+      {/* Expression Input (Conditional) */}
+      {isExpression && (
+        <div className="mb-3">
+          <label htmlFor={`expression-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Condition</label>
+          <input
+            id={`expression-${formId}`}
+            type="text"
+            placeholder="e.g., price < 58000 and change(24h) <= -6% and sma(50) > sma(200)"
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            maxLength={MAX_EXPRESSION_LENGTH}
+            spellCheck={false}
+            className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm font-mono placeholder-dracula-comment"
+            required
+          />
+          {expressionError ? (
+            // Underline the part of the expression the error is about
+            <pre className="mt-1 text-xs font-mono text-dracula-red whitespace-pre overflow-x-auto">
+              {`${expression}\n${' '.repeat(expressionError.start)}${'^'.repeat(Math.max(expressionError.end - expressionError.start, 1))}\n${expressionError.toDisplayString()}`}
+            </pre>
+          ) : (
+            <p className="mt-1 text-xs text-dracula-comment">
+              Use price, change(24h), high(24h), low(24h), sma(50) and ema(20) with comparisons, + - * /, and, or, not. Percentages are written like -6%.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Quote Currency, Priority and Repeat Behaviour */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+        <div>
+          <label htmlFor={`quote-currency-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Quote Currency</label>
+          <select
+            id={`quote-currency-${formId}`}
+            value={quoteCurrency ?? referenceCurrency}
+            onChange={(e) => setQuoteCurrency(e.target.value as QuoteCurrency)}
+            className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+          >
+            {quoteCurrencyOptions.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor={`priority-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Priority</label>
+          <select
+            id={`priority-${formId}`}
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as RulePriority)}
+            className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+          >
+            <option value={RulePriority.NORMAL}>Normal</option>
+            <option value={RulePriority.CRITICAL}>Critical (can break through quiet time)</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor={`rearm-mode-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Repeat</label>
+          <select
+            id={`rearm-mode-${formId}`}
+            value={effectiveRearmMode}
+            onChange={(e) => setRearmMode(e.target.value as RuleRearmMode)}
+            className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm"
+          >
+            <option value={RuleRearmMode.REPEAT}>After cooldown</option>
+            <option value={RuleRearmMode.ONCE}>Once, then disable</option>
+            {isPriceTarget && <option value={RuleRearmMode.CROSS_BACK}>After price moves back</option>}
+          </select>
+        </div>
+
+        {effectiveRearmMode !== RuleRearmMode.ONCE && (
+          <div>
+            <label htmlFor={`cooldown-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Cooldown (min)</label>
+            <input
+              id={`cooldown-${formId}`}
+              type="number"
+              min="0"
+              max={MAX_RULE_COOLDOWN_MINUTES}
+              step="1"
+              value={cooldownMinutes}
+              onChange={(e) => setCooldownMinutes(e.target.value)}
+              className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment"
+              required
+            />
+          </div>
+        )}
+
+        {effectiveRearmMode === RuleRearmMode.CROSS_BACK && (
+          <div>
+            <label htmlFor={`rearm-percent-${formId}`} className="block text-sm font-medium text-dracula-comment mb-1">Re-arm after move back (%)</label>
+            <input
+              id={`rearm-percent-${formId}`}
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              placeholder="e.g., 2"
+              value={rearmPercent}
+              onChange={(e) => setRearmPercent(e.target.value)}
+              className="w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment"
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Delivery Channels */}
+      <fieldset className="mb-3">
+        <legend className="block text-sm font-medium text-dracula-comment mb-1">Notify via</legend>
+        <div className="flex flex-wrap items-center gap-4">
+          {deliveryChannelOptions.map(option => (
+            <label key={option.id} className="flex items-center gap-2 text-sm text-dracula-fg">
+              <input
+                type="checkbox"
+                checked={channels.includes(option.id)}
+                onChange={(e) => setChannels(prev => e.target.checked ? [...prev, option.id] : prev.filter(c => c !== option.id))}
+                className="accent-dracula-purple"
+              />
+              {option.name}
+            </label>
+          ))}
+          {channels.length === 0 && <span className="text-xs text-dracula-comment">Using your default channels</span>}
+        </div>
+      </fieldset>
+
+      {/* Backtest Results */}
+      {backtest && (
+        <div className="mb-3 p-3 bg-dracula-selection rounded text-sm">
+          {backtest.pointsEvaluated === 0 || !backtest.from || !backtest.to ? (
+            <p className="text-dracula-comment">No stored prices to test against yet.</p>
+          ) : (
+            <>
+              <p className="text-dracula-fg mb-2">
+                Would have fired <span className="font-semibold text-dracula-yellow">{backtest.firings.length}</span> time{backtest.firings.length === 1 ? '' : 's'} from {new Date(backtest.from).toLocaleString()} to {new Date(backtest.to).toLocaleString()}
+                {backtest.firings.some(f => f.duringQuietTime) && (
+                  <span className="text-dracula-comment"> ({backtest.firings.filter(f => f.duringQuietTime).length} during quiet time)</span>
+                )}
+              </p>
+              {backtest.firings.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                  {backtest.firings.slice(0, MAX_LISTED_FIRINGS).map(firing => (
+                    <li key={firing.timestamp} className="flex justify-between text-dracula-fg">
+                      <span>
+                        {new Date(firing.timestamp).toLocaleString()}
+                        {firing.duringQuietTime && <span className="ml-2 text-dracula-comment">quiet time</span>}
+                      </span>
+                      <span>{formatPrice(firing.price, quoteCurrency ?? referenceCurrency)}</span>
+                    </li>
+                  ))}
+                  {backtest.firings.length > MAX_LISTED_FIRINGS && (
+                    <li className="text-dracula-comment">and {backtest.firings.length - MAX_LISTED_FIRINGS} more</li>
+                  )}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button 
+          type="submit"
+          className="w-full sm:w-auto bg-dracula-green hover:bg-opacity-80 text-dracula-bg font-semibold py-2 px-4 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={isSubmitting}
+        >
+          {rule ? (isSubmitting ? 'Saving...' : 'Save Changes') : (isSubmitting ? 'Adding Rule...' : 'Add Rule')}
+        </button>
+        <button
+          type="button"
+          onClick={handleBacktest}
+          className="w-full sm:w-auto bg-dracula-selection hover:bg-opacity-80 text-dracula-fg font-semibold py-2 px-4 rounded text-sm border border-dracula-comment disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={isBacktesting}
+        >
+          {isBacktesting ? 'Testing...' : 'Test Against History'}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full sm:w-auto text-dracula-comment hover:text-dracula-fg py-2 px-4 rounded text-sm"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
     </form>
   )
 } 
\ No newline at end of file
@@ -77,6 +77,9 @@ export default function AssetSearch({ onAssetAdded }: AssetSearchProps) {
       }
 
       console.log('Successfully added asset:', result);
+      if (result.templateWarning) {
+        alert(result.templateWarning);
+      }
       setSearchTerm(''); // Clear search on success
       onAssetAdded(); // Notify parent component
     } catch (err) {
@@ -0,0 +1,273 @@
+'use client'
+
+import React from 'react'
+import { NotificationRuleType, MovingAverageType, CrossDirection, PriceTriggerMode } from '@prisma/client'
+import { CompositeCondition, CompositeConditionLeaf, CompositeOperator, isWindowedRuleType } from '@/lib/ruleConditions'
+
+// A tracked asset that conditions can refer to
+export interface ConditionAssetOption {
+  id: string; // TrackedAsset ID
+  assetId: string; // Asset ID, to find the asset a saved ratio rule compares with
+  symbol: string;
+}
+
+// Form state for one condition; numbers are kept as typed until the rule is submitted
+export interface DraftConditionLeaf {
+  kind: 'condition';
+  trackedAssetId: string;
+  type: CompositeConditionLeaf['type'];
+  value: string;
+  timeWindowHours: string;
+  movingAverageType: MovingAverageType;
+  crossDirection: CrossDirection;
+}
+
+export interface DraftConditionGroup {
+  kind: 'group';
+  operator: CompositeOperator;
+  conditions: (DraftConditionLeaf | DraftConditionGroup)[];
+}
+
+const conditionTypeOptions: { id: CompositeConditionLeaf['type'], name: string }[] = [
+  { id: NotificationRuleType.PRICE_TARGET_ABOVE, name: 'Price Above' },
+  { id: NotificationRuleType.PRICE_TARGET_BELOW, name: 'Price Below' },
+  { id: NotificationRuleType.PERCENT_CHANGE_INCREASE, name: '% Increase' },
+  { id: NotificationRuleType.PERCENT_CHANGE_DECREASE, name: '% Decrease' },
+  { id: NotificationRuleType.DRAWDOWN_FROM_HIGH, name: 'Drop From High' },
+  { id: NotificationRuleType.RALLY_FROM_LOW, name: 'Rise From Low' },
+  { id: NotificationRuleType.MOVING_AVERAGE_CROSS, name: 'MA Cross' },
+];
+
+const inputClassName = "p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment";
+
+export function newDraftCondition(trackedAssetId: string): DraftConditionLeaf {
+  return {
+    kind: 'condition',
+    trackedAssetId,
+    type: NotificationRuleType.PRICE_TARGET_BELOW,
+    value: '',
+    timeWindowHours: '24',
+    movingAverageType: MovingAverageType.SMA,
+    crossDirection: CrossDirection.ABOVE,
+  };
+}
+
+/**
+ * Converts the builder's form state into the condition tree the API expects.
+ * Values that aren't numbers become NaN and are rejected by validation.
+ */
+export function toCompositeCondition(draft: DraftConditionLeaf | DraftConditionGroup): CompositeCondition {
+  if (draft.kind === 'group') {
+    return { kind: 'group', operator: draft.operator, conditions: draft.conditions.map(toCompositeCondition) };
+  }
+  const hasTimeWindow = isWindowedRuleType(draft.type);
+  const isMovingAverageCross = draft.type === NotificationRuleType.MOVING_AVERAGE_CROSS;
+  return {
+    kind: 'condition',
+    trackedAssetId: draft.trackedAssetId,
+    assetSymbol: '', // Filled in by the API
+    type: draft.type,
+    value: parseFloat(draft.value),
+    timeWindowHours: hasTimeWindow ? parseInt(draft.timeWindowHours, 10) : undefined,
+    movingAverageType: isMovingAverageCross ? draft.movingAverageType : undefined,
+    crossDirection: isMovingAverageCross ? draft.crossDirection : undefined,
+    triggerMode: PriceTriggerMode.LEVEL, // Conditions are checked together, so price targets compare levels
+  };
+}
+
+/**
+ * Converts a stored condition tree back into form state, to edit a saved rule.
+ */
+export function toDraftCondition(condition: CompositeCondition): DraftConditionLeaf | DraftConditionGroup {
+  if (condition.kind === 'group') {
+    return { kind: 'group', operator: condition.operator, conditions: condition.conditions.map(toDraftCondition) };
+  }
+  return {
+    kind: 'condition',
+    trackedAssetId: condition.trackedAssetId,
+    type: condition.type,
+    value: String(condition.value),
+    timeWindowHours: String(condition.timeWindowHours ?? 24),
+    movingAverageType: condition.movingAverageType ?? MovingAverageType.SMA,
+    crossDirection: condition.crossDirection ?? CrossDirection.ABOVE,
+  };
+}
+
+interface CompositeConditionBuilderProps {
+  idPrefix: string; // Keeps input IDs unique when several forms are on the page
+  group: DraftConditionGroup;
+  assets: ConditionAssetOption[];
+  defaultTrackedAssetId: string; // Asset used for newly added conditions
+  onChange: (group: DraftConditionGroup) => void;
+  isNested?: boolean;
+}
+
+/**
+ * Builds a compound rule: conditions on any of the user's tracked assets, combined with AND/OR,
+ * with one level of nested groups (e.g. "A AND (B OR C)").
+ */
+export default function CompositeConditionBuilder({ idPrefix, group, assets, defaultTrackedAssetId, onChange, isNested = false }: CompositeConditionBuilderProps) {
+  const updateChild = (index: number, child: DraftConditionLeaf | DraftConditionGroup) => {
+    onChange({ ...group, conditions: group.conditions.map((c, i) => i === index ? child : c) });
+  };
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-2 ${isNested ? 'p-2 border border-dracula-comment rounded' : ''}`}>
+      <div className="flex items-center gap-2">
+        <label htmlFor={`${idPrefix}-operator`} className="text-sm font-medium text-dracula-comment">
+          {isNested ? 'Group: match' : 'Match'}
+        </label>
+        <select
+          id={`${idPrefix}-operator`}
+          value={group.operator}
+          onChange={(e) => onChange({ ...group, operator: e.target.value as CompositeOperator })}
+          className={inputClassName}
+        >
+          <option value="AND">all of these (AND)</option>
+          <option value="OR">any of these (OR)</option>
+        </select>
+      </div>
+
+      {group.conditions.map((child, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <div className="flex-1">
+            {child.kind === 'group' ? (
+              <CompositeConditionBuilder
+                idPrefix={`${idPrefix}-${index}`}
+                group={child}
+                assets={assets}
+                defaultTrackedAssetId={defaultTrackedAssetId}
+                onChange={(updated) => updateChild(index, updated)}
+                isNested
+              />
+            ) : (
+              <ConditionRow
+                idPrefix={`${idPrefix}-${index}`}
+                condition={child}
+                assets={assets}
+                onChange={(updated) => updateChild(index, updated)}
+              />
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => removeChild(index)}
+            className="text-xs text-dracula-red hover:underline py-2"
+            disabled={group.conditions.length <= 1}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, newDraftCondition(defaultTrackedAssetId)] })}
+          className="text-xs text-dracula-cyan hover:underline"
+        >
+          + Add condition
+        </button>
+        {!isNested && (
+          <button
+            type="button"
+            onClick={() => onChange({
+              ...group,
+              conditions: [...group.conditions, { kind: 'group', operator: group.operator === 'AND' ? 'OR' : 'AND', conditions: [newDraftCondition(defaultTrackedAssetId)] }],
+            })}
+            className="text-xs text-dracula-cyan hover:underline"
+          >
+            + Add group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ConditionRowProps {
+  idPrefix: string;
+  condition: DraftConditionLeaf;
+  assets: ConditionAssetOption[];
+  onChange: (condition: DraftConditionLeaf) => void;
+}
+
+function ConditionRow({ idPrefix, condition, assets, onChange }: ConditionRowProps) {
+  const hasTimeWindow = isWindowedRuleType(condition.type);
+  const isMovingAverageCross = condition.type === NotificationRuleType.MOVING_AVERAGE_CROSS;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        aria-label="Asset"
+        value={condition.trackedAssetId}
+        onChange={(e) => onChange({ ...condition, trackedAssetId: e.target.value })}
+        className={inputClassName}
+      >
+        {assets.map(asset => (
+          <option key={asset.id} value={asset.id}>{asset.symbol}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Condition"
+        value={condition.type}
+        onChange={(e) => onChange({ ...condition, type: e.target.value as DraftConditionLeaf['type'] })}
+        className={inputClassName}
+      >
+        {conditionTypeOptions.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+      <input
+        id={`${idPrefix}-value`}
+        aria-label={hasTimeWindow ? 'Percentage (%)' : isMovingAverageCross ? 'Period' : 'Target price'}
+        type="number"
+        step={isMovingAverageCross ? '1' : 'any'}
+        placeholder={hasTimeWindow ? '%' : isMovingAverageCross ? 'Period' : 'Price'}
+        value={condition.value}
+        onChange={(e) => onChange({ ...condition, value: e.target.value })}
+        className={`${inputClassName} w-28`}
+        required
+      />
+      {hasTimeWindow && (
+        <input
+          aria-label="Time window (h)"
+          type="number"
+          min="1"
+          max="72"
+          step="1"
+          placeholder="Hours"
+          value={condition.timeWindowHours}
+          onChange={(e) => onChange({ ...condition, timeWindowHours: e.target.value })}
+          className={`${inputClassName} w-20`}
+          required
+        />
+      )}
+      {isMovingAverageCross && (
+        <>
+          <select
+            aria-label="Average"
+            value={condition.movingAverageType}
+            onChange={(e) => onChange({ ...condition, movingAverageType: e.target.value as MovingAverageType })}
+            className={inputClassName}
+          >
+            <option value={MovingAverageType.SMA}>SMA</option>
+            <option value={MovingAverageType.EMA}>EMA</option>
+          </select>
+          <select
+            aria-label="Direction"
+            value={condition.crossDirection}
+            onChange={(e) => onChange({ ...condition, crossDirection: e.target.value as CrossDirection })}
+            className={inputClassName}
+          >
+            <option value={CrossDirection.ABOVE}>Crosses above</option>
+            <option value={CrossDirection.BELOW}>Crosses below</option>
+          </select>
+        </>
+      )}
+    </div>
+  )
+}
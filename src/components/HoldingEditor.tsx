@@ -0,0 +1,277 @@
+'use client'
+
+import React, { useState } from 'react'
+import { QuoteCurrency } from '@prisma/client'
+import { formatPrice, quoteCurrencyOptions } from '@/lib/currency'
+
+export interface HoldingLotSummary {
+  id: string;
+  quantity: number;
+  unitCost: number;
+  acquiredAt: string | Date;
+  note: string | null;
+}
+
+interface HoldingEditorProps {
+  trackedAssetId: string;
+  assetSymbol: string;
+  quantity: number | null;
+  averageCost: number | null;
+  costCurrency: QuoteCurrency | null;
+  lots: HoldingLotSummary[];
+  referenceCurrency: QuoteCurrency; // Default currency for a new holding
+  onHoldingChanged: () => void; // Callback to refresh the asset list
+}
+
+const inputClassName = "w-full p-2 bg-dracula-selection border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment"
+const labelClassName = "block text-sm font-medium text-dracula-comment mb-1"
+
+// Today's date for the lot date picker, in local time
+function todayInputValue(): string {
+  const now = new Date()
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10)
+}
+
+export default function HoldingEditor({ trackedAssetId, assetSymbol, quantity, averageCost, costCurrency, lots, referenceCurrency, onHoldingChanged }: HoldingEditorProps) {
+  const hasLots = lots.length > 0
+  const currency = costCurrency ?? referenceCurrency
+
+  // Holding set by hand
+  const [quantityInput, setQuantityInput] = useState(quantity?.toString() ?? '')
+  const [averageCostInput, setAverageCostInput] = useState(averageCost?.toString() ?? '')
+  const [currencyInput, setCurrencyInput] = useState<QuoteCurrency>(currency)
+
+  // New lot
+  const [lotQuantity, setLotQuantity] = useState('')
+  const [lotUnitCost, setLotUnitCost] = useState('')
+  const [lotDate, setLotDate] = useState(todayInputValue)
+  const [lotNote, setLotNote] = useState('')
+
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Sends a change and refreshes the asset list; returns whether it worked
+  const send = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        const fieldErrors = result.details?.fieldErrors
+        const firstFieldError = fieldErrors ? Object.values(fieldErrors).flat()[0] : undefined
+        throw new Error((firstFieldError as string | undefined) || result.details?.formErrors?.[0] || result.error || `Request failed (status: ${response.status})`)
+      }
+      onHoldingChanged()
+      return true
+    } catch (err) {
+      console.error("Error saving holding:", err)
+      setError(err instanceof Error ? err.message : 'Unknown error saving holding.')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSaveHolding = (e: React.FormEvent) => {
+    e.preventDefault()
+    send(`/api/tracked-assets/${trackedAssetId}`, 'PATCH', {
+      quantity: parseFloat(quantityInput),
+      averageCost: parseFloat(averageCostInput),
+      costCurrency: currencyInput,
+    })
+  }
+
+  const handleClearHolding = () => {
+    if (!confirm(`Stop recording your ${assetSymbol} holding?`)) {
+      return
+    }
+    send(`/api/tracked-assets/${trackedAssetId}`, 'PATCH', { quantity: null })
+  }
+
+  const handleAddLot = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!hasLots && quantity !== null && !confirm(`Adding a lot replaces the ${assetSymbol} quantity and average cost you entered. Continue?`)) {
+      return
+    }
+    const added = await send(`/api/tracked-assets/${trackedAssetId}/lots`, 'POST', {
+      quantity: parseFloat(lotQuantity),
+      unitCost: parseFloat(lotUnitCost),
+      acquiredAt: lotDate,
+      note: lotNote || undefined,
+      costCurrency: hasLots ? undefined : currencyInput,
+    })
+    if (added) {
+      setLotQuantity('')
+      setLotUnitCost('')
+      setLotNote('')
+    }
+  }
+
+  const handleRemoveLot = (lot: HoldingLotSummary) => {
+    send(`/api/tracked-assets/${trackedAssetId}/lots/${lot.id}`, 'DELETE')
+  }
+
+  const currencySelect = (
+    <div>
+      <label htmlFor={`holding-currency-${trackedAssetId}`} className={labelClassName}>Currency</label>
+      <select
+        id={`holding-currency-${trackedAssetId}`}
+        value={currencyInput}
+        onChange={(e) => setCurrencyInput(e.target.value as QuoteCurrency)}
+        className={inputClassName}
+      >
+        {quoteCurrencyOptions.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+    </div>
+  )
+
+  return (
+    <div className="mb-4 p-4 bg-dracula-bg rounded-lg border border-dracula-comment">
+      <h4 className="text-md font-semibold text-dracula-purple mb-3">Holding</h4>
+      {error && <p className="text-dracula-red text-sm mb-3">Error: {error}</p>}
+
+      {!hasLots && (
+        <form onSubmit={handleSaveHolding} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end mb-4">
+          <div>
+            <label htmlFor={`holding-quantity-${trackedAssetId}`} className={labelClassName}>Quantity ({assetSymbol})</label>
+            <input
+              id={`holding-quantity-${trackedAssetId}`}
+              type="number"
+              step="any"
+              min="0"
+              value={quantityInput}
+              onChange={(e) => setQuantityInput(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor={`holding-cost-${trackedAssetId}`} className={labelClassName}>Average Cost</label>
+            <input
+              id={`holding-cost-${trackedAssetId}`}
+              type="number"
+              step="any"
+              min="0"
+              value={averageCostInput}
+              onChange={(e) => setAverageCostInput(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+          {currencySelect}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-dracula-green hover:bg-opacity-80 text-dracula-bg font-semibold py-2 px-4 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+            {quantity !== null && (
+              <button
+                type="button"
+                onClick={handleClearHolding}
+                disabled={isSaving}
+                className="text-dracula-comment hover:text-dracula-fg py-2 px-2 rounded text-sm"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {hasLots && (
+        <div className="mb-4">
+          <p className="text-sm text-dracula-comment mb-2">
+            Made of {lots.length} lot{lots.length === 1 ? '' : 's'}: {quantity?.toLocaleString(undefined, { maximumFractionDigits: 8 })} {assetSymbol} at an average of {averageCost !== null ? formatPrice(averageCost, currency) : 'N/A'}.
+          </p>
+          <ul className="space-y-1">
+            {lots.map(lot => (
+              <li key={lot.id} className="flex justify-between items-center text-sm">
+                <span className="text-dracula-fg">
+                  {new Date(lot.acquiredAt).toLocaleDateString()}: {lot.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} {assetSymbol} at {formatPrice(lot.unitCost, currency)}
+                  {lot.note && <span className="text-dracula-comment ml-2">({lot.note})</span>}
+                </span>
+                <button
+                  onClick={() => handleRemoveLot(lot)}
+                  disabled={isSaving}
+                  className="text-dracula-red hover:text-opacity-80 text-xs disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleAddLot} className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+        <div>
+          <label htmlFor={`lot-quantity-${trackedAssetId}`} className={labelClassName}>Lot Quantity</label>
+          <input
+            id={`lot-quantity-${trackedAssetId}`}
+            type="number"
+            step="any"
+            min="0"
+            value={lotQuantity}
+            onChange={(e) => setLotQuantity(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor={`lot-cost-${trackedAssetId}`} className={labelClassName}>Unit Cost</label>
+          <input
+            id={`lot-cost-${trackedAssetId}`}
+            type="number"
+            step="any"
+            min="0"
+            value={lotUnitCost}
+            onChange={(e) => setLotUnitCost(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor={`lot-date-${trackedAssetId}`} className={labelClassName}>Date</label>
+          <input
+            id={`lot-date-${trackedAssetId}`}
+            type="date"
+            value={lotDate}
+            max={todayInputValue()}
+            onChange={(e) => setLotDate(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor={`lot-note-${trackedAssetId}`} className={labelClassName}>Note</label>
+          <input
+            id={`lot-note-${trackedAssetId}`}
+            value={lotNote}
+            onChange={(e) => setLotNote(e.target.value)}
+            maxLength={100}
+            placeholder="Optional"
+            className={inputClassName}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="bg-dracula-selection hover:bg-opacity-80 text-dracula-fg font-semibold py-2 px-4 rounded text-sm border border-dracula-comment disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Lot
+        </button>
+      </form>
+      {hasLots && <p className="text-xs text-dracula-comment mt-2">Lots are in {currency}.</p>}
+    </div>
+  )
+}
@@ -1,19 +1,66 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { NotificationRule } from '@prisma/client' // Import actual Prisma type
+import { NotificationRule, NotificationRuleChange, QuoteCurrency } from '@prisma/client' // Import actual Prisma type
+import { formatCompactAmount, formatPrice } from '@/lib/currency'
+import { formatChannels } from '@/lib/deliveryChannels'
+import { describeCompositeCondition, formatRatio, parseStoredCondition, trailingStopTriggerPrice, VOLUME_SPIKE_AVERAGE_DAYS } from '@/lib/ruleConditions'
+import AddNotificationRuleForm from './AddNotificationRuleForm'
+import { ConditionAssetOption } from './CompositeConditionBuilder'
+
+// A rule as returned by GET /api/notification-rules
+type RuleWithCompareAsset = NotificationRule & { compareAsset: { symbol: string } | null };
 
 interface NotificationRuleListProps {
   trackedAssetId: string; // ID of the parent TrackedAsset
   assetSymbol: string;    // Symbol of the asset (for display)
   refreshKey: number; // Key to trigger re-fetch
   requestAssetListRefresh: () => void; // Add callback prop
+  referenceCurrency: QuoteCurrency; // For the edit form
+  assets: ConditionAssetOption[]; // The user's tracked assets, for editing combined and ratio rules
 }
 
-export default function NotificationRuleList({ trackedAssetId, assetSymbol, refreshKey, requestAssetListRefresh }: NotificationRuleListProps) {
-  const [rules, setRules] = useState<NotificationRule[]>([]); // Use actual type
+// Labels for the fields shown in a rule's change history
+const changeFieldLabels: Record<string, string> = {
+  type: 'Type',
+  value: 'Value',
+  timeWindowHours: 'Window (h)',
+  movingAverageType: 'Average',
+  crossDirection: 'Direction',
+  indicatorPeriod: 'Period',
+  triggerMode: 'Trigger',
+  expression: 'Expression',
+  compareAssetId: 'Compared asset',
+  quoteCurrency: 'Currency',
+  cooldownMinutes: 'Cooldown (min)',
+  rearmMode: 'Repeat',
+  rearmPercent: 'Re-arm %',
+  channels: 'Channels',
+  priority: 'Priority',
+  isEnabled: 'Enabled',
+};
+
+const formatChangeValue = (value: unknown): string => {
+  if (value === null || (Array.isArray(value) && value.length === 0)) return 'none';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+// Describes one history entry, e.g. "Value 70000 → 72000"
+const formatChanges = (change: NotificationRuleChange): string => {
+  const fields = Object.entries(change.changes as Record<string, { from: unknown; to: unknown }>);
+  return fields.map(([field, { from, to }]) => field === 'condition'
+    ? 'Conditions changed'
+    : `${changeFieldLabels[field] ?? field} ${formatChangeValue(from)} → ${formatChangeValue(to)}`
+  ).join('; ');
+};
+
+export default function NotificationRuleList({ trackedAssetId, assetSymbol, refreshKey, requestAssetListRefresh, referenceCurrency, assets }: NotificationRuleListProps) {
+  const [rules, setRules] = useState<RuleWithCompareAsset[]>([]); // Use actual type
   const [isLoading, setIsLoading] = useState(true); // Start loading
   const [error, setError] = useState<string | null>(null);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [history, setHistory] = useState<NotificationRuleChange[]>([]); // Change history of the rule being edited
+  const [reloadKey, setReloadKey] = useState(0); // Bumped to re-fetch after an edit
 
   // Fetch rules when trackedAssetId or refreshKey changes
   useEffect(() => {
@@ -27,7 +74,7 @@ export default function NotificationRuleList({ trackedAssetId, assetSymbol, refr
           const errorData = await response.json();
           throw new Error(errorData.error || 'Failed to fetch notification rules');
         }
-        const data: NotificationRule[] = await response.json();
+        const data: RuleWithCompareAsset[] = await response.json();
         setRules(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An unknown error occurred');
@@ -38,12 +85,33 @@ export default function NotificationRuleList({ trackedAssetId, assetSymbol, refr
     };
 
     fetchRules();
-  }, [trackedAssetId, refreshKey]); // Add refreshKey dependency
+  }, [trackedAssetId, refreshKey, reloadKey]); // Add refreshKey dependency
+
+  const handleEditRule = async (ruleId: string) => {
+    setEditingRuleId(ruleId);
+    setHistory([]);
+    try {
+      const response = await fetch(`/api/notification-rules/${ruleId}`);
+      if (response.ok) {
+        const rule: NotificationRule & { changes: NotificationRuleChange[] } = await response.json();
+        setHistory(rule.changes);
+      }
+    } catch (err) {
+      console.error("Error fetching rule history:", err); // The form works without it
+    }
+  };
+
+  const handleRuleSaved = () => {
+    setEditingRuleId(null);
+    setReloadKey(key => key + 1);
+    requestAssetListRefresh();
+  };
 
   const handleToggleRule = async (ruleId: string, currentStatus: boolean) => {
     const originalRules = [...rules];
     // Optimistic update
-    setRules(prev => prev.map(rule => rule.id === ruleId ? { ...rule, isEnabled: !currentStatus } : rule));
+    // Re-enabling a rule also re-arms it
+    setRules(prev => prev.map(rule => rule.id === ruleId ? { ...rule, isEnabled: !currentStatus, isArmed: rule.isArmed || !currentStatus } : rule));
 
     try {
       const response = await fetch(`/api/notification-rules/${ruleId}`, {
@@ -95,17 +163,66 @@ export default function NotificationRuleList({ trackedAssetId, assetSymbol, refr
   };
 
   // Helper to format rule description (using actual NotificationRule type)
-  const formatRule = (rule: NotificationRule): string => {
-    const valueStr = rule.type.includes('PERCENT') ? `${rule.value}%` : `$${rule.value.toLocaleString()}`;
+  const formatRule = (rule: RuleWithCompareAsset): string => {
+    const pair = `${assetSymbol.toUpperCase()}/${rule.compareAsset?.symbol.toUpperCase() ?? '?'}`;
+    const valueStr = rule.type.includes('PERCENT') ? `${rule.value}%` : formatPrice(rule.value, rule.quoteCurrency);
     switch (rule.type) {
-      case 'PRICE_TARGET_ABOVE': return `Price > ${valueStr}`;
-      case 'PRICE_TARGET_BELOW': return `Price < ${valueStr}`;
-      case 'PERCENT_CHANGE_INCREASE': return `Increase ${valueStr} in ${rule.timeWindowHours}h`;
-      case 'PERCENT_CHANGE_DECREASE': return `Decrease ${valueStr} in ${rule.timeWindowHours}h`;
+      case 'PRICE_TARGET_ABOVE':
+        return rule.triggerMode === 'LEVEL' ? `Price > ${valueStr}` : `Price crosses above ${valueStr}`;
+      case 'PRICE_TARGET_BELOW':
+        return rule.triggerMode === 'LEVEL' ? `Price < ${valueStr}` : `Price crosses below ${valueStr}`;
+      case 'PERCENT_CHANGE_INCREASE': return `Increase ${valueStr} in ${rule.timeWindowHours}h (${rule.quoteCurrency})`;
+      case 'PERCENT_CHANGE_DECREASE': return `Decrease ${valueStr} in ${rule.timeWindowHours}h (${rule.quoteCurrency})`;
+      case 'DRAWDOWN_FROM_HIGH': return `Down ${rule.value}% from ${rule.timeWindowHours}h high (${rule.quoteCurrency})`;
+      case 'RALLY_FROM_LOW': return `Up ${rule.value}% from ${rule.timeWindowHours}h low (${rule.quoteCurrency})`;
+      case 'MOVING_AVERAGE_CROSS':
+        return `Crosses ${rule.crossDirection === 'BELOW' ? 'below' : 'above'} ${rule.value}-period ${rule.movingAverageType ?? 'SMA'}`;
+      case 'RSI_CROSS':
+        return `RSI(${rule.indicatorPeriod}) crosses ${rule.crossDirection === 'BELOW' ? 'below' : 'above'} ${rule.value}`;
+      case 'BOLLINGER_BREAKOUT':
+        return rule.crossDirection === 'BELOW'
+          ? `Closes below lower Bollinger Band (${rule.indicatorPeriod}, ${rule.value}σ)`
+          : `Closes above upper Bollinger Band (${rule.indicatorPeriod}, ${rule.value}σ)`;
+      case 'TRAILING_STOP': return `Falls ${rule.value}% below peak`;
+      case 'VOLUME_SPIKE': return `24h volume ${rule.value}× its ${VOLUME_SPIKE_AVERAGE_DAYS}-day average (${rule.quoteCurrency})`;
+      case 'MARKET_CAP_ABOVE':
+        return rule.triggerMode === 'LEVEL' ? `Market cap > ${formatCompactAmount(rule.value, rule.quoteCurrency)}` : `Market cap crosses above ${formatCompactAmount(rule.value, rule.quoteCurrency)}`;
+      case 'MARKET_CAP_BELOW':
+        return rule.triggerMode === 'LEVEL' ? `Market cap < ${formatCompactAmount(rule.value, rule.quoteCurrency)}` : `Market cap crosses below ${formatCompactAmount(rule.value, rule.quoteCurrency)}`;
+      case 'RATIO_ABOVE':
+        return rule.triggerMode === 'LEVEL' ? `${pair} > ${formatRatio(rule.value)}` : `${pair} crosses above ${formatRatio(rule.value)}`;
+      case 'RATIO_BELOW':
+        return rule.triggerMode === 'LEVEL' ? `${pair} < ${formatRatio(rule.value)}` : `${pair} crosses below ${formatRatio(rule.value)}`;
+      case 'RATIO_CHANGE_INCREASE': return `${pair} up ${rule.value}% in ${rule.timeWindowHours}h`;
+      case 'RATIO_CHANGE_DECREASE': return `${pair} down ${rule.value}% in ${rule.timeWindowHours}h`;
+      case 'COMPOSITE': {
+        const condition = parseStoredCondition(rule.condition);
+        return condition ? `When ${describeCompositeCondition(condition, rule.quoteCurrency)}` : 'Combined rule (invalid conditions)';
+      }
+      case 'EXPRESSION': return `When ${rule.expression}`;
       default: return 'Unknown rule';
     }
   };
 
+  // Helper to show where a trailing stop currently stands
+  const formatTrailingStop = (rule: NotificationRule): string => {
+    if (rule.peakPrice === null) {
+      return 'waiting for first price';
+    }
+    const triggerPrice = trailingStopTriggerPrice(rule.peakPrice, rule.value);
+    return `peak ${formatPrice(rule.peakPrice, rule.quoteCurrency)}, trigger at ${formatPrice(triggerPrice, rule.quoteCurrency)}`;
+  };
+
+  // Helper to describe when a rule can fire again
+  const formatRepeat = (rule: NotificationRule): string => {
+    switch (rule.rearmMode) {
+      case 'ONCE': return 'once';
+      case 'CROSS_BACK':
+        return `re-arms after ${rule.rearmPercent}% move back${rule.isArmed ? '' : ' (waiting)'}`;
+      default: return `repeats every ${rule.cooldownMinutes}m`;
+    }
+  };
+
   return (
     <div className="mt-4 pl-6 border-l-2 border-dracula-comment">
       <h3 className="text-lg font-semibold text-dracula-purple mb-3">Alert Rules</h3>
@@ -115,12 +232,52 @@ export default function NotificationRuleList({ trackedAssetId, assetSymbol, refr
       {!isLoading && !error && (
         <div className="space-y-2">
           {rules.length > 0 ? (
-            rules.map((rule) => (
+            rules.map((rule) => editingRuleId === rule.id ? (
+              <div key={rule.id}>
+                <AddNotificationRuleForm
+                  trackedAssetId={trackedAssetId}
+                  referenceCurrency={referenceCurrency}
+                  assets={assets}
+                  rule={rule}
+                  onRuleAdded={handleRuleSaved}
+                  onCancel={() => setEditingRuleId(null)}
+                />
+                {history.length > 0 && (
+                  <div className="mt-2 p-2 bg-dracula-bg rounded text-xs">
+                    <p className="text-dracula-comment mb-1">Change history</p>
+                    <ul className="space-y-1">
+                      {history.map(change => (
+                        <li key={change.id} className="text-dracula-fg">
+                          <span className="text-dracula-comment mr-2">{new Date(change.changedAt).toLocaleString()}</span>
+                          {formatChanges(change)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ) : (
               <div key={rule.id} className="flex justify-between items-center p-2 bg-dracula-bg rounded">
                 <span className={`text-sm ${rule.isEnabled ? 'text-dracula-fg' : 'text-dracula-comment line-through'}`}>
+                  {rule.priority === 'CRITICAL' && (
+                    <span className="mr-2 text-xs font-semibold text-dracula-red">Critical</span>
+                  )}
                   {formatRule(rule)}
+                  {rule.type === 'TRAILING_STOP' && (
+                    <span className="ml-2 text-xs text-dracula-yellow">{formatTrailingStop(rule)}</span>
+                  )}
+                  <span className="ml-2 text-xs text-dracula-comment">{formatRepeat(rule)}</span>
+                  {rule.channels.length > 0 && (
+                    <span className="ml-2 text-xs text-dracula-cyan">via {formatChannels(rule.channels)}</span>
+                  )}
                 </span>
                 <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleEditRule(rule.id)}
+                    className="bg-dracula-selection hover:bg-opacity-80 text-dracula-fg font-medium py-1 px-2 rounded text-xs border border-dracula-comment"
+                  >
+                    Edit
+                  </button>
                   <button 
                     onClick={() => handleToggleRule(rule.id, rule.isEnabled)}
                     className={`text-xs font-medium py-1 px-2 rounded ${rule.isEnabled ? 'bg-dracula-orange text-dracula-bg' : 'bg-dracula-comment text-dracula-fg'} hover:bg-opacity-80`}
@@ -0,0 +1,251 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Asset, PortfolioRule, PortfolioRuleType, QuoteCurrency, RulePriority } from '@prisma/client'
+import { formatPrice, quoteCurrencyOptions } from '@/lib/currency'
+
+type PortfolioRuleWithAsset = PortfolioRule & { asset: Asset | null }
+
+interface PortfolioRulesPanelProps {
+  heldAssets: { assetId: string; symbol: string }[]; // Assets the user holds, for allocation rules
+  referenceCurrency: QuoteCurrency; // Default currency for value rules
+}
+
+const inputClassName = "w-full p-2 bg-dracula-bg border border-dracula-comment rounded focus:outline-none focus:border-dracula-purple text-dracula-fg text-sm placeholder-dracula-comment"
+const labelClassName = "block text-sm font-medium text-dracula-comment mb-1"
+
+const ruleTypeOptions = [
+  { id: PortfolioRuleType.PORTFOLIO_VALUE_BELOW, name: 'Value falls below' },
+  { id: PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE, name: 'Falls by % over a window' },
+  { id: PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE, name: 'Asset goes above % of portfolio' },
+]
+
+function describePortfolioRule(rule: PortfolioRuleWithAsset): string {
+  switch (rule.type) {
+    case PortfolioRuleType.PORTFOLIO_VALUE_BELOW:
+      return `Portfolio value below ${formatPrice(rule.value, rule.quoteCurrency)}`
+    case PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE:
+      return `Portfolio down ${rule.value}% or more in ${rule.timeWindowHours}h`
+    case PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE:
+      return `${rule.asset?.symbol.toUpperCase() ?? '?'} above ${rule.value}% of the portfolio`
+  }
+}
+
+export default function PortfolioRulesPanel({ heldAssets, referenceCurrency }: PortfolioRulesPanelProps) {
+  const [rules, setRules] = useState<PortfolioRuleWithAsset[]>([])
+  const [type, setType] = useState<PortfolioRuleType>(PortfolioRuleType.PORTFOLIO_VALUE_BELOW)
+  const [value, setValue] = useState('')
+  const [timeWindowHours, setTimeWindowHours] = useState('24')
+  const [assetId, setAssetId] = useState('')
+  const [quoteCurrency, setQuoteCurrency] = useState<QuoteCurrency>(referenceCurrency)
+  const [priority, setPriority] = useState<RulePriority>(RulePriority.NORMAL)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/portfolio-rules')
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to fetch portfolio rules')
+      }
+      setRules(await response.json())
+    } catch (err) {
+      console.error("Error fetching portfolio rules:", err)
+      setError(err instanceof Error ? err.message : 'Unknown error fetching portfolio rules.')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  useEffect(() => {
+    setQuoteCurrency(referenceCurrency)
+  }, [referenceCurrency])
+
+  // Sends a change and reloads the rules; returns whether it worked
+  const send = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        const fieldErrors = result.details?.fieldErrors
+        const firstFieldError = fieldErrors ? Object.values(fieldErrors).flat()[0] : undefined
+        throw new Error((firstFieldError as string | undefined) || result.details?.formErrors?.[0] || result.error || `Request failed (status: ${response.status})`)
+      }
+      await fetchRules()
+      return true
+    } catch (err) {
+      console.error("Error saving portfolio rule:", err)
+      setError(err instanceof Error ? err.message : 'Unknown error saving portfolio rule.')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const added = await send('/api/portfolio-rules', 'POST', {
+      type,
+      value: parseFloat(value),
+      timeWindowHours: type === PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE ? parseInt(timeWindowHours, 10) : undefined,
+      assetId: type === PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE ? assetId : undefined,
+      quoteCurrency,
+      priority,
+    })
+    if (added) {
+      setValue('')
+    }
+  }
+
+  const handleToggleRule = (rule: PortfolioRuleWithAsset) => {
+    send(`/api/portfolio-rules/${rule.id}`, 'PATCH', { isEnabled: !rule.isEnabled })
+  }
+
+  const handleRemoveRule = (rule: PortfolioRuleWithAsset) => {
+    if (!confirm(`Remove the rule "${describePortfolioRule(rule)}"?`)) {
+      return
+    }
+    send(`/api/portfolio-rules/${rule.id}`, 'DELETE')
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-dracula-comment">
+      <h3 className="text-md font-semibold text-dracula-purple mb-2">Portfolio Alerts</h3>
+      {error && <p className="text-dracula-red text-sm mb-2">Error: {error}</p>}
+
+      {rules.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex justify-between items-center text-sm">
+              <span className={rule.isEnabled ? 'text-dracula-fg' : 'text-dracula-comment line-through'}>
+                {describePortfolioRule(rule)}
+                {rule.priority === RulePriority.CRITICAL && <span className="text-dracula-orange ml-2">(critical)</span>}
+              </span>
+              <span className="flex gap-3">
+                <button
+                  onClick={() => handleToggleRule(rule)}
+                  disabled={isSaving}
+                  className="text-dracula-cyan hover:text-opacity-80 text-xs disabled:opacity-50"
+                >
+                  {rule.isEnabled ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => handleRemoveRule(rule)}
+                  disabled={isSaving}
+                  className="text-dracula-red hover:text-opacity-80 text-xs disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAddRule} className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+        <div>
+          <label htmlFor="portfolio-rule-type" className={labelClassName}>Alert when</label>
+          <select
+            id="portfolio-rule-type"
+            value={type}
+            onChange={(e) => setType(e.target.value as PortfolioRuleType)}
+            className={inputClassName}
+          >
+            {ruleTypeOptions.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </div>
+        {type === PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE && (
+          <div>
+            <label htmlFor="portfolio-rule-asset" className={labelClassName}>Asset</label>
+            <select
+              id="portfolio-rule-asset"
+              value={assetId}
+              onChange={(e) => setAssetId(e.target.value)}
+              className={inputClassName}
+              required
+            >
+              <option value="">Select...</option>
+              {heldAssets.map(asset => (
+                <option key={asset.assetId} value={asset.assetId}>{asset.symbol}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="portfolio-rule-value" className={labelClassName}>
+            {type === PortfolioRuleType.PORTFOLIO_VALUE_BELOW ? 'Value' : 'Percent'}
+          </label>
+          <input
+            id="portfolio-rule-value"
+            type="number"
+            step="any"
+            min="0"
+            max={type === PortfolioRuleType.PORTFOLIO_VALUE_BELOW ? undefined : 100}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        {type === PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE && (
+          <div>
+            <label htmlFor="portfolio-rule-window" className={labelClassName}>Window (hours)</label>
+            <input
+              id="portfolio-rule-window"
+              type="number"
+              min="1"
+              max="72"
+              value={timeWindowHours}
+              onChange={(e) => setTimeWindowHours(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="portfolio-rule-currency" className={labelClassName}>Currency</label>
+          <select
+            id="portfolio-rule-currency"
+            value={quoteCurrency}
+            onChange={(e) => setQuoteCurrency(e.target.value as QuoteCurrency)}
+            className={inputClassName}
+          >
+            {quoteCurrencyOptions.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="portfolio-rule-priority" className={labelClassName}>Priority</label>
+          <select
+            id="portfolio-rule-priority"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as RulePriority)}
+            className={inputClassName}
+          >
+            <option value={RulePriority.NORMAL}>Normal</option>
+            <option value={RulePriority.CRITICAL}>Critical</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="bg-dracula-green hover:bg-opacity-80 text-dracula-bg font-semibold py-2 px-4 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Alert
+        </button>
+      </form>
+      <p className="text-xs text-dracula-comment mt-2">Holdings are valued at the latest stored prices, with your alert channels and quiet time.</p>
+    </div>
+  )
+}
@@ -1,10 +1,14 @@
 'use client'
 
 import React, { useState, useEffect, useCallback } from 'react'
-import type { Asset } from '@prisma/client' // Import Prisma type
+import { QuoteCurrency, type Asset } from '@prisma/client' // Import Prisma type
 import { getPrices, PriceData } from '@/lib/coingecko' // Import price fetching
+import { formatPrice, toVsCurrency } from '@/lib/currency'
+import { formatPnlPercent, totalPositions, valuePosition, HoldingPosition } from '@/lib/holdings'
 import NotificationRuleList from './NotificationRuleList' // Import rule list
 import AddNotificationRuleForm from './AddNotificationRuleForm' // Import rule form
+import HoldingEditor, { HoldingLotSummary } from './HoldingEditor'
+import PortfolioRulesPanel from './PortfolioRulesPanel'
 import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/solid' // Example icons
 
 // Type for the data received from GET /api/tracked-assets
@@ -13,6 +17,10 @@ interface TrackedAssetWithDetails {
   userId: string;
   assetId: string;
   createdAt: Date;
+  quantity: number | null;     // Holding, if recorded
+  averageCost: number | null;
+  costCurrency: QuoteCurrency | null;
+  lots: HoldingLotSummary[];
   asset: Asset;       // Nested Asset details
   _count: {          // Add count field
     notificationRules: number;
@@ -27,6 +35,7 @@ interface TrackedAssetsListProps {
 export default function TrackedAssetsList({ refreshKey, requestAssetListRefresh }: TrackedAssetsListProps) {
   const [trackedAssets, setTrackedAssets] = useState<TrackedAssetWithDetails[]>([])
   const [prices, setPrices] = useState<PriceData>({})
+  const [referenceCurrency, setReferenceCurrency] = useState<QuoteCurrency>(QuoteCurrency.USD)
   const [isLoading, setIsLoading] = useState(true) // Start loading initially
   const [error, setError] = useState<string | null>(null)
   const [expandedAssetId, setExpandedAssetId] = useState<string | null>(null) // Track expanded asset
@@ -49,10 +58,18 @@ export default function TrackedAssetsList({ refreshKey, requestAssetListRefresh
         const data: TrackedAssetWithDetails[] = await response.json()
         setTrackedAssets(data)
 
-        // Fetch prices for the newly loaded assets
+        // Fetch prices for the newly loaded assets, in the user's reference currency
         if (data.length > 0) {
+          const settingsResponse = await fetch('/api/user/settings')
+          const currency: QuoteCurrency = settingsResponse.ok
+            ? (await settingsResponse.json()).referenceCurrency ?? QuoteCurrency.USD
+            : QuoteCurrency.USD
+          setReferenceCurrency(currency)
           const coinIds = data.map(ta => ta.asset.coingeckoId)
-          const priceData = await getPrices(coinIds)
+          // Holdings are valued in their own cost currency
+          const costCurrencies = data.flatMap(ta => ta.costCurrency ? [ta.costCurrency] : [])
+          const vsCurrencies = [...new Set([currency, ...costCurrencies])].map(toVsCurrency)
+          const priceData = await getPrices(coinIds, vsCurrencies)
           setPrices(priceData)
         } else {
           setPrices({}) // Reset prices if no assets are tracked
@@ -111,18 +128,50 @@ export default function TrackedAssetsList({ refreshKey, requestAssetListRefresh
     requestAssetListRefresh(); // Request refresh of the main asset list (updates count)
   }, [requestAssetListRefresh]);
 
+  // The user's tracked assets, for combined and ratio rules
+  const assetOptions = trackedAssets.map(t => ({ id: t.id, assetId: t.assetId, symbol: t.asset.symbol.toUpperCase() }));
+
+  // Value and unrealized P&L of each holding with a known price, keyed by tracked asset ID
+  const positions = new Map<string, HoldingPosition & { currency: QuoteCurrency }>()
+  for (const ta of trackedAssets) {
+    const price = ta.costCurrency ? prices[ta.asset.coingeckoId]?.[toVsCurrency(ta.costCurrency)] : undefined
+    if (ta.quantity !== null && ta.averageCost !== null && ta.costCurrency && typeof price === 'number') {
+      positions.set(ta.id, { ...valuePosition(ta.quantity, ta.averageCost, price), currency: ta.costCurrency })
+    }
+  }
+  const portfolioTotals = totalPositions([...positions.values()])
+  const heldAssets = trackedAssets
+    .filter(ta => ta.quantity !== null && ta.quantity > 0)
+    .map(ta => ({ assetId: ta.assetId, symbol: ta.asset.symbol.toUpperCase() }))
+
   return (
     <div>
       <h2 className="text-2xl font-semibold text-dracula-cyan mb-4">Tracked Assets & Rules</h2>
       {isLoading && <p className="text-dracula-comment">Loading tracked assets...</p>}
       {error && <p className="text-dracula-red">Error: {error}</p>}
       
+      {!isLoading && !error && heldAssets.length > 0 && (
+        <div className="mb-4 p-4 bg-dracula-selection rounded-lg shadow space-y-1">
+          {portfolioTotals.map(total => (
+            <p key={total.currency} className="text-sm text-dracula-comment">
+              Portfolio value <span className="text-dracula-fg font-semibold">{formatPrice(total.value, total.currency)}</span>
+              <span className={`ml-3 ${total.unrealizedPnl >= 0 ? 'text-dracula-green' : 'text-dracula-red'}`}>
+                {total.unrealizedPnl >= 0 ? '+' : '-'}{formatPrice(Math.abs(total.unrealizedPnl), total.currency)}
+                {total.unrealizedPnlPercent !== null && ` (${formatPnlPercent(total.unrealizedPnlPercent)})`}
+              </span>
+            </p>
+          ))}
+          <PortfolioRulesPanel heldAssets={heldAssets} referenceCurrency={referenceCurrency} />
+        </div>
+      )}
+
       {!isLoading && !error && (
          <div className="space-y-3">
           {trackedAssets.length > 0 ? (
             trackedAssets.map((ta) => {
-              const currentPrice = prices[ta.asset.coingeckoId]?.usd
+              const currentPrice = prices[ta.asset.coingeckoId]?.[toVsCurrency(referenceCurrency)]
               const isExpanded = expandedAssetId === ta.id
+              const position = positions.get(ta.id)
               return (
                 <div key={ta.id} className="bg-dracula-selection rounded-lg shadow">
                   {/* Asset Header Row */}
@@ -143,12 +192,26 @@ export default function TrackedAssetsList({ refreshKey, requestAssetListRefresh
                         <span className="text-xs text-dracula-purple ml-2 bg-dracula-bg px-1.5 py-0.5 rounded">
                           {ta._count.notificationRules} Rule(s)
                         </span>
+                        {ta.quantity !== null && (
+                          <div className="text-xs text-dracula-comment mt-1">
+                            {ta.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} {ta.asset.symbol.toUpperCase()}
+                            {position && (
+                              <>
+                                {' · '}{formatPrice(position.value, position.currency)}
+                                <span className={`ml-2 ${position.unrealizedPnl >= 0 ? 'text-dracula-green' : 'text-dracula-red'}`}>
+                                  {position.unrealizedPnl >= 0 ? '+' : '-'}{formatPrice(Math.abs(position.unrealizedPnl), position.currency)}
+                                  {position.unrealizedPnlPercent !== null && ` (${formatPnlPercent(position.unrealizedPnlPercent)})`}
+                                </span>
+                              </>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-4">
                       <span className="text-dracula-green font-medium w-28 text-right">
-                        {currentPrice !== undefined
-                          ? `$${currentPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })}`
+                        {typeof currentPrice === 'number'
+                          ? formatPrice(currentPrice, referenceCurrency)
                           : <span className="text-dracula-comment text-sm">Loading...</span>}
                       </span>
                       <button 
@@ -163,14 +226,28 @@ export default function TrackedAssetsList({ refreshKey, requestAssetListRefresh
                   {/* Expanded Section for Rules */}
                   {isExpanded && (
                     <div className="px-4 pb-4 pt-2 border-t border-dracula-comment">
+                      <HoldingEditor
+                        trackedAssetId={ta.id}
+                        assetSymbol={ta.asset.symbol.toUpperCase()}
+                        quantity={ta.quantity}
+                        averageCost={ta.averageCost}
+                        costCurrency={ta.costCurrency}
+                        lots={ta.lots}
+                        referenceCurrency={referenceCurrency}
+                        onHoldingChanged={requestAssetListRefresh}
+                      />
                       <NotificationRuleList 
                         refreshKey={ruleListRefreshKey}
                         trackedAssetId={ta.id} 
                         assetSymbol={ta.asset.symbol.toUpperCase()} 
                         requestAssetListRefresh={requestAssetListRefresh} // Pass down the main refresh fn
+                        referenceCurrency={referenceCurrency}
+                        assets={assetOptions}
                       />
                       <AddNotificationRuleForm 
                         trackedAssetId={ta.id} 
+                        referenceCurrency={referenceCurrency}
+                        assets={assetOptions}
                         onRuleAdded={handleRuleAdded} 
                       />
                     </div>
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { QuoteCurrency } from '@prisma/client';
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { quoteCurrencyOptions } from '@/lib/currency';
+
+export default function CurrencyForm() {
+  const [referenceCurrency, setReferenceCurrency] = useState<QuoteCurrency>(QuoteCurrency.USD);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fetch initial settings
+  const fetchSettings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/user/settings');
+      if (!response.ok) {
+        throw new Error('Failed to fetch settings');
+      }
+      const data = await response.json();
+      setReferenceCurrency(data.referenceCurrency ?? QuoteCurrency.USD);
+    } catch (error) {
+      console.error("Fetch Error:", error);
+      toast.error("Could not load currency settings.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/user/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ referenceCurrency }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save settings');
+      }
+
+      const updatedSettings = await response.json();
+      setReferenceCurrency(updatedSettings.referenceCurrency);
+      toast.success("Currency settings saved.");
+    } catch (error) {
+      console.error("Save Error:", error);
+      toast.error("Error Saving Settings", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Currency</CardTitle>
+        <CardDescription>
+          Prices on the dashboard and in your morning summary are shown in this currency. New alert rules use it unless you pick another one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-32" />
+            <Skeleton className="h-10 w-56" />
+          </div>
+        ) : (
+          <>
+            <Label htmlFor="referenceCurrency">Reference Currency</Label>
+            <Select
+              value={referenceCurrency}
+              onValueChange={(value) => setReferenceCurrency(value as QuoteCurrency)}
+            >
+              <SelectTrigger id="referenceCurrency" className="w-56">
+                <SelectValue placeholder="Select currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {quoteCurrencyOptions.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleSave} disabled={isSaving || isLoading}>
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
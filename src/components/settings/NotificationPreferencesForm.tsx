@@ -0,0 +1,346 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { DeliveryChannel } from '@prisma/client';
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { deliveryChannelOptions } from '@/lib/deliveryChannels';
+
+export default function NotificationPreferencesForm() {
+  const [defaultChannels, setDefaultChannels] = useState<DeliveryChannel[]>([DeliveryChannel.EMAIL]);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneNumberVerified, setPhoneNumberVerified] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [telegramLinked, setTelegramLinked] = useState(false);
+  const [telegramLink, setTelegramLink] = useState<{ code: string; deepLink: string | null; botUsername: string | null } | null>(null);
+  const [discordWebhookUrl, setDiscordWebhookUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Fetch initial settings
+  const fetchSettings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/user/settings');
+      if (!response.ok) {
+        throw new Error('Failed to fetch settings');
+      }
+      const data = await response.json();
+      setDefaultChannels(data.defaultChannels ?? [DeliveryChannel.EMAIL]);
+      setPhoneNumber(data.phoneNumber ?? '');
+      setPhoneNumberVerified(Boolean(data.phoneNumberVerified));
+      setTelegramLinked(Boolean(data.telegramChatId));
+      setDiscordWebhookUrl(data.discordWebhookUrl ?? '');
+    } catch (error) {
+      console.error("Fetch Error:", error);
+      toast.error("Could not load notification settings.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleChannelChange = (channel: DeliveryChannel, checked: boolean) => {
+    setDefaultChannels(prev => checked ? [...prev, channel] : prev.filter(c => c !== channel));
+  };
+
+  const handleSendCode = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await fetch('/api/user/phone', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phoneNumber }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.fieldErrors?.phoneNumber?.[0] || errorData.error || 'Failed to send code');
+      }
+
+      setPhoneNumberVerified(false);
+      setDefaultChannels(prev => prev.filter(c => c !== DeliveryChannel.SMS));
+      setCodeSent(true);
+      setCode('');
+      toast.success("Verification code sent.");
+    } catch (error) {
+      console.error("Send Code Error:", error);
+      toast.error("Error Sending Code", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await fetch('/api/user/phone/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.fieldErrors?.code?.[0] || errorData.error || 'Failed to verify code');
+      }
+
+      setPhoneNumberVerified(true);
+      setCodeSent(false);
+      setCode('');
+      toast.success("Phone number verified.");
+    } catch (error) {
+      console.error("Verify Error:", error);
+      toast.error("Error Verifying Phone", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleRemovePhone = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await fetch('/api/user/phone', { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove phone number');
+      }
+
+      setPhoneNumber('');
+      setPhoneNumberVerified(false);
+      setCodeSent(false);
+      await fetchSettings();
+      toast.success("Phone number removed.");
+    } catch (error) {
+      console.error("Remove Phone Error:", error);
+      toast.error("Error Removing Phone", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleLinkTelegram = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await fetch('/api/user/telegram', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create link code');
+      }
+      setTelegramLink(result);
+    } catch (error) {
+      console.error("Telegram Link Error:", error);
+      toast.error("Error Linking Telegram", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleUnlinkTelegram = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await fetch('/api/user/telegram', { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to unlink Telegram');
+      }
+      setTelegramLink(null);
+      await fetchSettings();
+      toast.success("Telegram unlinked.");
+    } catch (error) {
+      console.error("Telegram Unlink Error:", error);
+      toast.error("Error Unlinking Telegram", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    // Clearing the Discord URL also stops using Discord by default
+    const channelsToSave = discordWebhookUrl.trim() ? defaultChannels : defaultChannels.filter(c => c !== DeliveryChannel.DISCORD);
+    try {
+      const response = await fetch('/api/user/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ defaultChannels: channelsToSave, discordWebhookUrl: discordWebhookUrl.trim() || null }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        const fieldErrors = errorData.details?.fieldErrors;
+        throw new Error(fieldErrors?.defaultChannels?.[0] || fieldErrors?.discordWebhookUrl?.[0] || errorData.error || 'Failed to save settings');
+      }
+
+      const updatedSettings = await response.json();
+      setDefaultChannels(updatedSettings.defaultChannels);
+      setDiscordWebhookUrl(updatedSettings.discordWebhookUrl ?? '');
+      toast.success("Notification settings saved.");
+    } catch (error) {
+      console.error("Save Error:", error);
+      toast.error("Error Saving Settings", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose how alerts reach you. Rules use these channels unless you pick others on the rule itself.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-4 w-32" />
+            <Skeleton className="h-10 w-64" />
+            <Skeleton className="h-6 w-40" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="phoneNumber">Phone Number</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  id="phoneNumber"
+                  type="tel"
+                  placeholder="+15551234567"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  className="w-56"
+                />
+                <Button variant="outline" onClick={handleSendCode} disabled={isVerifying || !phoneNumber}>
+                  {phoneNumberVerified ? 'Change Number' : 'Send Code'}
+                </Button>
+                {phoneNumberVerified && (
+                  <Button variant="outline" onClick={handleRemovePhone} disabled={isVerifying}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {phoneNumberVerified ? 'Verified. SMS alerts will be sent to this number.' : 'Use international format. We will text you a code to verify it.'}
+              </p>
+            </div>
+
+            {codeSent && !phoneNumberVerified && (
+              <div className="space-y-2">
+                <Label htmlFor="verificationCode">Verification Code</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="verificationCode"
+                    inputMode="numeric"
+                    maxLength={6}
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-32"
+                  />
+                  <Button onClick={handleVerifyCode} disabled={isVerifying || code.length !== 6}>
+                    Verify
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Telegram</Label>
+              {telegramLinked ? (
+                <div className="flex items-center gap-2">
+                  <p className="text-sm">Linked. Alerts will be sent to your Telegram chat.</p>
+                  <Button variant="outline" onClick={handleUnlinkTelegram} disabled={isVerifying}>
+                    Unlink
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <Button variant="outline" onClick={handleLinkTelegram} disabled={isVerifying}>
+                    {telegramLink ? 'New Code' : 'Link Telegram'}
+                  </Button>
+                  {telegramLink && (
+                    <p className="text-sm text-muted-foreground">
+                      {telegramLink.deepLink ? (
+                        <>Open <a href={telegramLink.deepLink} target="_blank" rel="noopener noreferrer" className="underline">@{telegramLink.botUsername}</a> and press Start, or send it</>
+                      ) : (
+                        <>Send our bot</>
+                      )}
+                      {' '}the code <code className="font-mono">{telegramLink.code}</code>. The code expires in 15 minutes. Reload this page once the bot confirms.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="discordWebhookUrl">Discord Webhook URL</Label>
+              <Input
+                id="discordWebhookUrl"
+                type="url"
+                placeholder="https://discord.com/api/webhooks/..."
+                value={discordWebhookUrl}
+                onChange={(e) => setDiscordWebhookUrl(e.target.value)}
+              />
+              <p className="text-sm text-muted-foreground">
+                In Discord, open a channel&apos;s settings, go to Integrations and create a webhook. Saved with the button below.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Default Channels</Label>
+              {deliveryChannelOptions.map(option => {
+                const setupHint =
+                  option.id === DeliveryChannel.SMS && !phoneNumberVerified ? ' (verify your phone number first)' :
+                  option.id === DeliveryChannel.TELEGRAM && !telegramLinked ? ' (link Telegram first)' :
+                  option.id === DeliveryChannel.DISCORD && !discordWebhookUrl.trim() ? ' (add a webhook URL first)' :
+                  null;
+                return (
+                  <div key={option.id} className="flex items-center space-x-2">
+                    <Switch
+                      id={`channel-${option.id}`}
+                      checked={defaultChannels.includes(option.id)}
+                      onCheckedChange={(checked) => handleChannelChange(option.id, checked)}
+                      disabled={setupHint !== null}
+                    />
+                    <Label htmlFor={`channel-${option.id}`}>
+                      {option.name}{setupHint}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleSave} disabled={isSaving || isLoading || defaultChannels.length === 0}>
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
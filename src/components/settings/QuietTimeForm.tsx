@@ -20,6 +20,9 @@ interface UserSettings {
   quietTimeStart: string | null;
   quietTimeEnd: string | null;
   quietTimeZone: string | null;
+  quietTimeAllowCritical: boolean;
+  quietTimeBreakthroughPercent: number | null;
+  quietTimeDigestEnabled: boolean;
   // morningSummaryEnabled: boolean; // Add if needed
 }
 
@@ -31,6 +34,9 @@ export default function QuietTimeForm() {
     quietTimeStart: null,
     quietTimeEnd: null,
     quietTimeZone: null,
+    quietTimeAllowCritical: true,
+    quietTimeBreakthroughPercent: null,
+    quietTimeDigestEnabled: true,
   });
   const [initialSettings, setInitialSettings] = useState<UserSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,6 +68,9 @@ export default function QuietTimeForm() {
             quietTimeStart: data.quietTimeStart, // Keep null as null
             quietTimeEnd: data.quietTimeEnd,
             quietTimeZone: data.quietTimeZone ?? defaultTimeZone, // Apply default if null
+            quietTimeAllowCritical: data.quietTimeAllowCritical ?? true,
+            quietTimeBreakthroughPercent: data.quietTimeBreakthroughPercent,
+            quietTimeDigestEnabled: data.quietTimeDigestEnabled ?? true,
           };
           setSettings(loadedSettings);
           
@@ -82,6 +91,9 @@ export default function QuietTimeForm() {
             quietTimeStart: '22:00', // Default example
             quietTimeEnd: '07:00',
             quietTimeZone: getBrowserTimeZone() ?? 'UTC', 
+            quietTimeAllowCritical: true,
+            quietTimeBreakthroughPercent: null,
+            quietTimeDigestEnabled: true,
           });
           setInitialSettings(null); // Indicate loading failed for change detection
         } finally {
@@ -99,7 +111,7 @@ export default function QuietTimeForm() {
 
   }, [status]); // Depend only on session status change
 
-  const handleInputChange = (field: keyof UserSettings, value: string | boolean | null) => {
+  const handleInputChange = (field: keyof UserSettings, value: string | number | boolean | null) => {
     setSettings(prev => ({ ...prev, [field]: value }));
   };
 
@@ -112,6 +124,11 @@ export default function QuietTimeForm() {
     }
   };
 
+  const handleBreakthroughPercentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Empty means no move is big enough to break through
+    handleInputChange('quietTimeBreakthroughPercent', e.target.value === '' ? null : parseFloat(e.target.value));
+  };
+
   const handleSwitchChange = (checked: boolean, name: keyof UserSettings) => {
       handleInputChange(name, checked);
   };
@@ -132,8 +149,11 @@ export default function QuietTimeForm() {
     const quietEndChanged = settings.quietTimeEnd !== initialSettings.quietTimeEnd;
     const quietZoneChanged = settings.quietTimeZone !== initialSettings.quietTimeZone;
     const anyQuietSettingChanged = quietEnabledChanged || quietStartChanged || quietEndChanged || quietZoneChanged;
+    const breakthroughChanged = settings.quietTimeAllowCritical !== initialSettings.quietTimeAllowCritical
+        || settings.quietTimeBreakthroughPercent !== initialSettings.quietTimeBreakthroughPercent;
+    const digestChanged = settings.quietTimeDigestEnabled !== initialSettings.quietTimeDigestEnabled;
 
-    if (!anyQuietSettingChanged) {
+    if (!anyQuietSettingChanged && !breakthroughChanged && !digestChanged) {
         toast.info("Quiet time settings haven't changed.");
         return;
     }
@@ -161,6 +181,18 @@ export default function QuietTimeForm() {
             dataToSubmit.quietTimeZone = null;
         }
     }
+    if (breakthroughChanged) {
+        const percent = settings.quietTimeBreakthroughPercent;
+        if (percent !== null && (isNaN(percent) || percent <= 0 || percent > 100)) {
+            toast.error("Breakthrough move must be between 0 and 100%.");
+            return;
+        }
+        dataToSubmit.quietTimeAllowCritical = settings.quietTimeAllowCritical;
+        dataToSubmit.quietTimeBreakthroughPercent = percent;
+    }
+    if (digestChanged) {
+        dataToSubmit.quietTimeDigestEnabled = settings.quietTimeDigestEnabled;
+    }
     // --- End build data payload --- 
 
     startTransition(async () => {
@@ -277,6 +309,51 @@ export default function QuietTimeForm() {
                     Please specify start time, end time, and time zone.
                 </p>
              )}
+
+          <div className={`space-y-4 ${!isEnabled ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Label>Let Through During Quiet Time</Label>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="quietTimeAllowCritical"
+                checked={settings.quietTimeAllowCritical}
+                onCheckedChange={(checked: boolean) => handleSwitchChange(checked, 'quietTimeAllowCritical')}
+                disabled={!isEnabled}
+              />
+              <Label htmlFor="quietTimeAllowCritical">Critical rules</Label>
+            </div>
+            <div className="space-y-2 sm:max-w-xs">
+              <Label htmlFor="quietTimeBreakthroughPercent">Any move over (% in 24h)</Label>
+              <Input
+                id="quietTimeBreakthroughPercent"
+                type="number"
+                min="0"
+                max="100"
+                step="any"
+                placeholder="e.g., 15"
+                value={settings.quietTimeBreakthroughPercent ?? ''}
+                onChange={handleBreakthroughPercentChange}
+                disabled={!isEnabled}
+              />
+              <p className="text-sm text-muted-foreground">
+                Leave empty to hold alerts no matter how far the price moves.
+              </p>
+            </div>
+          </div>
+
+          <div className={`space-y-2 ${!isEnabled ? 'opacity-50 pointer-events-none' : ''}`}>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="quietTimeDigestEnabled"
+                checked={settings.quietTimeDigestEnabled}
+                onCheckedChange={(checked: boolean) => handleSwitchChange(checked, 'quietTimeDigestEnabled')}
+                disabled={!isEnabled}
+              />
+              <Label htmlFor="quietTimeDigestEnabled">Email me held alerts when quiet time ends</Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              One &quot;while you were sleeping&quot; email with each alert&apos;s trigger price and the current price.
+            </p>
+          </div>
         </CardContent>
         <CardFooter>
           <Button type="submit" disabled={isPending || !initialSettings}>
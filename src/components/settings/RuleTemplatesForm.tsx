@@ -0,0 +1,391 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { CrossDirection, MovingAverageType, NotificationRuleType, QuoteCurrency } from '@prisma/client';
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { isWindowedRuleType } from '@/lib/ruleConditions';
+
+interface RuleTemplateSummary {
+  id: string;
+  name: string;
+  type: NotificationRuleType;
+  value: number;
+  timeWindowHours: number | null;
+  movingAverageType: MovingAverageType | null;
+  crossDirection: CrossDirection | null;
+  indicatorPeriod: number | null;
+  quoteCurrency: QuoteCurrency | null;
+  autoApply: boolean;
+  _count: { rules: number };
+}
+
+interface TrackedAssetOption {
+  id: string;
+  asset: { symbol: string; name: string };
+}
+
+// The rule types a template can hold (see TEMPLATE_RULE_TYPES)
+const templateTypeOptions = [
+  { id: NotificationRuleType.PRICE_TARGET_ABOVE, name: '% Above Current Price' },
+  { id: NotificationRuleType.PRICE_TARGET_BELOW, name: '% Below Current Price' },
+  { id: NotificationRuleType.PERCENT_CHANGE_INCREASE, name: '% Increase' },
+  { id: NotificationRuleType.PERCENT_CHANGE_DECREASE, name: '% Decrease' },
+  { id: NotificationRuleType.DRAWDOWN_FROM_HIGH, name: 'Drop From High' },
+  { id: NotificationRuleType.RALLY_FROM_LOW, name: 'Rise From Low' },
+  { id: NotificationRuleType.MOVING_AVERAGE_CROSS, name: 'MA Cross' },
+  { id: NotificationRuleType.RSI_CROSS, name: 'RSI Cross' },
+  { id: NotificationRuleType.BOLLINGER_BREAKOUT, name: 'Bollinger Breakout' },
+  { id: NotificationRuleType.TRAILING_STOP, name: 'Trailing Stop' },
+  { id: NotificationRuleType.VOLUME_SPIKE, name: 'Volume Spike' },
+];
+
+function describeTemplate(template: RuleTemplateSummary): string {
+  const direction = template.crossDirection === CrossDirection.BELOW ? 'below' : 'above';
+  switch (template.type) {
+    case NotificationRuleType.PRICE_TARGET_ABOVE: return `Price ${template.value}% above the price when applied`;
+    case NotificationRuleType.PRICE_TARGET_BELOW: return `Price ${template.value}% below the price when applied`;
+    case NotificationRuleType.PERCENT_CHANGE_INCREASE: return `Increase ${template.value}% in ${template.timeWindowHours}h`;
+    case NotificationRuleType.PERCENT_CHANGE_DECREASE: return `Decrease ${template.value}% in ${template.timeWindowHours}h`;
+    case NotificationRuleType.DRAWDOWN_FROM_HIGH: return `Drop ${template.value}% from the ${template.timeWindowHours}h high`;
+    case NotificationRuleType.RALLY_FROM_LOW: return `Rise ${template.value}% from the ${template.timeWindowHours}h low`;
+    case NotificationRuleType.MOVING_AVERAGE_CROSS: return `Price crosses ${direction} the ${template.value}-point ${template.movingAverageType}`;
+    case NotificationRuleType.RSI_CROSS: return `RSI(${template.indicatorPeriod}) crosses ${direction} ${template.value}`;
+    case NotificationRuleType.BOLLINGER_BREAKOUT: return `Price breaks ${direction} the ${template.indicatorPeriod}-point, ${template.value}σ Bollinger Band`;
+    case NotificationRuleType.TRAILING_STOP: return `Price falls ${template.value}% from its peak`;
+    case NotificationRuleType.VOLUME_SPIKE: return `Volume reaches ${template.value}x its average`;
+    default: return template.type;
+  }
+}
+
+export default function RuleTemplatesForm() {
+  const [templates, setTemplates] = useState<RuleTemplateSummary[]>([]);
+  const [trackedAssets, setTrackedAssets] = useState<TrackedAssetOption[]>([]);
+  const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([]); // None selected = apply to all
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyTemplateId, setBusyTemplateId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  // New template form
+  const [name, setName] = useState('');
+  const [type, setType] = useState<NotificationRuleType>(NotificationRuleType.PRICE_TARGET_BELOW);
+  const [value, setValue] = useState('');
+  const [timeWindowHours, setTimeWindowHours] = useState('24');
+  const [movingAverageType, setMovingAverageType] = useState<MovingAverageType>(MovingAverageType.SMA);
+  const [crossDirection, setCrossDirection] = useState<CrossDirection>(CrossDirection.ABOVE);
+  const [indicatorPeriod, setIndicatorPeriod] = useState('14');
+  const [autoApply, setAutoApply] = useState(false);
+
+  const isMovingAverageCross = type === NotificationRuleType.MOVING_AVERAGE_CROSS;
+  const isIndicator = type === NotificationRuleType.RSI_CROSS || type === NotificationRuleType.BOLLINGER_BREAKOUT;
+
+  const fetchTemplates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [templatesResponse, assetsResponse] = await Promise.all([
+        fetch('/api/rule-templates'),
+        fetch('/api/tracked-assets'),
+      ]);
+      if (!templatesResponse.ok || !assetsResponse.ok) {
+        throw new Error('Failed to fetch rule templates');
+      }
+      setTemplates(await templatesResponse.json());
+      setTrackedAssets(await assetsResponse.json());
+    } catch (error) {
+      console.error("Fetch Error:", error);
+      toast.error("Could not load rule templates.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleAdd = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsAdding(true);
+    try {
+      const response = await fetch('/api/rule-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          type,
+          value: parseFloat(value),
+          timeWindowHours: isWindowedRuleType(type) ? parseInt(timeWindowHours, 10) : undefined,
+          movingAverageType: isMovingAverageCross ? movingAverageType : undefined,
+          crossDirection: isMovingAverageCross || isIndicator ? crossDirection : undefined,
+          indicatorPeriod: isIndicator ? parseInt(indicatorPeriod, 10) : undefined,
+          autoApply,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        const fieldErrors = result.details?.fieldErrors;
+        const firstFieldError = fieldErrors ? Object.values(fieldErrors).flat()[0] : undefined;
+        throw new Error((firstFieldError as string | undefined) || result.details?.formErrors?.[0] || result.error || 'Failed to save template');
+      }
+
+      setTemplates(prev => [...prev, result]);
+      setName('');
+      setValue('');
+      setAutoApply(false);
+      toast.success("Rule template saved.");
+    } catch (error) {
+      console.error("Add Template Error:", error);
+      toast.error("Error Saving Template", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggleAutoApply = async (template: RuleTemplateSummary, checked: boolean) => {
+    setBusyTemplateId(template.id);
+    try {
+      const response = await fetch(`/api/rule-templates/${template.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoApply: checked }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update template');
+      }
+      setTemplates(prev => prev.map(t => t.id === template.id ? { ...t, autoApply: checked } : t));
+    } catch (error) {
+      console.error("Toggle Template Error:", error);
+      toast.error(error instanceof Error ? error.message : "Could not update template.");
+    } finally {
+      setBusyTemplateId(null);
+    }
+  };
+
+  const handleApply = async (template: RuleTemplateSummary) => {
+    setBusyTemplateId(template.id);
+    try {
+      const response = await fetch('/api/rule-templates/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          templateIds: [template.id],
+          trackedAssetIds: selectedAssetIds.length > 0 ? selectedAssetIds : undefined,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to apply template');
+      }
+
+      const created: number = result.created.length;
+      setTemplates(prev => prev.map(t => t.id === template.id ? { ...t, _count: { rules: t._count.rules + created } } : t));
+      const skippedReasons = [...new Set((result.skipped as { reason: string }[]).map(s => s.reason))];
+      toast.success(`Created ${created} rule${created === 1 ? '' : 's'} from "${template.name}".`, {
+        description: result.skipped.length > 0 ? `Skipped ${result.skipped.length}: ${skippedReasons.join(', ')}` : undefined,
+      });
+    } catch (error) {
+      console.error("Apply Template Error:", error);
+      toast.error(error instanceof Error ? error.message : "Could not apply template.");
+    } finally {
+      setBusyTemplateId(null);
+    }
+  };
+
+  const handleRemove = async (template: RuleTemplateSummary) => {
+    if (!confirm(`Remove the template "${template.name}"? Rules already created from it are kept.`)) {
+      return;
+    }
+    setBusyTemplateId(template.id);
+    try {
+      const response = await fetch(`/api/rule-templates/${template.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove template');
+      }
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      toast.success("Rule template removed.");
+    } catch (error) {
+      console.error("Remove Template Error:", error);
+      toast.error(error instanceof Error ? error.message : "Could not remove template.");
+    } finally {
+      setBusyTemplateId(null);
+    }
+  };
+
+  const toggleSelectedAsset = (trackedAssetId: string, checked: boolean) => {
+    setSelectedAssetIds(prev => checked ? [...prev, trackedAssetId] : prev.filter(id => id !== trackedAssetId));
+  };
+
+  const applyLabel = selectedAssetIds.length > 0 ? `Apply to ${selectedAssetIds.length} Selected` : 'Apply to All';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rule Templates</CardTitle>
+        <CardDescription>
+          Save a rule once and add it to several assets at a time. Price targets are a percentage above or below
+          each asset&apos;s current price. Templates set to auto-attach are added to every asset you start tracking.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <>
+            {trackedAssets.length > 0 && (
+              <div className="space-y-2">
+                <Label>Apply To</Label>
+                <div className="flex flex-wrap gap-3">
+                  {trackedAssets.map(trackedAsset => (
+                    <label key={trackedAsset.id} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selectedAssetIds.includes(trackedAsset.id)}
+                        onChange={(e) => toggleSelectedAsset(trackedAsset.id, e.target.checked)}
+                      />
+                      {trackedAsset.asset.symbol.toUpperCase()}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Leave all unchecked to apply to every tracked asset.</p>
+              </div>
+            )}
+
+            {templates.length > 0 ? (
+              <ul className="space-y-3">
+                {templates.map(template => (
+                  <li key={template.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{template.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {describeTemplate(template)}{template.quoteCurrency ? ` (${template.quoteCurrency})` : ''} · {template._count.rules} rule{template._count.rules === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id={`autoApply-${template.id}`}
+                          checked={template.autoApply}
+                          onCheckedChange={(checked) => handleToggleAutoApply(template, checked)}
+                          disabled={busyTemplateId === template.id}
+                        />
+                        <Label htmlFor={`autoApply-${template.id}`} className="text-xs">Auto-attach</Label>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => handleApply(template)} disabled={busyTemplateId === template.id || trackedAssets.length === 0}>
+                        {applyLabel}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleRemove(template)} disabled={busyTemplateId === template.id}>
+                        Remove
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No rule templates yet.</p>
+            )}
+
+            <form onSubmit={handleAdd} className="space-y-2">
+              <Label htmlFor="templateName">Add Template</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  id="templateName"
+                  placeholder="Name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={60}
+                  className="w-48"
+                  required
+                />
+                <Select value={type} onValueChange={(v) => setType(v as NotificationRuleType)}>
+                  <SelectTrigger className="w-52" aria-label="Rule type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templateTypeOptions.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="any"
+                  placeholder={isMovingAverageCross ? 'Period' : isIndicator ? 'Level' : type === NotificationRuleType.VOLUME_SPIKE ? 'Multiple' : '%'}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="w-24"
+                  aria-label="Value"
+                  required
+                />
+                {isWindowedRuleType(type) && (
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Hours"
+                    value={timeWindowHours}
+                    onChange={(e) => setTimeWindowHours(e.target.value)}
+                    className="w-24"
+                    aria-label="Time window (hours)"
+                  />
+                )}
+                {isMovingAverageCross && (
+                  <Select value={movingAverageType} onValueChange={(v) => setMovingAverageType(v as MovingAverageType)}>
+                    <SelectTrigger className="w-24" aria-label="Moving average type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={MovingAverageType.SMA}>SMA</SelectItem>
+                      <SelectItem value={MovingAverageType.EMA}>EMA</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {isIndicator && (
+                  <Input
+                    type="number"
+                    min="2"
+                    placeholder="Period"
+                    value={indicatorPeriod}
+                    onChange={(e) => setIndicatorPeriod(e.target.value)}
+                    className="w-24"
+                    aria-label="Indicator period"
+                  />
+                )}
+                {(isMovingAverageCross || isIndicator) && (
+                  <Select value={crossDirection} onValueChange={(v) => setCrossDirection(v as CrossDirection)}>
+                    <SelectTrigger className="w-28" aria-label="Cross direction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CrossDirection.ABOVE}>Above</SelectItem>
+                      <SelectItem value={CrossDirection.BELOW}>Below</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Switch id="templateAutoApply" checked={autoApply} onCheckedChange={setAutoApply} />
+                  <Label htmlFor="templateAutoApply" className="text-xs">Auto-attach</Label>
+                </div>
+                <Button type="submit" disabled={isAdding || !name || !value}>
+                  {isAdding ? 'Saving...' : 'Save Template'}
+                </Button>
+              </div>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
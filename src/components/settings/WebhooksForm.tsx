@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  description: string | null;
+  isEnabled: boolean;
+}
+
+export default function WebhooksForm() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointSummary[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null); // Shown once after creating an endpoint
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyEndpointId, setBusyEndpointId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const fetchEndpoints = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/webhooks');
+      if (!response.ok) {
+        throw new Error('Failed to fetch webhooks');
+      }
+      setEndpoints(await response.json());
+    } catch (error) {
+      console.error("Fetch Error:", error);
+      toast.error("Could not load webhooks.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  const handleAdd = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsAdding(true);
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, description: description || undefined }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.fieldErrors?.url?.[0] || result.error || 'Failed to add webhook');
+      }
+
+      setEndpoints(prev => [...prev, result]);
+      setNewSecret(result.secret);
+      setUrl('');
+      setDescription('');
+      toast.success("Webhook added.");
+    } catch (error) {
+      console.error("Add Webhook Error:", error);
+      toast.error("Error Adding Webhook", {
+          description: error instanceof Error ? error.message : "An unknown error occurred.",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpointSummary, isEnabled: boolean) => {
+    setBusyEndpointId(endpoint.id);
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isEnabled }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update webhook');
+      }
+      setEndpoints(prev => prev.map(e => e.id === endpoint.id ? { ...e, isEnabled } : e));
+    } catch (error) {
+      console.error("Toggle Webhook Error:", error);
+      toast.error(error instanceof Error ? error.message : "Could not update webhook.");
+    } finally {
+      setBusyEndpointId(null);
+    }
+  };
+
+  const handleSendTest = async (endpoint: WebhookEndpointSummary) => {
+    setBusyEndpointId(endpoint.id);
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}/test`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send test event');
+      }
+      if (result.success) {
+        toast.success("Test event delivered.");
+      } else {
+        toast.error("Test event failed", { description: result.error });
+      }
+    } catch (error) {
+      console.error("Test Webhook Error:", error);
+      toast.error(error instanceof Error ? error.message : "Could not send test event.");
+    } finally {
+      setBusyEndpointId(null);
+    }
+  };
+
+  const handleRemove = async (endpoint: WebhookEndpointSummary) => {
+    if (!confirm(`Remove the webhook for ${endpoint.url}?`)) {
+      return;
+    }
+    setBusyEndpointId(endpoint.id);
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove webhook');
+      }
+      setEndpoints(prev => prev.filter(e => e.id !== endpoint.id));
+      toast.success("Webhook removed.");
+    } catch (error) {
+      console.error("Remove Webhook Error:", error);
+      toast.error(error instanceof Error ? error.message : "Could not remove webhook.");
+    } finally {
+      setBusyEndpointId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Alerts are POSTed as JSON to these HTTPS endpoints. Each request carries an X-DLATC-Signature header
+          (HMAC-SHA256 of the timestamp, a dot and the body), an X-DLATC-Timestamp header, and an Idempotency-Key that stays the same across retries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <>
+            {endpoints.length > 0 ? (
+              <ul className="space-y-3">
+                {endpoints.map(endpoint => (
+                  <li key={endpoint.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Switch
+                        checked={endpoint.isEnabled}
+                        onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                        disabled={busyEndpointId === endpoint.id}
+                        aria-label={`Enable webhook ${endpoint.url}`}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{endpoint.url}</p>
+                        {endpoint.description && <p className="text-xs text-muted-foreground">{endpoint.description}</p>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleSendTest(endpoint)} disabled={busyEndpointId === endpoint.id}>
+                        Send Test Event
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleRemove(endpoint)} disabled={busyEndpointId === endpoint.id}>
+                        Remove
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+            )}
+
+            {newSecret && (
+              <div className="space-y-1 rounded-md border p-3">
+                <p className="text-sm font-medium">Signing secret</p>
+                <code className="block text-xs break-all">{newSecret}</code>
+                <p className="text-xs text-muted-foreground">Copy this now. It won&apos;t be shown again.</p>
+              </div>
+            )}
+
+            <form onSubmit={handleAdd} className="space-y-2">
+              <Label htmlFor="webhookUrl">Add Endpoint</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  id="webhookUrl"
+                  type="url"
+                  placeholder="https://example.com/hooks/dlatc"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  className="w-80"
+                  required
+                />
+                <Input
+                  placeholder="Description (optional)"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={100}
+                  className="w-56"
+                />
+                <Button type="submit" disabled={isAdding || !url}>
+                  {isAdding ? 'Adding...' : 'Add Webhook'}
+                </Button>
+              </div>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -50,9 +50,9 @@ export const authOptions: NextAuthOptions = {
         session.user.quietTimeStart = token.quietTimeStart;
         session.user.quietTimeEnd = token.quietTimeEnd;
         session.user.quietTimeZone = token.quietTimeZone;
+        session.user.role = token.role;
       }
       // Add other custom fields here if needed from token
-      // session.user.role = token.role
       return session;
     },
     async jwt({ token, user, trigger }) {
@@ -67,7 +67,8 @@ export const authOptions: NextAuthOptions = {
             quietTimeStart: true,
             quietTimeEnd: true,
             quietTimeZone: true,
-            // Add other fields needed in the token/session, e.g., role
+            role: true,
+            // Add other fields needed in the token/session
           }
         });
 
@@ -77,8 +78,8 @@ export const authOptions: NextAuthOptions = {
           token.quietTimeStart = dbUser.quietTimeStart;
           token.quietTimeEnd = dbUser.quietTimeEnd;
           token.quietTimeZone = dbUser.quietTimeZone;
+          token.role = dbUser.role;
           // Add other custom fields here if needed
-          // token.role = dbUser.role;
         }
       }
       return token;
@@ -11,11 +11,35 @@ export interface Coin {
   name: string;
 }
 
+// Interface for the relevant fields from /coins/markets response
+interface MarketCoin {
+  id: string;
+  symbol: string;
+  name: string;
+  // other fields like image, current_price, market_cap are available but ignored here
+}
+
+const MARKETS_RESULTS_PER_PAGE = 250;
+
 // Interface for the simple price response
 // e.g., { "bitcoin": { "usd": 65000.12 } }
+// With market data requested, each currency also has its market cap, 24h volume and 24h change:
+// e.g., { "bitcoin": { "usd": 65000.12, "usd_market_cap": 1.28e12, "usd_24h_vol": 3.1e10, "usd_24h_change": -1.2 } }
+// CoinGecko reports missing market data as null.
 export interface PriceData {
   [coinId: string]: {
-    [currency: string]: number;
+    [currency: string]: number | null;
+  };
+}
+
+/**
+ * The PriceData keys holding a currency's market data (e.g., "usd_market_cap" for "usd").
+ */
+export function marketDataKeys(currency: string) {
+  return {
+    marketCap: `${currency}_market_cap`,
+    volume24h: `${currency}_24h_vol`,
+    change24h: `${currency}_24h_change`,
   };
 }
 
@@ -42,17 +66,51 @@ export async function getCoinsList(): Promise<Coin[]> {
 }
 
 /**
- * Fetches the current price for a list of specified coin IDs in USD.
+ * Fetches one page of coins ordered by market cap from CoinGecko.
+ * Throws on API errors so callers can decide whether to fall back to cached data.
+ * @param {number} page - 1-based page number
+ * @returns {Promise<Coin[]>}
+ */
+async function getMarketCoinsPage(page: number): Promise<Coin[]> {
+  const url = `${COINGECKO_API_BASE_URL}/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${MARKETS_RESULTS_PER_PAGE}&page=${page}&sparkline=false&locale=en`;
+  const options = API_KEY ? { headers: { 'x-cg-demo-api-key': API_KEY } } : {};
+  const response = await fetch(url, options);
+  if (!response.ok) {
+    throw new Error(`CoinGecko API Error (Page ${page}): ${response.status} ${response.statusText}`);
+  }
+  const data: MarketCoin[] = await response.json();
+  return data.map(coin => ({ id: coin.id, symbol: coin.symbol, name: coin.name }));
+}
+
+/**
+ * Fetches the top coins by market cap from CoinGecko (250 per page, pages fetched in parallel).
+ * @param {number} pages - Number of pages to fetch (e.g., 4 for the top 1000)
+ * @returns {Promise<Coin[]>}
+ */
+export async function getTopCoins(pages: number): Promise<Coin[]> {
+  const pagePromises: Promise<Coin[]>[] = [];
+  for (let i = 1; i <= pages; i++) {
+    pagePromises.push(getMarketCoinsPage(i));
+  }
+  const pagesResults = await Promise.all(pagePromises);
+  return pagesResults.flat();
+}
+
+/**
+ * Fetches the current price for a list of specified coin IDs in one or more currencies.
  * @param {string[]} coinIds - Array of CoinGecko coin IDs (e.g., ["bitcoin", "ethereum"])
+ * @param {string[]} vsCurrencies - Lowercase currency codes (e.g., ["usd", "eur", "btc"]), defaults to USD
+ * @param {boolean} includeMarketData - Also fetch market cap, 24h volume and 24h change (see PriceData)
  * @returns {Promise<PriceData>}
  */
-export async function getPrices(coinIds: string[]): Promise<PriceData> {
+export async function getPrices(coinIds: string[], vsCurrencies: string[] = ['usd'], includeMarketData = false): Promise<PriceData> {
   if (!coinIds || coinIds.length === 0) {
     return {};
   }
 
   const idsParam = coinIds.join(',');
-  const url = `${COINGECKO_API_BASE_URL}/simple/price?ids=${idsParam}&vs_currencies=usd`;
+  const marketDataParams = includeMarketData ? '&include_market_cap=true&include_24hr_vol=true&include_24hr_change=true' : '';
+  const url = `${COINGECKO_API_BASE_URL}/simple/price?ids=${idsParam}&vs_currencies=${vsCurrencies.join(',')}${marketDataParams}`;
   const options = API_KEY ? { headers: { 'x-cg-demo-api-key': API_KEY } } : {};
 
   try {
@@ -0,0 +1,41 @@
+import { QuoteCurrency } from '@prisma/client';
+
+// Currencies that are crypto assets themselves, which Intl cannot format as currencies
+const CRYPTO_QUOTE_CURRENCIES: QuoteCurrency[] = [QuoteCurrency.BTC, QuoteCurrency.ETH];
+
+// Options for currency pickers, in display order
+export const quoteCurrencyOptions: { id: QuoteCurrency; name: string }[] = [
+  { id: QuoteCurrency.USD, name: 'US Dollar (USD)' },
+  { id: QuoteCurrency.EUR, name: 'Euro (EUR)' },
+  { id: QuoteCurrency.GBP, name: 'British Pound (GBP)' },
+  { id: QuoteCurrency.JPY, name: 'Japanese Yen (JPY)' },
+  { id: QuoteCurrency.BTC, name: 'Bitcoin (BTC)' },
+  { id: QuoteCurrency.ETH, name: 'Ether (ETH)' },
+];
+
+/**
+ * Converts a quote currency to the lowercase code price APIs use (e.g., EUR -> "eur").
+ */
+export function toVsCurrency(currency: QuoteCurrency): string {
+  return currency.toLowerCase();
+}
+
+/**
+ * Formats a price in the given currency, e.g. "$65,000.00", "€1,234.50" or "0.0521 BTC".
+ */
+export function formatPrice(price: number, currency: QuoteCurrency = QuoteCurrency.USD): string {
+  if (CRYPTO_QUOTE_CURRENCIES.includes(currency)) {
+    return `${price.toLocaleString(undefined, { maximumFractionDigits: 8 })} ${currency}`;
+  }
+  return price.toLocaleString(undefined, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 6 });
+}
+
+/**
+ * Formats a large amount such as a market cap or trading volume compactly, e.g. "$1.28T" or "12.5K BTC".
+ */
+export function formatCompactAmount(amount: number, currency: QuoteCurrency = QuoteCurrency.USD): string {
+  if (CRYPTO_QUOTE_CURRENCIES.includes(currency)) {
+    return `${amount.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 2 })} ${currency}`;
+  }
+  return amount.toLocaleString(undefined, { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 2 });
+}
@@ -0,0 +1,20 @@
+import { DeliveryChannel } from '@prisma/client';
+
+// Options for channel pickers, in display order
+export const deliveryChannelOptions: { id: DeliveryChannel; name: string }[] = [
+  { id: DeliveryChannel.EMAIL, name: 'Email' },
+  { id: DeliveryChannel.SMS, name: 'SMS' },
+  { id: DeliveryChannel.TELEGRAM, name: 'Telegram' },
+  { id: DeliveryChannel.DISCORD, name: 'Discord' },
+  { id: DeliveryChannel.WEBHOOK, name: 'Webhook' },
+];
+
+/**
+ * Formats a list of channels for display, e.g. "Email + SMS".
+ */
+export function formatChannels(channels: DeliveryChannel[]): string {
+  return deliveryChannelOptions
+    .filter(option => channels.includes(option.id))
+    .map(option => option.name)
+    .join(' + ');
+}
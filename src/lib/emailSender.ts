@@ -1,5 +1,8 @@
 import { Resend } from 'resend';
 import { AssetSummaryData } from './morningSummaryGenerator'; // Import the interface
+import { QuietTimeDigestEntry } from './quietTimeDigest';
+import { formatPrice } from './currency';
+import { formatPnlPercent, totalPositions } from './holdings';
 
 // Ensure RESEND_API_KEY is set in your .env file
 if (!process.env.RESEND_API_KEY) {
@@ -14,25 +17,60 @@ if (EMAIL_FROM === 'noreply@example.com') {
     console.warn("EMAIL SENDER: EMAIL_FROM environment variable is not set or is using the default placeholder. Please configure a verified sender email in Resend and set the EMAIL_FROM variable.");
 }
 
+// An amount with its sign, e.g. "+$1,200.00" or "-$85.50"
+function formatSignedAmount(amount: number, currency: AssetSummaryData['currency']): string {
+    return `${amount >= 0 ? '+' : '-'}${formatPrice(Math.abs(amount), currency)}`;
+}
+
+// A holding's value and unrealized P&L, for the Position column
+function formatHoldingCell(asset: AssetSummaryData): string {
+    const { holding } = asset;
+    if (!holding) {
+        return '';
+    }
+    const quantity = `${holding.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} ${asset.symbol}`;
+    if (holding.value === null || holding.unrealizedPnl === null) {
+        return quantity;
+    }
+    const color = holding.unrealizedPnl >= 0 ? 'green' : 'red';
+    const percent = holding.unrealizedPnlPercent !== null ? ` (${formatPnlPercent(holding.unrealizedPnlPercent)})` : '';
+    return `${quantity}<br>${formatPrice(holding.value, holding.currency)}<br><span style="color: ${color};">${formatSignedAmount(holding.unrealizedPnl, holding.currency)}${percent}</span>`;
+}
+
 /**
  * Formats the summary data into an HTML email body.
  * @param summaryData Array of asset summary data.
  * @returns HTML string for the email body.
  */
 function formatSummaryEmailHtml(summaryData: AssetSummaryData[]): string {
+    const hasHoldings = summaryData.some(asset => asset.holding !== null);
     let tableRows = ''; // Use let as it's reassigned
     summaryData.forEach(asset => {
         tableRows += `
             <tr>
                 <td style="padding: 8px; border: 1px solid #ddd;">${asset.name} (${asset.symbol})</td>
-                <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${asset.currentPrice !== null ? `$${asset.currentPrice.toFixed(2)}` : 'N/A'}</td>
+                <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${asset.currentPrice !== null ? formatPrice(asset.currentPrice, asset.currency) : 'N/A'}</td>
                 <td style="padding: 8px; border: 1px solid #ddd; text-align: right; color: ${asset.changePercent24h === null ? 'black' : asset.changePercent24h >= 0 ? 'green' : 'red'};"> 
                     ${asset.changePercent24h !== null ? `${asset.changePercent24h >= 0 ? '+' : ''}${asset.changePercent24h.toFixed(2)}%` : 'N/A'}
                 </td>
+                ${hasHoldings ? `<td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${formatHoldingCell(asset)}</td>` : ''}
             </tr>
         `;
     });
 
+    // One total per cost currency, for holdings with a price
+    const totals = totalPositions(summaryData.flatMap(asset =>
+        asset.holding && asset.holding.value !== null
+            ? [{ currency: asset.holding.currency, value: asset.holding.value, costBasis: asset.holding.costBasis }]
+            : []
+    ));
+    const totalsHtml = totals.map(total => `
+        <p style="margin: 4px 0;">
+            Portfolio value: <strong>${formatPrice(total.value, total.currency)}</strong>,
+            unrealized P&amp;L <span style="color: ${total.unrealizedPnl >= 0 ? 'green' : 'red'};">${formatSignedAmount(total.unrealizedPnl, total.currency)}${total.unrealizedPnlPercent !== null ? ` (${formatPnlPercent(total.unrealizedPnlPercent)})` : ''}</span>
+        </p>
+    `).join('');
+
     return `
         <h1>Your Daily Crypto Summary</h1>
         <p>Here's a look at the 24-hour performance of your tracked assets:</p>
@@ -42,12 +80,14 @@ function formatSummaryEmailHtml(summaryData: AssetSummaryData[]): string {
                     <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Asset</th>
                     <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Current Price</th>
                     <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">24h Change</th>
+                    ${hasHoldings ? '<th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Position</th>' : ''}
                 </tr>
             </thead>
             <tbody>
                 ${tableRows}
             </tbody>
         </table>
+        ${totalsHtml ? `<div style="margin-top: 15px;">${totalsHtml}</div>` : ''}
         <p style="margin-top: 20px; font-size: 0.8em; color: #666;">
             Prices are approximate and based on available data. Data provided by CoinGecko.
             You can adjust your notification settings in your profile.
@@ -93,4 +133,89 @@ export async function sendMorningSummaryEmail(to: string, summaryData: AssetSumm
     } catch (error) {
         console.error(`Email Sender: Exception occurred while sending summary email to ${to}:`, error);
     }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Formats the alerts held during quiet time into an HTML email body.
+ * @param entries The held alerts, oldest first.
+ * @returns HTML string for the email body.
+ */
+function formatQuietTimeDigestHtml(entries: QuietTimeDigestEntry[]): string {
+    let tableRows = '';
+    entries.forEach(entry => {
+        const change = entry.currentPrice !== null && entry.triggeringPrice !== 0
+            ? ((entry.currentPrice - entry.triggeringPrice) / entry.triggeringPrice) * 100
+            : null;
+        tableRows += `
+            <tr>
+                <td style="padding: 8px; border: 1px solid #ddd;">${entry.triggeredAt}</td>
+                <td style="padding: 8px; border: 1px solid #ddd;">${entry.symbol ? `${entry.name} (${entry.symbol})` : entry.name}<br><small>${entry.description}</small></td>
+                <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${formatPrice(entry.triggeringPrice, entry.currency)}</td>
+                <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">
+                    ${entry.currentPrice !== null ? formatPrice(entry.currentPrice, entry.currency) : 'N/A'}
+                    ${change !== null ? `<br><small style="color: ${change >= 0 ? 'green' : 'red'};">${change >= 0 ? '+' : ''}${change.toFixed(2)}% since</small>` : ''}
+                </td>
+            </tr>
+        `;
+    });
+
+    return `
+        <h1>While You Were Sleeping</h1>
+        <p>These alerts fired during your quiet time:</p>
+        <table style="width: 100%; border-collapse: collapse; margin-top: 15px;">
+            <thead>
+                <tr>
+                    <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Time</th>
+                    <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Alert</th>
+                    <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Trigger Price</th>
+                    <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Current Price</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${tableRows}
+            </tbody>
+        </table>
+        <p style="margin-top: 20px; font-size: 0.8em; color: #666;">
+            You can turn this digest off in your quiet time settings.
+        </p>
+    `;
+}
+
+/**
+ * Sends the quiet time digest email to a user.
+ * @param to Recipient email address.
+ * @param entries The alerts held during quiet time.
+ * @returns {Promise<boolean>} True if the email was sent.
+ */
+export async function sendQuietTimeDigestEmail(to: string, entries: QuietTimeDigestEntry[]): Promise<boolean> {
+    if (!process.env.RESEND_API_KEY || EMAIL_FROM === 'noreply@example.com') {
+        console.error("Email Sender: Cannot send email due to missing API key or EMAIL_FROM configuration.");
+        return false;
+    }
+
+    if (entries.length === 0) {
+        return false;
+    }
+
+    const subject = `While you were sleeping: ${entries.length} alert${entries.length === 1 ? '' : 's'}`;
+    const htmlBody = formatQuietTimeDigestHtml(entries);
+
+    try {
+        const { data, error } = await resend.emails.send({
+            from: `DLATC Alerts <${EMAIL_FROM}>`,
+            to: [to],
+            subject: subject,
+            html: htmlBody,
+        });
+
+        if (error) {
+            console.error(`Email Sender: Failed to send quiet time digest to ${to}:`, error);
+            return false;
+        }
+        console.log(`Email Sender: Quiet time digest sent successfully to ${to}. ID: ${data?.id}`);
+        return true;
+    } catch (error) {
+        console.error(`Email Sender: Exception occurred while sending quiet time digest to ${to}:`, error);
+        return false;
+    }
+}
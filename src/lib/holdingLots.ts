@@ -0,0 +1,20 @@
+import { prisma } from '@/lib/prisma';
+import { totalLots } from './holdings';
+
+// Lots are returned oldest first, with the tracked asset
+export const lotsInclude = { lots: { orderBy: { acquiredAt: 'asc' as const } } };
+
+/**
+ * Recomputes a holding's quantity and average cost from its lots after one is added or removed.
+ * Removing the last lot clears the holding.
+ * @returns The updated tracked asset, with its lots.
+ */
+export async function syncHoldingWithLots(trackedAssetId: string) {
+  const lots = await prisma.holdingLot.findMany({ where: { trackedAssetId } });
+  const totals = totalLots(lots);
+  return prisma.trackedAsset.update({
+    where: { id: trackedAssetId },
+    data: totals ?? { quantity: null, averageCost: null, costCurrency: null },
+    include: lotsInclude,
+  });
+}
@@ -0,0 +1,53 @@
+import { QuoteCurrency } from '@prisma/client';
+import { holdingLotSchema, holdingSchema, totalLots, totalPositions, valuePosition } from './holdings';
+
+describe('totalLots', () => {
+  test('adds up quantity and weights the average cost by quantity', () => {
+    expect(totalLots([
+      { quantity: 0.5, unitCost: 60000 },
+      { quantity: 1.5, unitCost: 40000 },
+    ])).toEqual({ quantity: 2, averageCost: 45000 });
+  });
+
+  test('returns null without lots', () => {
+    expect(totalLots([])).toBeNull();
+  });
+});
+
+describe('valuePosition', () => {
+  test('reports value and unrealized P&L at the price', () => {
+    expect(valuePosition(2, 45000, 54000)).toEqual({ value: 108000, costBasis: 90000, unrealizedPnl: 18000, unrealizedPnlPercent: 20 });
+  });
+
+  test('has no P&L percentage for holdings that cost nothing', () => {
+    expect(valuePosition(100, 0, 2).unrealizedPnlPercent).toBeNull();
+  });
+});
+
+describe('totalPositions', () => {
+  test('keeps one total per currency', () => {
+    const totals = totalPositions([
+      { currency: QuoteCurrency.USD, value: 1200, costBasis: 1000 },
+      { currency: QuoteCurrency.EUR, value: 450, costBasis: 500 },
+      { currency: QuoteCurrency.USD, value: 300, costBasis: 500 },
+    ]);
+
+    expect(totals).toEqual([
+      { currency: QuoteCurrency.USD, value: 1500, costBasis: 1500, unrealizedPnl: 0, unrealizedPnlPercent: 0 },
+      { currency: QuoteCurrency.EUR, value: 450, costBasis: 500, unrealizedPnl: -50, unrealizedPnlPercent: -10 },
+    ]);
+  });
+});
+
+describe('holding input', () => {
+  test('requires an average cost with a quantity, but not to clear the holding', () => {
+    expect(holdingSchema.safeParse({ quantity: 1 }).success).toBe(false);
+    expect(holdingSchema.safeParse({ quantity: null }).success).toBe(true);
+  });
+
+  test('rejects lots acquired in the future', () => {
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+    expect(holdingLotSchema.safeParse({ quantity: 1, unitCost: 100, acquiredAt: nextWeek }).success).toBe(false);
+    expect(holdingLotSchema.safeParse({ quantity: 1, unitCost: 100, acquiredAt: '2026-01-15' }).success).toBe(true);
+  });
+});
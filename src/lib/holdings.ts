@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { QuoteCurrency } from '@prisma/client';
+
+// Request body for setting a holding directly (without lots). Null quantity clears the holding.
+export const holdingSchema = z.object({
+  quantity: z.number().nonnegative().nullable(),
+  averageCost: z.number().nonnegative().optional(), // Per unit; required with a quantity
+  costCurrency: z.nativeEnum(QuoteCurrency).optional(), // Defaults to the user's reference currency
+}).refine(data => data.quantity === null || typeof data.averageCost === 'number', {
+  message: "averageCost is required with a quantity",
+  path: ["averageCost"],
+});
+
+const LOT_DATE_LEEWAY_MS = 24 * 60 * 60 * 1000;
+
+// Request body for adding a lot
+export const holdingLotSchema = z.object({
+  quantity: z.number().positive(),
+  unitCost: z.number().nonnegative(),
+  // Dates without a time are midnight UTC, which is still in the future ahead of UTC; allow a day for that
+  acquiredAt: z.coerce.date().refine(date => date.getTime() <= Date.now() + LOT_DATE_LEEWAY_MS, { message: "acquiredAt can't be in the future" }),
+  note: z.string().trim().max(100).optional(),
+  costCurrency: z.nativeEnum(QuoteCurrency).optional(), // Only used for a holding's first lot; later lots share its currency
+});
+
+export interface HoldingTotals {
+  quantity: number;
+  averageCost: number;
+}
+
+export interface HoldingPosition {
+  value: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number | null; // Null when the holding cost nothing
+}
+
+/**
+ * Adds up lots into a holding's quantity and weighted average cost per unit.
+ * @returns The totals, or null without lots.
+ */
+export function totalLots(lots: { quantity: number; unitCost: number }[]): HoldingTotals | null {
+  if (lots.length === 0) {
+    return null;
+  }
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const cost = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+  return { quantity, averageCost: quantity > 0 ? cost / quantity : 0 };
+}
+
+/**
+ * Values a holding at a price in its cost currency.
+ */
+export function valuePosition(quantity: number, averageCost: number, price: number): HoldingPosition {
+  const value = quantity * price;
+  const costBasis = quantity * averageCost;
+  const unrealizedPnl = value - costBasis;
+  return {
+    value,
+    costBasis,
+    unrealizedPnl,
+    unrealizedPnlPercent: costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : null,
+  };
+}
+
+export interface PortfolioTotal extends HoldingPosition {
+  currency: QuoteCurrency;
+}
+
+/**
+ * Adds up valued holdings into one total per cost currency (holdings in different currencies
+ * aren't converted into each other).
+ */
+export function totalPositions(positions: (Pick<HoldingPosition, 'value' | 'costBasis'> & { currency: QuoteCurrency })[]): PortfolioTotal[] {
+  const totals = new Map<QuoteCurrency, { value: number; costBasis: number }>();
+  for (const position of positions) {
+    const total = totals.get(position.currency) ?? { value: 0, costBasis: 0 };
+    total.value += position.value;
+    total.costBasis += position.costBasis;
+    totals.set(position.currency, total);
+  }
+  return [...totals].map(([currency, { value, costBasis }]) => ({
+    currency,
+    value,
+    costBasis,
+    unrealizedPnl: value - costBasis,
+    unrealizedPnlPercent: costBasis > 0 ? ((value - costBasis) / costBasis) * 100 : null,
+  }));
+}
+
+/**
+ * Formats an unrealized P&L percentage with its sign, e.g. "+12.50%" or "-3.20%".
+ */
+export function formatPnlPercent(percent: number): string {
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
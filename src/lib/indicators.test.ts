@@ -0,0 +1,63 @@
+import { MovingAverageType } from '@prisma/client';
+import { bollingerBands, MAX_MOVING_AVERAGE_PERIOD, movingAverageHistoryLength, relativeStrengthIndex, rsiHistoryLength } from './indicators';
+
+describe('relativeStrengthIndex', () => {
+  test('matches the textbook 14-period example', () => {
+    // Wilder's RSI example series, as used by most charting references. Their tables round the
+    // average gain and loss to two decimals at each step and show 70.53, 66.32 and 66.55.
+    const closes = [
+      44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+    ];
+    expect(relativeStrengthIndex(closes, 14)).toBeCloseTo(70.46, 2);
+    expect(relativeStrengthIndex([...closes, 46.00], 14)).toBeCloseTo(66.25, 2);
+    expect(relativeStrengthIndex([...closes, 46.00, 46.03], 14)).toBeCloseTo(66.48, 2);
+  });
+
+  test('applies Wilder smoothing after the seed period', () => {
+    // Seed (changes +1, -1): gain 0.5, loss 0.5
+    // +1: gain (0.5 + 1) / 2 = 0.75, loss 0.5 / 2 = 0.25
+    // -1: gain 0.75 / 2 = 0.375, loss (0.25 + 1) / 2 = 0.625 -> RS 0.6 -> RSI 37.5
+    expect(relativeStrengthIndex([1, 2, 1, 2, 1], 2)).toBeCloseTo(37.5, 10);
+  });
+
+  test('handles one-way and flat series', () => {
+    expect(relativeStrengthIndex([1, 2, 3, 4], 3)).toBe(100);
+    expect(relativeStrengthIndex([4, 3, 2, 1], 3)).toBe(0);
+    expect(relativeStrengthIndex([5, 5, 5, 5], 3)).toBe(50);
+  });
+
+  test('returns null without more values than the period', () => {
+    expect(relativeStrengthIndex([1, 2, 3], 3)).toBeNull();
+    expect(relativeStrengthIndex([1, 2, 3], 0)).toBeNull();
+  });
+
+  test('loads enough history to settle and to compare with the previous point', () => {
+    expect(rsiHistoryLength(14)).toBe(44);
+  });
+});
+
+describe('bollingerBands', () => {
+  test('uses the SMA plus and minus the population standard deviation', () => {
+    // Mean 5, population standard deviation 2
+    expect(bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2)).toEqual({ middle: 5, upper: 9, lower: 1 });
+    expect(bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 1.5)).toEqual({ middle: 5, upper: 8, lower: 2 });
+  });
+
+  test('only uses the last `period` values', () => {
+    expect(bollingerBands([1000, 2, 4, 4, 4, 5, 5, 7, 9], 8, 2)).toEqual({ middle: 5, upper: 9, lower: 1 });
+  });
+
+  test('collapses to the average when prices are flat', () => {
+    expect(bollingerBands([10, 10, 10], 3, 2)).toEqual({ middle: 10, upper: 10, lower: 10 });
+  });
+
+  test('returns null with fewer values than the period', () => {
+    expect(bollingerBands([1, 2], 3, 2)).toBeNull();
+  });
+});
+
+describe('movingAverageHistoryLength', () => {
+  test('fits a cross of the longest SMA period in 7 days of 15-minute prices', () => {
+    expect(movingAverageHistoryLength(MAX_MOVING_AVERAGE_PERIOD, MovingAverageType.SMA)).toBe(7 * 96);
+  });
+});
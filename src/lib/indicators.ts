@@ -0,0 +1,132 @@
+import { MovingAverageType } from '@prisma/client';
+
+// Prices are stored every 15 minutes and pruned after 7 days, so at most 7 * 96 points are kept.
+// A cross also needs the average as of the previous point, so this is the longest period we can
+// ever have enough history for.
+export const MAX_MOVING_AVERAGE_PERIOD = 7 * 96 - 1;
+
+// How many periods of history to feed into an EMA so the seed value has mostly decayed
+export const EMA_HISTORY_MULTIPLIER = 3;
+
+/**
+ * Calculates the simple moving average of the last `period` values.
+ * @param values Prices ordered from oldest to newest.
+ * @param period Number of values to average.
+ * @returns The average, or null if there are fewer than `period` values.
+ */
+export function simpleMovingAverage(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) {
+    return null;
+  }
+  const window = values.slice(-period);
+  return window.reduce((sum, value) => sum + value, 0) / period;
+}
+
+/**
+ * Calculates the exponential moving average of the given values.
+ * The EMA is seeded with the SMA of the first `period` values and then
+ * smoothed over the remaining values with a factor of 2 / (period + 1).
+ * @param values Prices ordered from oldest to newest.
+ * @param period EMA period.
+ * @returns The latest EMA value, or null if there are fewer than `period` values.
+ */
+export function exponentialMovingAverage(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) {
+    return null;
+  }
+  const smoothing = 2 / (period + 1);
+  let ema = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  for (let i = period; i < values.length; i++) {
+    ema = values[i] * smoothing + ema * (1 - smoothing);
+  }
+  return ema;
+}
+
+/**
+ * Calculates a moving average of the requested type.
+ */
+export function movingAverage(values: number[], period: number, type: MovingAverageType): number | null {
+  return type === MovingAverageType.EMA
+    ? exponentialMovingAverage(values, period)
+    : simpleMovingAverage(values, period);
+}
+
+/**
+ * Number of price points to load to evaluate a crossing of the given moving average.
+ * One extra point is needed to compute the average as of the previous price.
+ */
+export function movingAverageHistoryLength(period: number, type: MovingAverageType): number {
+  return type === MovingAverageType.EMA
+    ? period * EMA_HISTORY_MULTIPLIER + 1
+    : period + 1;
+}
+
+// Limits for RSI periods. RSI uses Wilder's smoothing, which (like an EMA) needs several periods of
+// history for the seed value to decay, so the longest period is bounded by the stored history.
+export const MAX_RSI_PERIOD = 200;
+export const DEFAULT_RSI_PERIOD = 14;
+export const DEFAULT_BOLLINGER_PERIOD = 20;
+export const DEFAULT_BOLLINGER_MULTIPLIER = 2;
+export const MAX_BOLLINGER_MULTIPLIER = 5;
+
+/**
+ * Calculates the Relative Strength Index using Wilder's smoothing.
+ * Average gains and losses are seeded with the simple average of the first `period` changes
+ * and then smoothed as ((period - 1) * previous + current) / period.
+ * @param values Prices ordered from oldest to newest.
+ * @param period RSI period (14 is the usual choice).
+ * @returns The latest RSI (0-100), or null if there are not more than `period` values.
+ */
+export function relativeStrengthIndex(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period + 1) {
+    return null;
+  }
+  let averageGain = 0;
+  let averageLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain += Math.max(change, 0);
+    averageLoss += Math.max(-change, 0);
+  }
+  averageGain /= period;
+  averageLoss /= period;
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain = (averageGain * (period - 1) + Math.max(change, 0)) / period;
+    averageLoss = (averageLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+  if (averageLoss === 0) {
+    return averageGain === 0 ? 50 : 100; // Flat prices are neutral; only gains is maximally overbought
+  }
+  return 100 - 100 / (1 + averageGain / averageLoss);
+}
+
+/**
+ * Number of price points to load to evaluate an RSI crossing: enough for the smoothing to settle,
+ * plus one point for the first change and one to compute the RSI as of the previous price.
+ */
+export function rsiHistoryLength(period: number): number {
+  return period * EMA_HISTORY_MULTIPLIER + 2;
+}
+
+export interface BollingerBands {
+  middle: number; // Simple moving average
+  upper: number;
+  lower: number;
+}
+
+/**
+ * Calculates Bollinger Bands: the SMA of the last `period` values, plus and minus `multiplier`
+ * standard deviations (population) of those values.
+ * @param values Prices ordered from oldest to newest.
+ * @returns The bands, or null if there are fewer than `period` values.
+ */
+export function bollingerBands(values: number[], period: number, multiplier: number): BollingerBands | null {
+  const middle = simpleMovingAverage(values, period);
+  if (middle === null) {
+    return null;
+  }
+  const variance = values.slice(-period).reduce((sum, value) => sum + (value - middle) ** 2, 0) / period;
+  const deviation = Math.sqrt(variance) * multiplier;
+  return { middle, upper: middle + deviation, lower: middle - deviation };
+}
@@ -1,21 +1,57 @@
 import { prisma } from '@/lib/prisma';
 import { subHours } from 'date-fns';
+import { QuoteCurrency } from '@prisma/client';
+import { valuePosition } from './holdings';
+
+export interface HoldingSummaryData {
+  quantity: number;
+  currency: QuoteCurrency; // The holding's cost currency, which value and P&L are in
+  costBasis: number;
+  value: number | null; // Null without a stored price in that currency
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+}
 
 export interface AssetSummaryData {
   symbol: string;
   name: string;
+  currency: QuoteCurrency; // Currency of currentPrice and price24hAgo
   currentPrice: number | null;
   price24hAgo: number | null;
   changePercent24h: number | null;
+  holding: HoldingSummaryData | null; // Null for assets that are only watched
+}
+
+/**
+ * Values a tracked asset's holding at the latest price in its cost currency.
+ */
+function summarizeHolding(
+  trackedAsset: { quantity: number | null; averageCost: number | null; costCurrency: QuoteCurrency | null },
+  latestPrice: number | null
+): HoldingSummaryData | null {
+  const { quantity, averageCost, costCurrency } = trackedAsset;
+  if (quantity === null || averageCost === null || !costCurrency) {
+    return null;
+  }
+  const position = latestPrice !== null ? valuePosition(quantity, averageCost, latestPrice) : null;
+  return {
+    quantity,
+    currency: costCurrency,
+    costBasis: quantity * averageCost,
+    value: position?.value ?? null,
+    unrealizedPnl: position?.unrealizedPnl ?? null,
+    unrealizedPnlPercent: position?.unrealizedPnlPercent ?? null,
+  };
 }
 
 /**
  * Generates the data needed for a morning summary email for a specific user.
  * Calculates the 24-hour price change for each tracked asset.
  * @param userId The ID of the user to generate the summary for.
+ * @param currency The user's reference currency to report prices in.
  * @returns {Promise<AssetSummaryData[]>} An array of summary data for each tracked asset.
  */
-export async function generateMorningSummaryForUser(userId: string): Promise<AssetSummaryData[]> {
+export async function generateMorningSummaryForUser(userId: string, currency: QuoteCurrency = QuoteCurrency.USD): Promise<AssetSummaryData[]> {
   console.log(`Generating morning summary data for user: ${userId}`);
   const summaryResults: AssetSummaryData[] = [];
 
@@ -37,15 +73,17 @@ export async function generateMorningSummaryForUser(userId: string): Promise<Ass
     const now = new Date();
     const time24hAgo = subHours(now, 24);
 
-    // 2. Get latest price for each asset
+    // 2. Get latest price for each asset, also in the cost currency of holdings kept in another currency
+    const holdingCurrencies = trackedAssets.flatMap(ta => ta.quantity !== null && ta.costCurrency ? [ta.costCurrency] : []);
     const latestPrices = await prisma.priceHistory.findMany({
       where: {
         assetId: { in: assetIds },
+        currency: { in: [...new Set([currency, ...holdingCurrencies])] },
       },
       orderBy: { timestamp: 'desc' },
-      distinct: ['assetId'],
+      distinct: ['assetId', 'currency'],
     });
-    const latestPricesMap = new Map(latestPrices.map(p => [p.assetId, p]));
+    const latestPricesMap = new Map(latestPrices.map(p => [`${p.assetId}:${p.currency}`, p]));
 
     // 3. Get price from ~24 hours ago for each asset
     // For each asset, find the *first* price recorded *after* 24 hours ago.
@@ -53,6 +91,7 @@ export async function generateMorningSummaryForUser(userId: string): Promise<Ass
     const prices24hAgo = await prisma.priceHistory.findMany({
         where: {
             assetId: { in: assetIds },
+            currency: currency,
             timestamp: { gte: time24hAgo } // Price recorded >= 24h ago
         },
         orderBy: [
@@ -66,7 +105,7 @@ export async function generateMorningSummaryForUser(userId: string): Promise<Ass
 
     // 4. Calculate changes and format results
     for (const ta of trackedAssets) {
-      const latestPrice = latestPricesMap.get(ta.assetId);
+      const latestPrice = latestPricesMap.get(`${ta.assetId}:${currency}`);
       const price24hAgo = prices24hAgoMap.get(ta.assetId);
 
       let changePercent: number | null = null;
@@ -78,9 +117,11 @@ export async function generateMorningSummaryForUser(userId: string): Promise<Ass
       summaryResults.push({
         symbol: ta.asset.symbol.toUpperCase(),
         name: ta.asset.name,
+        currency: currency,
         currentPrice: latestPrice?.price ?? null,
         price24hAgo: price24hAgo?.price ?? null,
         changePercent24h: changePercent,
+        holding: summarizeHolding(ta, latestPricesMap.get(`${ta.assetId}:${ta.costCurrency}`)?.price ?? null),
       });
     }
 
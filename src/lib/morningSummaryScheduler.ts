@@ -12,6 +12,7 @@ type UserForSummary = Prisma.UserGetPayload<{
     email: true,
     morningSummaryTime: true,
     quietTimeZone: true,
+    referenceCurrency: true,
   }
 }>
 
@@ -44,6 +45,7 @@ export async function sendScheduledSummaries(): Promise<void> {
                 email: true,
                 morningSummaryTime: true,
                 quietTimeZone: true,
+                referenceCurrency: true,
             },
         });
 
@@ -91,7 +93,7 @@ export async function sendScheduledSummaries(): Promise<void> {
             
             console.log(`Scheduler: Processing summary for user ${user.id} (${user.email}).`);
             try {
-                const summaryData = await generateMorningSummaryForUser(user.id);
+                const summaryData = await generateMorningSummaryForUser(user.id, user.referenceCurrency);
                 if (summaryData.length > 0) {
                     await sendMorningSummaryEmail(user.email, summaryData);
                 } else {
@@ -0,0 +1,126 @@
+import { DeliveryChannel, DeliveryStatus } from '@prisma/client';
+
+const mockNotificationDeliveryUpdate = jest.fn();
+const mockNotificationDeliveryCreate = jest.fn();
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationDelivery: { update: mockNotificationDeliveryUpdate, create: mockNotificationDeliveryCreate },
+  },
+}));
+
+import { attemptDelivery, createDelivery, getRetryDelayMinutes, MAX_DELIVERY_ATTEMPTS, resolveDeliveryChannels } from './notificationDelivery';
+
+describe('getRetryDelayMinutes', () => {
+  test('should double the delay after each failed attempt', () => {
+    expect(getRetryDelayMinutes(1)).toBe(5);
+    expect(getRetryDelayMinutes(2)).toBe(10);
+    expect(getRetryDelayMinutes(3)).toBe(20);
+  });
+
+  test('should cap the delay at 6 hours', () => {
+    expect(getRetryDelayMinutes(20)).toBe(360);
+  });
+});
+
+describe('resolveDeliveryChannels', () => {
+  const verifiedUser = {
+    defaultChannels: [DeliveryChannel.EMAIL],
+    phoneNumber: '+15551234567',
+    phoneNumberVerified: new Date(),
+    telegramChatId: null,
+    discordWebhookUrl: null,
+  };
+  const unverifiedUser = { ...verifiedUser, phoneNumberVerified: null };
+
+  test('should use the user defaults when the rule has no channels', () => {
+    expect(resolveDeliveryChannels([], { ...verifiedUser, defaultChannels: [DeliveryChannel.EMAIL, DeliveryChannel.SMS] }))
+      .toEqual([DeliveryChannel.EMAIL, DeliveryChannel.SMS]);
+  });
+
+  test('should prefer the rule channels over the user defaults', () => {
+    expect(resolveDeliveryChannels([DeliveryChannel.SMS], verifiedUser)).toEqual([DeliveryChannel.SMS]);
+  });
+
+  test('should drop SMS when the phone number is not verified', () => {
+    expect(resolveDeliveryChannels([DeliveryChannel.SMS, DeliveryChannel.EMAIL], unverifiedUser)).toEqual([DeliveryChannel.EMAIL]);
+  });
+
+  test('should drop chat channels that are not set up', () => {
+    expect(resolveDeliveryChannels([DeliveryChannel.TELEGRAM, DeliveryChannel.DISCORD], { ...verifiedUser, telegramChatId: '12345' }))
+      .toEqual([DeliveryChannel.TELEGRAM]);
+  });
+
+  test('should fall back to email when no channel is left', () => {
+    expect(resolveDeliveryChannels([DeliveryChannel.SMS], unverifiedUser)).toEqual([DeliveryChannel.EMAIL]);
+  });
+});
+
+describe('attemptDelivery', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should mark the delivery as sent with the provider message ID', async () => {
+    const sent = await attemptDelivery({ id: 'delivery-1', attempts: 0 }, async () => ({ success: true, messageId: 'msg-1' }));
+
+    expect(sent).toBe(true);
+    expect(mockNotificationDeliveryUpdate).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        status: DeliveryStatus.SENT,
+        providerMessageId: 'msg-1',
+        attempts: 1,
+        nextAttemptAt: null,
+      }),
+    });
+  });
+
+  test('should record the error and schedule a retry with backoff', async () => {
+    const before = Date.now();
+    const sent = await attemptDelivery({ id: 'delivery-2', attempts: 1 }, async () => ({ success: false, error: 'Resend is down' }));
+
+    expect(sent).toBe(false);
+    const { data } = mockNotificationDeliveryUpdate.mock.calls[0][0];
+    expect(data).toEqual(expect.objectContaining({ status: DeliveryStatus.FAILED, error: 'Resend is down', attempts: 2 }));
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 10 * 60 * 1000);
+  });
+
+  test('should treat a thrown exception as a failed attempt', async () => {
+    const sent = await attemptDelivery({ id: 'delivery-3', attempts: 0 }, async () => { throw new Error('Network error'); });
+
+    expect(sent).toBe(false);
+    expect(mockNotificationDeliveryUpdate).toHaveBeenCalledWith({
+      where: { id: 'delivery-3' },
+      data: expect.objectContaining({ status: DeliveryStatus.FAILED, error: 'Network error' }),
+    });
+  });
+
+  test('should stop retrying after the maximum number of attempts', async () => {
+    await attemptDelivery({ id: 'delivery-4', attempts: MAX_DELIVERY_ATTEMPTS - 1 }, async () => ({ success: false, error: 'Still down' }));
+
+    expect(mockNotificationDeliveryUpdate).toHaveBeenCalledWith({
+      where: { id: 'delivery-4' },
+      data: expect.objectContaining({ status: DeliveryStatus.FAILED, attempts: MAX_DELIVERY_ATTEMPTS, nextAttemptAt: null }),
+    });
+  });
+});
+
+describe('createDelivery', () => {
+  test('should report a delivery the alert already has on the channel as a duplicate', async () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockNotificationDeliveryCreate.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+    expect(await createDelivery('alert-1', DeliveryChannel.EMAIL)).toBe('duplicate');
+
+    mockNotificationDeliveryCreate.mockRejectedValueOnce(new Error('Connection lost'));
+    expect(await createDelivery('alert-1', DeliveryChannel.EMAIL)).toBeNull();
+    consoleWarnSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,105 @@
+import { prisma } from '@/lib/prisma';
+import { DeliveryChannel, DeliveryStatus, NotificationDelivery, User } from '@prisma/client';
+
+// Total attempts (including the first) before a failed delivery is given up on
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MINUTES = 5;
+const MAX_RETRY_DELAY_MINUTES = 6 * 60;
+
+// Outcome of a single send through a channel's provider
+export interface DeliveryResult {
+  success: boolean;
+  messageId?: string; // Provider message ID, if the provider returned one
+  error?: string;
+}
+
+/**
+ * Returns how long to wait before retrying a delivery that has failed `attempts` times:
+ * 5, 10, 20, 40... minutes, capped at 6 hours.
+ */
+export function getRetryDelayMinutes(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MINUTES * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MINUTES);
+}
+
+/**
+ * Works out which channels to notify a rule on: the rule's own channels, or the user's defaults.
+ * Channels the user hasn't set up are dropped (SMS needs a verified phone number, Telegram a linked
+ * chat, Discord a webhook URL); if nothing is left, email is used so the alert isn't lost.
+ */
+export function resolveDeliveryChannels(
+  ruleChannels: DeliveryChannel[],
+  user: Pick<User, 'defaultChannels' | 'phoneNumber' | 'phoneNumberVerified' | 'telegramChatId' | 'discordWebhookUrl'>
+): DeliveryChannel[] {
+  const requested = ruleChannels.length > 0 ? ruleChannels : user.defaultChannels;
+  const isConfigured: Partial<Record<DeliveryChannel, boolean>> = {
+    [DeliveryChannel.SMS]: Boolean(user.phoneNumber && user.phoneNumberVerified),
+    [DeliveryChannel.TELEGRAM]: Boolean(user.telegramChatId),
+    [DeliveryChannel.DISCORD]: Boolean(user.discordWebhookUrl),
+  };
+  const channels = requested.filter(channel => isConfigured[channel] ?? true);
+  return channels.length > 0 ? [...new Set(channels)] : [DeliveryChannel.EMAIL];
+}
+
+/**
+ * Creates the delivery record for an alert on one channel (and, for webhooks, one endpoint).
+ * @returns The new record; 'duplicate' if the alert already has one there (the notification
+ *   shouldn't be sent again); or null if it could not be saved (the notification should still be sent).
+ */
+export async function createDelivery(
+  alertId: string,
+  channel: DeliveryChannel,
+  webhookEndpointId: string | null = null
+): Promise<NotificationDelivery | 'duplicate' | null> {
+  try {
+    return await prisma.notificationDelivery.create({
+      data: { alertId, channel, webhookEndpointId, status: DeliveryStatus.QUEUED },
+    });
+  } catch (dbError) {
+    if (typeof dbError === 'object' && dbError !== null && 'code' in dbError && dbError.code === 'P2002') {
+      console.warn(`Notification Delivery: Alert ${alertId} already has a ${channel} delivery, not sending it again.`);
+      return 'duplicate';
+    }
+    console.error(`Notification Delivery: Failed to record ${channel} delivery for alert ${alertId}:`, dbError);
+    return null;
+  }
+}
+
+/**
+ * Runs one send attempt and records the outcome on the delivery record.
+ * Failed attempts are scheduled for a retry with exponential backoff until MAX_DELIVERY_ATTEMPTS is reached.
+ * @returns {Promise<boolean>} True if the notification was sent.
+ */
+export async function attemptDelivery(
+  delivery: Pick<NotificationDelivery, 'id' | 'attempts'>,
+  send: () => Promise<DeliveryResult>
+): Promise<boolean> {
+  let result: DeliveryResult;
+  try {
+    result = await send();
+  } catch (exception) {
+    result = { success: false, error: exception instanceof Error ? exception.message : 'Unknown exception' };
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  let nextAttemptAt: Date | null = null;
+  if (!result.success && attempts < MAX_DELIVERY_ATTEMPTS) {
+    nextAttemptAt = new Date(now.getTime() + getRetryDelayMinutes(attempts) * 60 * 1000);
+  }
+
+  try {
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: result.success
+        ? { status: DeliveryStatus.SENT, providerMessageId: result.messageId ?? null, error: null, attempts, lastAttemptAt: now, nextAttemptAt: null }
+        : { status: DeliveryStatus.FAILED, error: result.error ?? 'Unknown error', attempts, lastAttemptAt: now, nextAttemptAt },
+    });
+  } catch (dbError) {
+    console.error(`Notification Delivery: Failed to update delivery ${delivery.id}:`, dbError);
+  }
+
+  if (!result.success) {
+    console.warn(`Notification Delivery: Delivery ${delivery.id} failed (attempt ${attempts}/${MAX_DELIVERY_ATTEMPTS}): ${result.error}. ${nextAttemptAt ? `Retrying at ${nextAttemptAt.toISOString()}.` : 'Giving up.'}`);
+  }
+  return result.success;
+}
@@ -1,17 +1,70 @@
 import { Resend } from 'resend';
-import { NotificationRuleType } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NotificationRuleType, PortfolioRuleType, MovingAverageType, CrossDirection, QuoteCurrency, DeliveryChannel, DeliveryStatus, WebhookEndpoint, Prisma } from '@prisma/client';
+import { formatCompactAmount, formatPrice } from './currency';
+import { attemptDelivery, createDelivery, DeliveryResult } from './notificationDelivery';
+import { sendSms, truncateSms } from './notifications/sms';
+import { postWebhook, WebhookEvent } from './notifications/webhook';
+import { sendTelegramMessage } from './notifications/telegram';
+import { sendDiscordMessage } from './notifications/discord';
+import { describeCompositeCondition, formatRatio, parseStoredCondition, VOLUME_SPIKE_AVERAGE_DAYS } from './ruleConditions';
+
+// Deliveries still QUEUED after this long were interrupted before their first attempt
+const STALE_QUEUED_DELIVERY_MINUTES = 10;
+const RETRY_BATCH_SIZE = 50;
 
 // Interface matching the one from ruleEvaluator
 interface TriggeredRuleInfo {
-  ruleId: string;
+  alertId?: string; // Missing if the alert could not be recorded; delivery is then not logged
+  ruleId: string; // The PortfolioRule's ID for portfolio rules
+  trackedAssetId?: string; // Asset rules only
   userId: string;
-  assetSymbol: string;
+  assetSymbol: string; // Portfolio rules: the allocation rule's asset, or PORTFOLIO
   assetName: string;
-  ruleType: NotificationRuleType;
+  ruleType: NotificationRuleType | PortfolioRuleType;
   ruleValue: number;
-  triggeringPrice: number;
+  movingAverageType?: MovingAverageType | null;
+  crossDirection?: CrossDirection | null;
+  timeWindowHours?: number | null;
+  indicatorPeriod?: number | null;
+  peakPrice?: number | null; // Trailing stops: the peak the stop was measured from
+  compareAssetSymbol?: string | null; // Ratio rules: the asset the price is divided by
+  ratio?: number | null; // Ratio rules: the price ratio when the rule fired, if known
+  marketCap?: number | null; // Market cap and 24h volume at the triggering price point, if known
+  volume24h?: number | null;
+  allocationPercent?: number | null; // Allocation rules: the asset's share of the portfolio, if known
+  conditionSummary?: string; // Description of a compound or expression rule's conditions
+  quietTimeBreakthrough?: string | null; // Why the alert was sent during the user's quiet time
+  quoteCurrency: QuoteCurrency;
+  triggeringPrice: number; // Portfolio rules: the portfolio's total value
   userEmail: string;
-  userPhoneNumber?: string | null;
+  userPhoneNumber?: string | null; // Only set once verified
+  telegramChatId?: string | null;
+  discordWebhookUrl?: string | null;
+  channels: DeliveryChannel[];
+}
+
+// A recorded alert with everything needed to describe and re-send it
+export type StoredAlert = Prisma.TriggeredAlertGetPayload<{
+  include: {
+    rule: { include: { trackedAsset: { include: { asset: true; user: true } }; compareAsset: true } };
+    portfolioRule: { include: { user: true; asset: true } };
+  };
+}>;
+
+// Include for loading a StoredAlert
+export const storedAlertInclude = {
+  rule: { include: { trackedAsset: { include: { asset: true, user: true } }, compareAsset: true } },
+  portfolioRule: { include: { user: true, asset: true } },
+} satisfies Prisma.TriggeredAlertInclude;
+
+function isPortfolioRule(rule: TriggeredRuleInfo): boolean {
+  return rule.ruleType in PortfolioRuleType;
+}
+
+// What an alert is about, e.g. "Bitcoin (BTC)" or "Portfolio"
+function alertSubject(rule: TriggeredRuleInfo): string {
+  return isPortfolioRule(rule) ? rule.assetName : `${rule.assetName} (${rule.assetSymbol})`;
 }
 
 let resend: Resend | null = null;
@@ -26,40 +79,154 @@ function getResendClient(): Resend {
   return resend;
 }
 
-function formatPrice(price: number): string {
-    return price.toLocaleString(undefined, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 6 });
-}
-
 function formatRuleDescription(rule: TriggeredRuleInfo): string {
     const valueStr = rule.ruleType.includes('PERCENT') 
         ? `${rule.ruleValue}%` 
-        : formatPrice(rule.ruleValue);
+        : formatPrice(rule.ruleValue, rule.quoteCurrency);
     switch (rule.ruleType) {
       case 'PRICE_TARGET_ABOVE': return `Price went above ${valueStr}`;
       case 'PRICE_TARGET_BELOW': return `Price went below ${valueStr}`;
       case 'PERCENT_CHANGE_INCREASE': return `Increased by ${valueStr} or more`; // Simplified for alert text
       case 'PERCENT_CHANGE_DECREASE': return `Decreased by ${valueStr} or more`; // Simplified for alert text
+      case 'DRAWDOWN_FROM_HIGH': return `Fell ${rule.ruleValue}% or more from its ${rule.timeWindowHours}h high`;
+      case 'RALLY_FROM_LOW': return `Rose ${rule.ruleValue}% or more from its ${rule.timeWindowHours}h low`;
+      case 'MOVING_AVERAGE_CROSS': {
+        const direction = rule.crossDirection === 'BELOW' ? 'below' : 'above';
+        return `Price crossed ${direction} its ${rule.ruleValue}-period ${rule.movingAverageType ?? 'SMA'}`;
+      }
+      case 'RSI_CROSS':
+        return `RSI(${rule.indicatorPeriod}) crossed ${rule.crossDirection === 'BELOW' ? 'below' : 'above'} ${rule.ruleValue}`;
+      case 'BOLLINGER_BREAKOUT':
+        return rule.crossDirection === 'BELOW'
+          ? `Price closed below its lower Bollinger Band (${rule.indicatorPeriod}, ${rule.ruleValue}σ)`
+          : `Price closed above its upper Bollinger Band (${rule.indicatorPeriod}, ${rule.ruleValue}σ)`;
+      case 'TRAILING_STOP':
+        return `Price fell ${rule.ruleValue}% below its peak${rule.peakPrice ? ` of ${formatPrice(rule.peakPrice, rule.quoteCurrency)}` : ''}`;
+      case 'VOLUME_SPIKE':
+        return `24h volume reached ${rule.ruleValue}× its ${VOLUME_SPIKE_AVERAGE_DAYS}-day average${rule.volume24h ? ` (${formatCompactAmount(rule.volume24h, rule.quoteCurrency)})` : ''}`;
+      case 'MARKET_CAP_ABOVE':
+      case 'MARKET_CAP_BELOW': {
+        const direction = rule.ruleType === 'MARKET_CAP_ABOVE' ? 'above' : 'below';
+        const now = rule.marketCap ? ` (now ${formatCompactAmount(rule.marketCap, rule.quoteCurrency)})` : '';
+        return `Market cap went ${direction} ${formatCompactAmount(rule.ruleValue, rule.quoteCurrency)}${now}`;
+      }
+      case 'RATIO_ABOVE':
+      case 'RATIO_BELOW':
+      case 'RATIO_CHANGE_INCREASE':
+      case 'RATIO_CHANGE_DECREASE':
+        return formatRatioRuleDescription(rule);
+      case 'COMPOSITE': return rule.conditionSummary ? `Conditions met: ${rule.conditionSummary}` : 'Compound rule conditions met';
+      case 'EXPRESSION': return rule.conditionSummary ? `Condition met: ${rule.conditionSummary}` : 'Expression rule condition met';
+      case 'PORTFOLIO_VALUE_BELOW': return `Portfolio value went below ${valueStr}`;
+      case 'PORTFOLIO_CHANGE_DECREASE': return `Portfolio fell ${rule.ruleValue}% or more in ${rule.timeWindowHours}h`;
+      case 'PORTFOLIO_ALLOCATION_ABOVE': {
+        const now = rule.allocationPercent ? ` (now ${rule.allocationPercent.toFixed(1)}%)` : '';
+        return `${rule.assetSymbol} went above ${rule.ruleValue}% of the portfolio${now}`;
+      }
       default: return 'Rule triggered';
     }
 }
 
+// Describes a ratio rule, e.g. "ETH/BTC ratio went below 0.045 (now 0.0448)"
+function formatRatioRuleDescription(rule: TriggeredRuleInfo): string {
+    const pair = `${rule.assetSymbol}/${rule.compareAssetSymbol ?? '?'}`;
+    const now = rule.ratio ? ` (now ${formatRatio(rule.ratio)})` : '';
+    switch (rule.ruleType) {
+      case 'RATIO_ABOVE': return `${pair} ratio went above ${formatRatio(rule.ruleValue)}${now}`;
+      case 'RATIO_BELOW': return `${pair} ratio went below ${formatRatio(rule.ruleValue)}${now}`;
+      case 'RATIO_CHANGE_INCREASE': return `${rule.assetSymbol} outperformed ${rule.compareAssetSymbol ?? '?'} by ${rule.ruleValue}% or more in ${rule.timeWindowHours}h${now}`;
+      default: return `${rule.assetSymbol} underperformed ${rule.compareAssetSymbol ?? '?'} by ${rule.ruleValue}% or more in ${rule.timeWindowHours}h${now}`;
+    }
+}
+
+// Describes a compound rule's stored conditions, if it has any
+function conditionSummary(condition: unknown, currency: QuoteCurrency): string | undefined {
+    const parsed = condition ? parseStoredCondition(condition) : null;
+    return parsed ? describeCompositeCondition(parsed, currency) : undefined;
+}
+
+// Rebuilds the notification details of a recorded alert, for retries and digests
+function storedAlertToRuleInfo(alert: StoredAlert, channels: DeliveryChannel[]): TriggeredRuleInfo {
+    const { rule, portfolioRule } = alert;
+    if (!rule) {
+        if (!portfolioRule) {
+            throw new Error(`Triggered alert ${alert.id} has no rule`);
+        }
+        return {
+            alertId: alert.id,
+            ruleId: portfolioRule.id,
+            userId: portfolioRule.userId,
+            assetSymbol: portfolioRule.asset?.symbol.toUpperCase() ?? 'PORTFOLIO',
+            assetName: 'Portfolio',
+            ruleType: portfolioRule.type,
+            ruleValue: portfolioRule.value,
+            timeWindowHours: portfolioRule.timeWindowHours,
+            allocationPercent: alert.allocationPercent,
+            quietTimeBreakthrough: alert.quietTimeBreakthrough,
+            quoteCurrency: portfolioRule.quoteCurrency,
+            triggeringPrice: alert.triggeringPrice,
+            userEmail: portfolioRule.user.email,
+            userPhoneNumber: portfolioRule.user.phoneNumberVerified ? portfolioRule.user.phoneNumber : null,
+            telegramChatId: portfolioRule.user.telegramChatId,
+            discordWebhookUrl: portfolioRule.user.discordWebhookUrl,
+            channels,
+        };
+    }
+    return {
+        alertId: alert.id,
+        ruleId: rule.id,
+        trackedAssetId: rule.trackedAssetId,
+        userId: rule.trackedAsset.userId,
+        assetSymbol: rule.trackedAsset.asset.symbol.toUpperCase(),
+        assetName: rule.trackedAsset.asset.name,
+        ruleType: rule.type,
+        ruleValue: rule.value,
+        movingAverageType: rule.movingAverageType,
+        crossDirection: rule.crossDirection,
+        timeWindowHours: rule.timeWindowHours,
+        indicatorPeriod: rule.indicatorPeriod,
+        peakPrice: alert.peakPrice,
+        compareAssetSymbol: rule.compareAsset?.symbol.toUpperCase(),
+        ratio: alert.ratio,
+        marketCap: alert.marketCap,
+        volume24h: alert.volume24h,
+        conditionSummary: rule.expression ?? conditionSummary(rule.condition, rule.quoteCurrency),
+        quietTimeBreakthrough: alert.quietTimeBreakthrough,
+        quoteCurrency: rule.quoteCurrency,
+        triggeringPrice: alert.triggeringPrice,
+        userEmail: rule.trackedAsset.user.email,
+        userPhoneNumber: rule.trackedAsset.user.phoneNumberVerified ? rule.trackedAsset.user.phoneNumber : null,
+        telegramChatId: rule.trackedAsset.user.telegramChatId,
+        discordWebhookUrl: rule.trackedAsset.user.discordWebhookUrl,
+        channels,
+    };
+}
+
+/**
+ * Describes what a recorded alert's rule detected, e.g. "Price went below $60,000.00".
+ */
+export function describeStoredAlert(alert: StoredAlert): string {
+    return formatRuleDescription(storedAlertToRuleInfo(alert, []));
+}
+
 /**
  * Sends an email notification for a triggered rule.
  */
-export async function sendEmailNotification(triggeredInfo: TriggeredRuleInfo): Promise<{ success: boolean; error?: string }> {
+export async function sendEmailNotification(triggeredInfo: TriggeredRuleInfo): Promise<DeliveryResult> {
   const client = getResendClient();
   const fromAddress = process.env.EMAIL_FROM || 'alerts@dontlookatthechart.app'; // Use configured from address or a default
 
-  const subject = `DLATC Alert: ${triggeredInfo.assetName} (${triggeredInfo.assetSymbol}) Rule Triggered!`;
+  const subject = `DLATC Alert: ${alertSubject(triggeredInfo)} Rule Triggered!`;
   const ruleDescription = formatRuleDescription(triggeredInfo);
-  const currentPriceFormatted = formatPrice(triggeredInfo.triggeringPrice);
+  const currentPriceFormatted = formatPrice(triggeredInfo.triggeringPrice, triggeredInfo.quoteCurrency);
 
   const body = `
     <h2>Don't Look At The Chart Alert!</h2>
-    <p>Your alert rule for <strong>${triggeredInfo.assetName} (${triggeredInfo.assetSymbol})</strong> was triggered.</p>
+    <p>Your alert rule for <strong>${alertSubject(triggeredInfo)}</strong> was triggered.</p>
     <ul>
         <li><strong>Rule:</strong> ${ruleDescription}</li>
-        <li><strong>Current Price:</strong> ${currentPriceFormatted}</li>
+        <li><strong>${isPortfolioRule(triggeredInfo) ? 'Portfolio Value' : 'Current Price'}:</strong> ${currentPriceFormatted}</li>
+        ${triggeredInfo.quietTimeBreakthrough ? `<li><strong>Sent during quiet time:</strong> ${triggeredInfo.quietTimeBreakthrough}</li>` : ''}
     </ul>
     <p>Rule ID: ${triggeredInfo.ruleId}</p>
     <hr>
@@ -80,7 +247,7 @@ export async function sendEmailNotification(triggeredInfo: TriggeredRuleInfo): P
     }
 
     console.log(`Email notification sent successfully to ${triggeredInfo.userEmail} for rule ${triggeredInfo.ruleId}. Message ID: ${data?.id}`);
-    return { success: true };
+    return { success: true, messageId: data?.id };
 
   } catch (exception) {
     console.error(`Exception sending email to ${triggeredInfo.userEmail} for rule ${triggeredInfo.ruleId}:`, exception);
@@ -89,8 +256,184 @@ export async function sendEmailNotification(triggeredInfo: TriggeredRuleInfo): P
 }
 
 /**
- * Sends notifications for a list of triggered rules.
- * Currently only sends email.
+ * Formats a triggered rule as a single SMS (at most 160 characters).
+ */
+export function formatSmsBody(triggeredInfo: TriggeredRuleInfo): string {
+  const ruleDescription = formatRuleDescription(triggeredInfo);
+  const currentPrice = formatPrice(triggeredInfo.triggeringPrice, triggeredInfo.quoteCurrency);
+  const breakthrough = triggeredInfo.quietTimeBreakthrough ? ` (Quiet time: ${triggeredInfo.quietTimeBreakthrough})` : '';
+  const subject = isPortfolioRule(triggeredInfo) ? triggeredInfo.assetName : triggeredInfo.assetSymbol;
+  return truncateSms(`DLATC ${subject}: ${ruleDescription}. Now ${currentPrice}.${breakthrough}`);
+}
+
+/**
+ * Sends an SMS notification for a triggered rule to the user's verified phone number.
+ */
+export async function sendSmsNotification(triggeredInfo: TriggeredRuleInfo): Promise<DeliveryResult> {
+  if (!triggeredInfo.userPhoneNumber) {
+    return { success: false, error: 'User has no verified phone number' };
+  }
+  try {
+    const messageId = await sendSms(triggeredInfo.userPhoneNumber, formatSmsBody(triggeredInfo));
+    return { success: true, messageId };
+  } catch (exception) {
+    return { success: false, error: exception instanceof Error ? exception.message : 'Unknown exception' };
+  }
+}
+
+/**
+ * Formats a triggered rule as a chat message for Telegram and Discord.
+ */
+export function formatChatMessage(triggeredInfo: TriggeredRuleInfo): string {
+  const ruleDescription = formatRuleDescription(triggeredInfo);
+  const currentPrice = formatPrice(triggeredInfo.triggeringPrice, triggeredInfo.quoteCurrency);
+  const breakthrough = triggeredInfo.quietTimeBreakthrough ? `\nSent during quiet time: ${triggeredInfo.quietTimeBreakthrough}` : '';
+  return `DLATC Alert: ${alertSubject(triggeredInfo)}\n${ruleDescription}\n${isPortfolioRule(triggeredInfo) ? 'Portfolio value' : 'Current price'}: ${currentPrice}${breakthrough}`;
+}
+
+/**
+ * Sends a Telegram notification for a triggered rule to the user's linked chat.
+ */
+export async function sendTelegramNotification(triggeredInfo: TriggeredRuleInfo): Promise<DeliveryResult> {
+  if (!triggeredInfo.telegramChatId) {
+    return { success: false, error: 'User has not linked a Telegram chat' };
+  }
+  try {
+    const messageId = await sendTelegramMessage(triggeredInfo.telegramChatId, formatChatMessage(triggeredInfo));
+    return { success: true, messageId };
+  } catch (exception) {
+    return { success: false, error: exception instanceof Error ? exception.message : 'Unknown exception' };
+  }
+}
+
+/**
+ * Sends a Discord notification for a triggered rule to the user's incoming webhook.
+ */
+export async function sendDiscordNotification(triggeredInfo: TriggeredRuleInfo): Promise<DeliveryResult> {
+  if (!triggeredInfo.discordWebhookUrl) {
+    return { success: false, error: 'User has no Discord webhook URL' };
+  }
+  try {
+    const messageId = await sendDiscordMessage(triggeredInfo.discordWebhookUrl, formatChatMessage(triggeredInfo));
+    return { success: true, messageId: messageId || undefined };
+  } catch (exception) {
+    return { success: false, error: exception instanceof Error ? exception.message : 'Unknown exception' };
+  }
+}
+
+/**
+ * Builds the webhook event for a triggered rule. Contact details and channel choices are left out.
+ */
+export function buildAlertWebhookEvent(triggeredInfo: TriggeredRuleInfo, idempotencyKey: string): WebhookEvent {
+  return {
+    id: idempotencyKey,
+    type: 'alert.triggered',
+    createdAt: new Date().toISOString(),
+    data: {
+      alertId: triggeredInfo.alertId,
+      ruleId: triggeredInfo.ruleId,
+      trackedAssetId: triggeredInfo.trackedAssetId,
+      userId: triggeredInfo.userId,
+      assetSymbol: triggeredInfo.assetSymbol,
+      assetName: triggeredInfo.assetName,
+      ruleType: triggeredInfo.ruleType,
+      ruleValue: triggeredInfo.ruleValue,
+      movingAverageType: triggeredInfo.movingAverageType,
+      crossDirection: triggeredInfo.crossDirection,
+      timeWindowHours: triggeredInfo.timeWindowHours,
+      indicatorPeriod: triggeredInfo.indicatorPeriod,
+      peakPrice: triggeredInfo.peakPrice,
+      compareAssetSymbol: triggeredInfo.compareAssetSymbol,
+      ratio: triggeredInfo.ratio,
+      marketCap: triggeredInfo.marketCap,
+      volume24h: triggeredInfo.volume24h,
+      allocationPercent: triggeredInfo.allocationPercent,
+      conditionSummary: triggeredInfo.conditionSummary,
+      quietTimeBreakthrough: triggeredInfo.quietTimeBreakthrough,
+      quoteCurrency: triggeredInfo.quoteCurrency,
+      triggeringPrice: triggeredInfo.triggeringPrice,
+      description: formatRuleDescription(triggeredInfo),
+    },
+  };
+}
+
+/**
+ * POSTs a triggered rule to one of the user's webhook endpoints.
+ * @param idempotencyKey The delivery ID, so retries of the same delivery share a key.
+ */
+export async function sendWebhookNotification(
+  triggeredInfo: TriggeredRuleInfo,
+  endpoint: Pick<WebhookEndpoint, 'id' | 'url' | 'secret'>,
+  idempotencyKey: string
+): Promise<DeliveryResult> {
+  try {
+    const status = await postWebhook(endpoint, buildAlertWebhookEvent(triggeredInfo, idempotencyKey), idempotencyKey);
+    console.log(`Webhook notification sent to endpoint ${endpoint.id} for rule ${triggeredInfo.ruleId} (HTTP ${status}).`);
+    return { success: true };
+  } catch (exception) {
+    console.error(`Exception sending webhook to endpoint ${endpoint.id} for rule ${triggeredInfo.ruleId}:`, exception);
+    return { success: false, error: exception instanceof Error ? exception.message : 'Unknown exception' };
+  }
+}
+
+// Senders for each single-destination delivery channel. Webhooks fan out to every endpoint instead.
+const channelSenders: Record<Exclude<DeliveryChannel, typeof DeliveryChannel.WEBHOOK>, (info: TriggeredRuleInfo) => Promise<DeliveryResult>> = {
+  [DeliveryChannel.EMAIL]: sendEmailNotification,
+  [DeliveryChannel.SMS]: sendSmsNotification,
+  [DeliveryChannel.TELEGRAM]: sendTelegramNotification,
+  [DeliveryChannel.DISCORD]: sendDiscordNotification,
+};
+
+/**
+ * Runs a send, recording the attempt in the delivery log when the alert was recorded.
+ * @returns {Promise<boolean>} True if the notification was sent.
+ */
+async function sendAndRecord(
+  ruleInfo: TriggeredRuleInfo,
+  channel: DeliveryChannel,
+  send: (idempotencyKey: string) => Promise<DeliveryResult>,
+  webhookEndpointId: string | null = null
+): Promise<boolean> {
+  const delivery = ruleInfo.alertId ? await createDelivery(ruleInfo.alertId, channel, webhookEndpointId) : null;
+  if (delivery === 'duplicate') {
+    return false;
+  }
+  if (!delivery) {
+    const fallbackKey = `${ruleInfo.alertId ?? ruleInfo.ruleId}:${channel}${webhookEndpointId ? `:${webhookEndpointId}` : ''}`;
+    const result = await send(fallbackKey).catch((): DeliveryResult => ({ success: false }));
+    return result.success;
+  }
+  return attemptDelivery(delivery, () => send(delivery.id));
+}
+
+/**
+ * Sends one alert through one channel. For webhooks, every enabled endpoint of the user gets its own delivery.
+ * @returns {Promise<boolean>} True if the notification was sent (to every endpoint, for webhooks).
+ */
+async function deliver(ruleInfo: TriggeredRuleInfo, channel: DeliveryChannel): Promise<boolean> {
+  if (channel !== DeliveryChannel.WEBHOOK) {
+    return sendAndRecord(ruleInfo, channel, () => channelSenders[channel](ruleInfo));
+  }
+
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { userId: ruleInfo.userId, isEnabled: true },
+  });
+  if (endpoints.length === 0) {
+    console.warn(`Notification Sender: Rule ${ruleInfo.ruleId} uses webhooks but user ${ruleInfo.userId} has no enabled endpoints.`);
+    return false;
+  }
+
+  let allSent = true;
+  for (const endpoint of endpoints) {
+    const sent = await sendAndRecord(ruleInfo, channel, (key) => sendWebhookNotification(ruleInfo, endpoint, key), endpoint.id);
+    allSent = allSent && sent;
+  }
+  return allSent;
+}
+
+/**
+ * Sends notifications for a list of triggered rules on each rule's channels.
+ * Each send is recorded as a NotificationDelivery so failures can be retried.
  */
 export async function sendNotifications(triggeredRules: TriggeredRuleInfo[]) {
     console.log(`Notification Sender: Processing ${triggeredRules.length} triggered rules.`);
@@ -99,14 +442,71 @@ export async function sendNotifications(triggeredRules: TriggeredRuleInfo[]) {
 
     // Consider sending in parallel with Promise.allSettled for performance
     for (const ruleInfo of triggeredRules) {
-        // TODO: Add check for user preferences (email/sms enabled, quiet time)
-        const emailResult = await sendEmailNotification(ruleInfo);
-        if (emailResult.success) {
-            successCount++;
-        } else {
-            failureCount++;
+        // Channels were resolved from user preferences (and quiet time applied) by the rule evaluator
+        for (const channel of ruleInfo.channels) {
+            const sent = await deliver(ruleInfo, channel);
+            if (sent) {
+                successCount++;
+            } else {
+                failureCount++;
+            }
         }
-        // TODO: Add SMS sending logic here if ruleInfo.userPhoneNumber exists
     }
     console.log(`Notification Sender: Finished processing. Success: ${successCount}, Failed: ${failureCount}`);
-} 
\ No newline at end of file
+}
+
+/**
+ * Re-sends failed deliveries whose backoff has elapsed, plus deliveries left QUEUED by an interrupted run.
+ * Designed to be called from the price-fetching cron job.
+ * @returns {Promise<number>} The number of deliveries retried.
+ */
+export async function retryFailedDeliveries(): Promise<number> {
+    const now = new Date();
+    const staleQueuedThreshold = new Date(now.getTime() - STALE_QUEUED_DELIVERY_MINUTES * 60 * 1000);
+
+    const dueDeliveries = await prisma.notificationDelivery.findMany({
+        where: {
+            OR: [
+                { status: DeliveryStatus.FAILED, nextAttemptAt: { lte: now } },
+                { status: DeliveryStatus.QUEUED, createdAt: { lt: staleQueuedThreshold } },
+            ],
+        },
+        include: {
+            alert: { include: storedAlertInclude },
+            webhookEndpoint: true,
+        },
+        orderBy: { createdAt: 'asc' },
+        take: RETRY_BATCH_SIZE,
+    });
+
+    if (dueDeliveries.length === 0) {
+        return 0;
+    }
+    console.log(`Notification Sender: Retrying ${dueDeliveries.length} deliveries.`);
+
+    let successCount = 0;
+    for (const delivery of dueDeliveries) {
+        const ruleInfo = storedAlertToRuleInfo(delivery.alert, [delivery.channel]);
+        let send: () => Promise<DeliveryResult>;
+        if (delivery.channel === DeliveryChannel.WEBHOOK) {
+            const endpoint = delivery.webhookEndpoint;
+            if (!endpoint?.isEnabled) {
+                // The endpoint was removed or disabled since the first attempt; stop retrying
+                await prisma.notificationDelivery.update({
+                    where: { id: delivery.id },
+                    data: { status: DeliveryStatus.FAILED, error: 'Webhook endpoint was removed or disabled', nextAttemptAt: null },
+                });
+                continue;
+            }
+            send = () => sendWebhookNotification(ruleInfo, endpoint, delivery.id);
+        } else {
+            const channel = delivery.channel;
+            send = () => channelSenders[channel](ruleInfo);
+        }
+        if (await attemptDelivery(delivery, send)) {
+            successCount++;
+        }
+    }
+    console.log(`Notification Sender: Retry pass finished. Sent: ${successCount}, Still failing: ${dueDeliveries.length - successCount}`);
+    return dueDeliveries.length;
+}
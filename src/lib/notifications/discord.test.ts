@@ -0,0 +1,61 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createDiscordClient, discordWebhookUrlRegex } from './discord';
+
+describe('discordWebhookUrlRegex', () => {
+  test('should accept Discord webhook URLs', () => {
+    expect(discordWebhookUrlRegex.test('https://discord.com/api/webhooks/123456789/abc_DEF-123')).toBe(true);
+    expect(discordWebhookUrlRegex.test('https://discordapp.com/api/webhooks/123456789/abc')).toBe(true);
+  });
+
+  test('should reject other URLs', () => {
+    expect(discordWebhookUrlRegex.test('http://discord.com/api/webhooks/123456789/abc')).toBe(false);
+    expect(discordWebhookUrlRegex.test('https://example.com/api/webhooks/123456789/abc')).toBe(false);
+  });
+});
+
+describe('createDiscordClient', () => {
+  // Local stand-in for a Discord incoming webhook
+  let server: http.Server;
+  let webhookUrl: string;
+  const requests: { url?: string; body: Record<string, unknown> }[] = [];
+  let nextResponse: { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => { data += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, body: JSON.parse(data) });
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(nextResponse.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/1/token`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  test('should post the message content and return the message ID', async () => {
+    nextResponse = { status: 200, body: { id: '987654321' } };
+
+    const messageId = await createDiscordClient().sendMessage(webhookUrl, 'ETH went below $3,000.00');
+
+    expect(messageId).toBe('987654321');
+    expect(requests[0].url).toBe('/api/webhooks/1/token?wait=true');
+    expect(requests[0].body).toEqual(expect.objectContaining({ content: 'ETH went below $3,000.00', allowed_mentions: { parse: [] } }));
+  });
+
+  test('should reject on an error response', async () => {
+    nextResponse = { status: 404, body: { message: 'Unknown Webhook' } };
+
+    await expect(createDiscordClient().sendMessage(webhookUrl, 'Hello')).rejects.toThrow('HTTP 404');
+  });
+});
@@ -0,0 +1,72 @@
+// Discord message content can be up to 2000 characters
+export const DISCORD_MAX_LENGTH = 2000;
+const DISCORD_TIMEOUT_MS = 10 * 1000;
+
+// Incoming webhook URLs look like https://discord.com/api/webhooks/<id>/<token>
+export const discordWebhookUrlRegex = /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+/**
+ * Something that can post to a Discord incoming webhook.
+ * The HTTP client below in production; tests can post to a local stub server instead.
+ */
+export interface DiscordClient {
+  /** Posts a message and resolves with Discord's message ID. Rejects on failure. */
+  sendMessage(webhookUrl: string, content: string): Promise<string>;
+}
+
+let client: DiscordClient | null = null;
+
+/**
+ * Creates a client that posts to Discord incoming webhooks.
+ */
+export function createDiscordClient(): DiscordClient {
+  return {
+    async sendMessage(webhookUrl: string, content: string): Promise<string> {
+      // wait=true makes Discord return the created message, so we get its ID
+      const response = await fetch(`${webhookUrl}?wait=true`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: content.slice(0, DISCORD_MAX_LENGTH), allowed_mentions: { parse: [] } }),
+        signal: AbortSignal.timeout(DISCORD_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(`Discord webhook error (HTTP ${response.status})${errorText ? `: ${errorText}` : ''}`);
+      }
+      const result = await response.json().catch(() => null);
+      return String(result?.id ?? '');
+    },
+  };
+}
+
+/**
+ * Returns the Discord client.
+ */
+export function getDiscordClient(): DiscordClient {
+  if (!client) {
+    client = createDiscordClient();
+  }
+  return client;
+}
+
+/**
+ * Replaces the Discord client, e.g. in tests. Pass null to go back to the default client.
+ */
+export function setDiscordClient(discordClient: DiscordClient | null): void {
+  client = discordClient;
+}
+
+/**
+ * Posts a message to a Discord webhook using the configured client.
+ * @returns Promise resolving with the message ID on success, or rejecting on error.
+ */
+export async function sendDiscordMessage(webhookUrl: string, content: string): Promise<string> {
+  try {
+    const messageId = await getDiscordClient().sendMessage(webhookUrl, content);
+    console.log(`Discord message sent successfully. ID: ${messageId}`);
+    return messageId;
+  } catch (error) {
+    console.error('Error sending Discord message:', error);
+    throw error;
+  }
+}
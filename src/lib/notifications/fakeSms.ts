@@ -0,0 +1,43 @@
+import type { SmsClient } from './sms';
+
+export interface FakeSmsMessage {
+  id: string;
+  to: string;
+  body: string;
+  sentAt: Date;
+}
+
+export interface FakeSmsClient extends SmsClient {
+  /** Messages "sent" so far, oldest first. */
+  messages: FakeSmsMessage[];
+  /** Makes subsequent sends fail with the given error, or succeed again when passed null. */
+  failWith(error: Error | null): void;
+}
+
+/**
+ * Creates an SMS client that keeps messages in memory and logs them instead of calling Twilio.
+ */
+export function createFakeSmsClient(): FakeSmsClient {
+  let nextId = 1;
+  let failure: Error | null = null;
+  const messages: FakeSmsMessage[] = [];
+
+  return {
+    name: 'fake',
+    messages,
+
+    async sendMessage(to: string, body: string): Promise<string> {
+      if (failure) {
+        throw failure;
+      }
+      const message = { id: `fake-sms-${nextId++}`, to, body, sentAt: new Date() };
+      messages.push(message);
+      console.log(`Fake SMS to ${to}: ${body}`);
+      return message.id;
+    },
+
+    failWith(error: Error | null) {
+      failure = error;
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { createFakeSmsClient } from './fakeSms';
+import { measureSms, sendSms, setSmsClient, SMS_MAX_LENGTH, truncateSms, UCS2_SMS_MAX_LENGTH } from './sms';
+
+describe('truncateSms', () => {
+  test('should leave short messages unchanged', () => {
+    expect(truncateSms('BTC crossed above $70,000.00')).toBe('BTC crossed above $70,000.00');
+  });
+
+  test('should cut long messages to a single SMS', () => {
+    const truncated = truncateSms('x'.repeat(200));
+    expect(truncated).toHaveLength(SMS_MAX_LENGTH);
+    expect(truncated.endsWith('...')).toBe(true);
+  });
+
+  test('should replace characters GSM-7 lacks instead of switching to UCS-2', () => {
+    const truncated = truncateSms(`DLATC BTC: 24h volume reached 3× its 30-day average, above its Bollinger Band (20, 2σ). ${'x'.repeat(100)}`);
+    expect(truncated).toContain('3x its');
+    expect(truncated).toContain('2sd)');
+    expect(measureSms(truncated)).toEqual({ length: SMS_MAX_LENGTH, maxLength: SMS_MAX_LENGTH });
+  });
+
+  test('should count GSM-7 extension characters twice', () => {
+    expect(measureSms('Now €61,200.00')).toEqual({ length: 15, maxLength: SMS_MAX_LENGTH });
+    const truncated = truncateSms('€'.repeat(100));
+    expect(measureSms(truncated).length).toBeLessThanOrEqual(SMS_MAX_LENGTH);
+    expect(truncated).toHaveLength(78 + 3);
+  });
+
+  test('should fit messages that need UCS-2 into 70 characters', () => {
+    const truncated = truncateSms(`BTC 🚀 ${'x'.repeat(100)}`);
+    expect(measureSms(truncated)).toEqual({ length: UCS2_SMS_MAX_LENGTH, maxLength: UCS2_SMS_MAX_LENGTH });
+  });
+});
+
+describe('sendSms', () => {
+  const fakeClient = createFakeSmsClient();
+
+  beforeAll(() => {
+    setSmsClient(fakeClient);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    setSmsClient(null);
+    jest.restoreAllMocks();
+  });
+
+  test('should send through the configured client and return the message ID', async () => {
+    const messageId = await sendSms('+15551234567', 'Hello');
+
+    expect(messageId).toBe(fakeClient.messages[0].id);
+    expect(fakeClient.messages[0]).toEqual(expect.objectContaining({ to: '+15551234567', body: 'Hello' }));
+  });
+
+  test('should reject when the client fails', async () => {
+    fakeClient.failWith(new Error('Carrier rejected message'));
+
+    await expect(sendSms('+15551234567', 'Hello')).rejects.toThrow('Carrier rejected message');
+    fakeClient.failWith(null);
+  });
+});
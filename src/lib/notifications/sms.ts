@@ -1,74 +1,149 @@
-// NOTE: SMS integration is currently ON HOLD.
-// A paid Twilio account with a verified phone number is required for full functionality.
-// This feature will be revisited and fully integrated after the initial application deployment.
-
 import twilio from 'twilio';
+import { createFakeSmsClient } from './fakeSms';
+
+// Single-segment SMS length in GSM-7 characters; any character outside GSM-7 switches the whole
+// message to UCS-2, which fits 70
+export const SMS_MAX_LENGTH = 160;
+export const UCS2_SMS_MAX_LENGTH = 70;
+
+// GSM 03.38 basic character set, and the extension table (each of those takes two characters' room)
+const GSM7_BASIC = new Set('@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà');
+const GSM7_EXTENSION = new Set('^{}\\[~]|€\f');
 
-// Initialize Twilio client
-// Ensure TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, and TWILIO_PHONE_NUMBER are set in your environment variables (.env.local)
-const accountSid = process.env.TWILIO_ACCOUNT_SID;
-const authToken = process.env.TWILIO_AUTH_TOKEN;
-const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
+// ASCII stand-ins for characters our alert texts use that GSM-7 lacks
+const GSM7_REPLACEMENTS: Record<string, string> = {
+  '×': 'x',
+  'σ': 'sd',
+  '\u00a0': ' ', // No-break spaces from number formatting
+  '\u202f': ' ',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+};
 
-// Basic validation
-if (!accountSid || !authToken || !twilioPhoneNumber) {
-  console.error('Twilio environment variables (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER) are not set.');
-  // In a real app, you might throw an error or have a more robust configuration check
+/**
+ * Something that can send a text message.
+ * Twilio in production; a local fake (see fakeSms.ts) in tests and offline development.
+ */
+export interface SmsClient {
+  name: string;
+  /** Sends a message and resolves with the provider's message ID. Rejects on failure. */
+  sendMessage(to: string, body: string): Promise<string>;
 }
 
-// Only initialize client if credentials are provided
-const client = accountSid && authToken ? twilio(accountSid, authToken) : null;
+let client: SmsClient | null = null;
 
 /**
- * Sends an SMS message using Twilio.
- * @param to The recipient's phone number (E.164 format recommended, e.g., +15551234567).
- * @param body The text message body.
- * @returns Promise resolving with the message SID on success, or rejecting on error.
+ * Creates a client for the Twilio API.
+ * Requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER.
  */
-export async function sendSms(to: string, body: string): Promise<string | undefined> {
+export function createTwilioSmsClient(): SmsClient {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
+  if (!accountSid || !authToken || !twilioPhoneNumber) {
+    throw new Error('Twilio environment variables (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER) are not set.');
+  }
+  const twilioClient = twilio(accountSid, authToken);
+
+  return {
+    name: 'twilio',
+    async sendMessage(to: string, body: string): Promise<string> {
+      const message = await twilioClient.messages.create({
+        body: body,
+        from: twilioPhoneNumber,
+        to: to,
+      });
+      return message.sid;
+    },
+  };
+}
+
+/**
+ * Returns the SMS client selected by SMS_PROVIDER ("twilio" by default, or "fake").
+ */
+export function getSmsClient(): SmsClient {
   if (!client) {
-    console.error('Twilio client not initialized. Check environment variables.');
-    // Potentially return a specific error or status
-    return undefined; // Or throw new Error('Twilio client not initialized');
+    client = process.env.SMS_PROVIDER === 'fake' ? createFakeSmsClient() : createTwilioSmsClient();
   }
+  return client;
+}
+
+/**
+ * Replaces the SMS client, e.g. with a fake in tests. Pass null to go back to the configured client.
+ */
+export function setSmsClient(smsClient: SmsClient | null): void {
+  client = smsClient;
+}
 
-  if (!twilioPhoneNumber) {
-     console.error('Twilio phone number not configured.');
-     return undefined; // Or throw new Error('Twilio phone number not configured');
+/**
+ * Checks whether a message can be sent in GSM-7 encoding.
+ */
+export function isGsm7(body: string): boolean {
+  return [...body].every(char => GSM7_BASIC.has(char) || GSM7_EXTENSION.has(char));
+}
+
+// Room a character takes in a message of the given encoding (UCS-2 counts UTF-16 code units)
+function encodedLength(char: string, gsm7: boolean): number {
+  if (!gsm7) return char.length;
+  return GSM7_EXTENSION.has(char) ? 2 : 1;
+}
+
+/**
+ * Measures a message as the carrier does: GSM-7 characters (extension characters count twice),
+ * or UTF-16 code units if it needs UCS-2.
+ * @returns The length, and the most that fits in one SMS in that encoding.
+ */
+export function measureSms(body: string): { length: number; maxLength: number } {
+  const gsm7 = isGsm7(body);
+  return {
+    length: [...body].reduce((sum, char) => sum + encodedLength(char, gsm7), 0),
+    maxLength: gsm7 ? SMS_MAX_LENGTH : UCS2_SMS_MAX_LENGTH,
+  };
+}
+
+/**
+ * Shortens a message to fit a single SMS, ending it with "..." if it had to be cut. Characters
+ * with a GSM-7 stand-in (×, σ, typographic quotes and dashes) are replaced first, so they don't
+ * force the shorter UCS-2 limit.
+ */
+export function truncateSms(body: string): string {
+  const text = [...body].map(char => GSM7_REPLACEMENTS[char] ?? char).join('');
+  const { length, maxLength } = measureSms(text);
+  if (length <= maxLength) {
+    return text;
   }
 
-  try {
-    const message = await client.messages.create({
-      body: body,
-      from: twilioPhoneNumber,
-      to: to,
-    });
-    console.log(`SMS sent successfully to ${to}. SID: ${message.sid}`);
-    return message.sid;
-  } catch (error) {
-    console.error(`Error sending SMS to ${to}:`, error);
-    // Consider more specific error handling or logging
-    // Re-throw the error or return an indicator of failure
-    throw error; // Or return undefined / null / specific error object
+  const gsm7 = isGsm7(text);
+  let truncated = '';
+  let truncatedLength = 0;
+  for (const char of text) {
+    const charLength = encodedLength(char, gsm7);
+    if (truncatedLength + charLength > maxLength - 3) break;
+    truncated += char;
+    truncatedLength += charLength;
   }
+  return `${truncated.trimEnd()}...`;
 }
 
-// Example usage (optional, for testing)
-/*
-async function testSendSms() {
-  const testPhoneNumber = process.env.TEST_PHONE_NUMBER; // Add a test number to your .env.local
-  if (testPhoneNumber) {
-    try {
-      await sendSms(testPhoneNumber, "Hello from DLATC! This is a test message.");
-      console.log("Test SMS function executed.");
-    } catch (err) {
-      console.error("Test SMS failed:", err);
-    }
-  } else {
-    console.warn("TEST_PHONE_NUMBER not set in .env.local, skipping test SMS.");
+/**
+ * Sends an SMS message using the configured client.
+ * @param to The recipient's phone number (E.164 format recommended, e.g., +15551234567).
+ * @param body The text message body.
+ * @returns Promise resolving with the message ID on success, or rejecting on error.
+ */
+export async function sendSms(to: string, body: string): Promise<string> {
+  const smsClient = getSmsClient();
+  try {
+    const messageId = await smsClient.sendMessage(to, body);
+    console.log(`SMS sent successfully to ${to} via ${smsClient.name}. ID: ${messageId}`);
+    return messageId;
+  } catch (error) {
+    console.error(`Error sending SMS to ${to}:`, error);
+    throw error;
   }
 }
-
-// Uncomment the line below to run the test when this module is loaded (use with caution)
-// testSendSms();
-*/ 
\ No newline at end of file
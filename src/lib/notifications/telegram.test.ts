@@ -0,0 +1,70 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createTelegramClient, generateTelegramLinkCode, parseTelegramLinkCode } from './telegram';
+
+describe('Telegram link codes', () => {
+  test('should generate 8-character codes without ambiguous characters', () => {
+    const code = generateTelegramLinkCode();
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+  });
+
+  test('should accept the code from the deep link or on its own', () => {
+    expect(parseTelegramLinkCode('/start ABCD2345')).toBe('ABCD2345');
+    expect(parseTelegramLinkCode('/start@dlatc_bot ABCD2345')).toBe('ABCD2345');
+    expect(parseTelegramLinkCode(' abcd2345 ')).toBe('ABCD2345');
+  });
+
+  test('should ignore other messages', () => {
+    expect(parseTelegramLinkCode('/start')).toBeNull();
+    expect(parseTelegramLinkCode('hello there')).toBeNull();
+    expect(parseTelegramLinkCode(undefined)).toBeNull();
+  });
+});
+
+describe('createTelegramClient', () => {
+  // Local stand-in for api.telegram.org
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: { url?: string; body: Record<string, unknown> }[] = [];
+  let nextResponse: { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => { data += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, body: JSON.parse(data) });
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(nextResponse.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  test('should call sendMessage on the bot API and return the message ID', async () => {
+    nextResponse = { status: 200, body: { ok: true, result: { message_id: 42 } } };
+    const client = createTelegramClient('test-token', baseUrl);
+
+    const messageId = await client.sendMessage('12345', 'BTC went above $70,000.00');
+
+    expect(messageId).toBe('42');
+    expect(requests[0].url).toBe('/bottest-token/sendMessage');
+    expect(requests[0].body).toEqual(expect.objectContaining({ chat_id: '12345', text: 'BTC went above $70,000.00' }));
+  });
+
+  test('should reject with the API error description', async () => {
+    nextResponse = { status: 403, body: { ok: false, description: 'Forbidden: bot was blocked by the user' } };
+    const client = createTelegramClient('test-token', baseUrl);
+
+    await expect(client.sendMessage('12345', 'Hello')).rejects.toThrow('bot was blocked by the user');
+  });
+});
@@ -0,0 +1,94 @@
+import { randomInt } from 'crypto';
+
+// Telegram messages can be up to 4096 characters
+export const TELEGRAM_MAX_LENGTH = 4096;
+const TELEGRAM_TIMEOUT_MS = 10 * 1000;
+
+export const TELEGRAM_LINK_CODE_TTL_MINUTES = 15;
+// Link code characters, leaving out ones that are easy to mix up (0/O, 1/I)
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const LINK_CODE_LENGTH = 8;
+
+/**
+ * Something that can talk to the Telegram Bot API.
+ * The HTTP client below in production; tests point it at a local stub server via the API base URL.
+ */
+export interface TelegramClient {
+  /** Sends a text message to a chat and resolves with Telegram's message ID. Rejects on failure. */
+  sendMessage(chatId: string, text: string): Promise<string>;
+}
+
+let client: TelegramClient | null = null;
+
+/**
+ * Creates a client for the Telegram Bot API.
+ * @param apiBaseUrl Defaults to https://api.telegram.org; override to use a stub server.
+ */
+export function createTelegramClient(token: string, apiBaseUrl: string = 'https://api.telegram.org'): TelegramClient {
+  return {
+    async sendMessage(chatId: string, text: string): Promise<string> {
+      const response = await fetch(`${apiBaseUrl}/bot${token}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: chatId, text: text.slice(0, TELEGRAM_MAX_LENGTH), disable_web_page_preview: true }),
+        signal: AbortSignal.timeout(TELEGRAM_TIMEOUT_MS),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.ok) {
+        throw new Error(`Telegram API error (HTTP ${response.status}): ${result?.description ?? 'Unknown error'}`);
+      }
+      return String(result.result.message_id);
+    },
+  };
+}
+
+/**
+ * Returns the Telegram client configured by TELEGRAM_BOT_TOKEN (and optionally TELEGRAM_API_BASE_URL).
+ */
+export function getTelegramClient(): TelegramClient {
+  if (!client) {
+    const token = process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) {
+      throw new Error('TELEGRAM_BOT_TOKEN environment variable is not set.');
+    }
+    client = createTelegramClient(token, process.env.TELEGRAM_API_BASE_URL || undefined);
+  }
+  return client;
+}
+
+/**
+ * Replaces the Telegram client, e.g. in tests. Pass null to go back to the configured client.
+ */
+export function setTelegramClient(telegramClient: TelegramClient | null): void {
+  client = telegramClient;
+}
+
+/**
+ * Sends a Telegram message using the configured client.
+ * @returns Promise resolving with the message ID on success, or rejecting on error.
+ */
+export async function sendTelegramMessage(chatId: string, text: string): Promise<string> {
+  try {
+    const messageId = await getTelegramClient().sendMessage(chatId, text);
+    console.log(`Telegram message sent successfully to chat ${chatId}. ID: ${messageId}`);
+    return messageId;
+  } catch (error) {
+    console.error(`Error sending Telegram message to chat ${chatId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Generates a one-time code the user sends to the bot to link their chat.
+ */
+export function generateTelegramLinkCode(): string {
+  return Array.from({ length: LINK_CODE_LENGTH }, () => LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)]).join('');
+}
+
+/**
+ * Pulls the link code out of a message sent to the bot: either "/start CODE" (from the deep link) or just "CODE".
+ */
+export function parseTelegramLinkCode(text: string | undefined): string | null {
+  const match = text?.trim().match(/^(?:\/start(?:@\w+)?\s+)?([A-Za-z0-9]{8})$/);
+  return match ? match[1].toUpperCase() : null;
+}
@@ -0,0 +1,151 @@
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+jest.mock('https', () => ({ request: jest.fn() }));
+
+import { lookup } from 'dns/promises';
+import { request, RequestOptions } from 'https';
+import {
+  assertPublicWebhookUrl,
+  isPublicAddress,
+  postWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_IDEMPOTENCY_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookEvent,
+} from './webhook';
+
+const mockLookup = lookup as jest.Mock;
+const mockRequest = request as jest.Mock;
+
+const secret = 'whsec_test';
+const event: WebhookEvent = { id: 'delivery-1', type: 'test', createdAt: '2026-10-19T12:00:00.000Z', data: { hello: 'world' } };
+
+describe('signWebhookPayload', () => {
+  test('should sign the timestamp and body with HMAC-SHA256', () => {
+    const signature = signWebhookPayload(secret, 1760875200, '{"a":1}');
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signWebhookPayload(secret, 1760875200, '{"a":1}')).toBe(signature);
+    expect(signWebhookPayload(secret, 1760875201, '{"a":1}')).not.toBe(signature);
+    expect(signWebhookPayload('whsec_other', 1760875200, '{"a":1}')).not.toBe(signature);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  test('should accept a valid signature', () => {
+    const signature = signWebhookPayload(secret, timestamp, 'body');
+    expect(verifyWebhookSignature(secret, timestamp, 'body', signature, now)).toBe(true);
+  });
+
+  test('should reject a tampered body', () => {
+    const signature = signWebhookPayload(secret, timestamp, 'body');
+    expect(verifyWebhookSignature(secret, timestamp, 'b0dy', signature, now)).toBe(false);
+  });
+
+  test('should reject an old timestamp', () => {
+    const oldTimestamp = timestamp - 10 * 60;
+    const signature = signWebhookPayload(secret, oldTimestamp, 'body');
+    expect(verifyWebhookSignature(secret, oldTimestamp, 'body', signature, now)).toBe(false);
+  });
+});
+
+describe('postWebhook', () => {
+  // Answers every request with `statusCode`, keeping what was sent
+  const respondWith = (statusCode: number) => {
+    const sent: { url?: string; options?: RequestOptions; body?: string } = {};
+    mockRequest.mockImplementation((url: string, options: RequestOptions, onResponse: (response: unknown) => void) => {
+      Object.assign(sent, { url, options });
+      return {
+        on: jest.fn(),
+        end: (body: string) => {
+          sent.body = body;
+          onResponse({ statusCode, resume: jest.fn() });
+        },
+      };
+    });
+    return sent;
+  };
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  test('should POST the event with signature, timestamp and idempotency headers', async () => {
+    const sent = respondWith(204);
+
+    const status = await postWebhook({ url: 'https://example.com/hook', secret }, event, 'delivery-1');
+
+    expect(status).toBe(204);
+    expect(sent.url).toBe('https://example.com/hook');
+    expect(sent.options?.method).toBe('POST');
+    expect(JSON.parse(sent.body!)).toEqual(event);
+    const headers = sent.options?.headers as Record<string, string>;
+    expect(headers[WEBHOOK_IDEMPOTENCY_HEADER]).toBe('delivery-1');
+    const timestamp = Number(headers[WEBHOOK_TIMESTAMP_HEADER]);
+    expect(verifyWebhookSignature(secret, timestamp, sent.body!, headers[WEBHOOK_SIGNATURE_HEADER])).toBe(true);
+  });
+
+  test('should connect to the address that was checked, not a fresh lookup', async () => {
+    const sent = respondWith(200);
+    await postWebhook({ url: 'https://example.com/hook', secret }, event, 'delivery-1');
+
+    const pinnedLookup = sent.options?.lookup as unknown as (hostname: string, options: object, callback: jest.Mock) => void;
+    const callback = jest.fn();
+    pinnedLookup('example.com', { all: true }, callback);
+    expect(callback).toHaveBeenCalledWith(null, [{ address: '93.184.216.34', family: 4 }]);
+    pinnedLookup('example.com', {}, callback);
+    expect(callback).toHaveBeenLastCalledWith(null, '93.184.216.34', 4);
+    expect(mockLookup).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject on a non-2xx response, including redirects', async () => {
+    respondWith(500);
+    await expect(postWebhook({ url: 'https://example.com/hook', secret }, event, 'delivery-1')).rejects.toThrow('HTTP 500');
+
+    respondWith(302);
+    await expect(postWebhook({ url: 'https://example.com/hook', secret }, event, 'delivery-1')).rejects.toThrow('HTTP 302');
+  });
+
+  test('should not send to a host that now resolves to a private address', async () => {
+    mockLookup.mockResolvedValue([{ address: '10.0.0.5', family: 4 }]);
+
+    await expect(postWebhook({ url: 'https://example.com/hook', secret }, event, 'delivery-1')).rejects.toThrow('public host');
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('assertPublicWebhookUrl', () => {
+  test('should reject loopback, private, link-local and metadata hosts', async () => {
+    for (const url of ['https://127.0.0.1/hook', 'https://[::1]/hook', 'https://192.168.1.10/', 'https://169.254.169.254/latest', 'https://localhost:3000/', 'https://metadata.google.internal/']) {
+      await expect(assertPublicWebhookUrl(url)).rejects.toThrow();
+    }
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  test('should reject names that resolve to any non-public address', async () => {
+    mockLookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '::ffff:172.16.0.1', family: 6 }]);
+    await expect(assertPublicWebhookUrl('https://hooks.example.com/')).rejects.toThrow('public host');
+
+    mockLookup.mockResolvedValue([{ address: '2606:2800:220:1::1', family: 6 }]);
+    await expect(assertPublicWebhookUrl('https://hooks.example.com/')).resolves.toEqual({ address: '2606:2800:220:1::1', family: 6 });
+  });
+
+  test('should require HTTPS', async () => {
+    await expect(assertPublicWebhookUrl('http://93.184.216.34/')).rejects.toThrow('HTTPS');
+  });
+});
+
+describe('isPublicAddress', () => {
+  test('should tell public addresses from reserved ones', () => {
+    expect(isPublicAddress('8.8.8.8')).toBe(true);
+    expect(isPublicAddress('100.64.1.1')).toBe(false);
+    expect(isPublicAddress('fd12::1')).toBe(false);
+    expect(isPublicAddress('fe80::1')).toBe(false);
+    expect(isPublicAddress('not-an-ip')).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { request } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-DLATC-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-DLATC-Timestamp';
+export const WEBHOOK_IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Receivers should reject requests signed longer ago than this, to stop replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Addresses webhooks may not be sent to: loopback, private, link-local (including cloud metadata
+// at 169.254.169.254), shared, multicast and reserved ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Host names that resolve to internal services on common cloud platforms
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal', 'metadata'];
+
+/**
+ * Thrown when a webhook URL points somewhere other than a public HTTPS host.
+ */
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+/**
+ * Checks whether an IP address is on the public internet.
+ */
+export function isPublicAddress(address: string): boolean {
+  const mappedIPv4 = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedIPv4) {
+    return isPublicAddress(mappedIPv4[1]);
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Makes sure a webhook URL is HTTPS and every address its host resolves to is public, so
+ * endpoints can't be used to reach internal services.
+ * @returns The checked address to connect to, so a second lookup can't return another one.
+ * @throws {WebhookUrlError} If the URL isn't allowed.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<LookupAddress> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError('Invalid URL');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new WebhookUrlError('Webhook URLs must use HTTPS');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new WebhookUrlError('Webhook URLs must point to a public host');
+  }
+
+  let addresses: LookupAddress[];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch {
+      throw new WebhookUrlError(`Could not resolve ${hostname}`);
+    }
+  }
+  if (addresses.length === 0 || !addresses.every(result => isPublicAddress(result.address))) {
+    throw new WebhookUrlError('Webhook URLs must point to a public host');
+  }
+  return addresses[0];
+}
+
+// Resolves every host name to the given address, whatever DNS says by the time of the request
+function pinnedLookup(pinned: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+}
+
+/**
+ * The JSON body POSTed to webhook endpoints.
+ */
+export interface WebhookEvent<T = unknown> {
+  id: string; // Same as the idempotency key
+  type: 'alert.triggered' | 'test';
+  createdAt: string;
+  data: T;
+}
+
+/**
+ * Generates a new signing secret for an endpoint.
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Computes the signature header value for a payload: "sha256=" + HMAC-SHA256 of "<timestamp>.<body>".
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Checks a received signature and timestamp, as a receiver would.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now: Date = new Date()
+): boolean {
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * POSTs a signed event to an endpoint. Resolves on a 2xx response and rejects otherwise,
+ * including when the endpoint's host no longer resolves to a public address.
+ * @param idempotencyKey Stays the same across retries so receivers can drop duplicates.
+ */
+export async function postWebhook(
+  endpoint: { url: string; secret: string },
+  event: WebhookEvent,
+  idempotencyKey: string
+): Promise<number> {
+  const address = await assertPublicWebhookUrl(endpoint.url);
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  // Connects to the address that was checked; TLS (SNI and the certificate) and the Host header
+  // still use the URL's host name. Redirects aren't followed, so they count as failures.
+  const status = await new Promise<number>((resolve, reject) => {
+    const outgoing = request(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        'User-Agent': 'DLATC-Webhooks/1.0',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_IDEMPOTENCY_HEADER]: idempotencyKey,
+      },
+      lookup: pinnedLookup(address),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, response => {
+      response.resume(); // The body isn't used
+      resolve(response.statusCode ?? 0);
+    });
+    outgoing.on('error', reject);
+    outgoing.end(body);
+  });
+
+  if (status < 200 || status >= 300) {
+    throw new Error(`Endpoint responded with HTTP ${status}`);
+  }
+  return status;
+}
@@ -0,0 +1,36 @@
+import { checkVerificationSend, MAX_VERIFICATION_ATTEMPTS, MAX_VERIFICATION_CODES_PER_DAY, VerificationSendState } from './phoneVerification';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+const createState = (overrides: Partial<VerificationSendState> = {}): VerificationSendState => ({
+  phoneVerificationSentAt: minutesAgo(5),
+  phoneVerificationWindowStart: minutesAgo(60),
+  phoneVerificationSendCount: 1,
+  phoneVerificationAttempts: 0,
+  ...overrides,
+});
+
+describe('checkVerificationSend', () => {
+  test('starts a new day without earlier sends, resetting wrong guesses', () => {
+    const check = checkVerificationSend(createState({ phoneVerificationWindowStart: minutesAgo(25 * 60), phoneVerificationAttempts: MAX_VERIFICATION_ATTEMPTS }), now);
+    expect(check).toEqual({
+      allowed: true,
+      counters: { phoneVerificationSentAt: now, phoneVerificationWindowStart: now, phoneVerificationSendCount: 1, phoneVerificationAttempts: 0 },
+    });
+  });
+
+  test('counts another code in the same day without resetting wrong guesses', () => {
+    const check = checkVerificationSend(createState({ phoneVerificationAttempts: 3 }), now);
+    expect(check).toEqual({
+      allowed: true,
+      counters: { phoneVerificationSentAt: now, phoneVerificationWindowStart: minutesAgo(60), phoneVerificationSendCount: 2 },
+    });
+  });
+
+  test('refuses codes requested too soon, past the daily cap or after too many wrong guesses', () => {
+    expect(checkVerificationSend(createState({ phoneVerificationSentAt: new Date(now.getTime() - 10 * 1000) }), now).allowed).toBe(false);
+    expect(checkVerificationSend(createState({ phoneVerificationSendCount: MAX_VERIFICATION_CODES_PER_DAY }), now).allowed).toBe(false);
+    expect(checkVerificationSend(createState({ phoneVerificationAttempts: MAX_VERIFICATION_ATTEMPTS }), now).allowed).toBe(false);
+  });
+});
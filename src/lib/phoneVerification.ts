@@ -0,0 +1,71 @@
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { User } from '@prisma/client';
+
+export const VERIFICATION_CODE_TTL_MINUTES = 10;
+// Wrong codes allowed per day, across every code sent that day
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+// Minimum time between two codes, and codes allowed per day (each one is a paid SMS)
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+export const MAX_VERIFICATION_CODES_PER_DAY = 5;
+
+const VERIFICATION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type VerificationSendState = Pick<User,
+  'phoneVerificationSentAt' | 'phoneVerificationWindowStart' | 'phoneVerificationSendCount' | 'phoneVerificationAttempts'>;
+
+export type VerificationSendCheck =
+  | { allowed: true; counters: Omit<VerificationSendState, 'phoneVerificationAttempts'> & { phoneVerificationAttempts?: number } }
+  | { allowed: false; error: string };
+
+/**
+ * Checks whether another verification code may be sent now. Codes are limited per day, and
+ * wrong guesses count for the whole day so sending a new code doesn't give more of them.
+ * @returns The counters to store with the new code, or why it can't be sent.
+ */
+export function checkVerificationSend(state: VerificationSendState, now: Date = new Date()): VerificationSendCheck {
+  const windowStart = state.phoneVerificationWindowStart;
+  if (!windowStart || now.getTime() - windowStart.getTime() >= VERIFICATION_WINDOW_MS) {
+    // A new day: the code and wrong-guess counts start over
+    return {
+      allowed: true,
+      counters: { phoneVerificationSentAt: now, phoneVerificationWindowStart: now, phoneVerificationSendCount: 1, phoneVerificationAttempts: 0 },
+    };
+  }
+
+  if (state.phoneVerificationSentAt && now.getTime() - state.phoneVerificationSentAt.getTime() < VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000) {
+    return { allowed: false, error: `Wait ${VERIFICATION_RESEND_COOLDOWN_SECONDS} seconds before requesting another code` };
+  }
+  if (state.phoneVerificationSendCount >= MAX_VERIFICATION_CODES_PER_DAY || state.phoneVerificationAttempts >= MAX_VERIFICATION_ATTEMPTS) {
+    return { allowed: false, error: 'Too many verification attempts. Try again tomorrow.' };
+  }
+  return {
+    allowed: true,
+    counters: { phoneVerificationSentAt: now, phoneVerificationWindowStart: windowStart, phoneVerificationSendCount: state.phoneVerificationSendCount + 1 },
+  };
+}
+
+// E.164: "+" followed by up to 15 digits, no leading zero
+export const e164Regex = /^\+[1-9]\d{6,14}$/;
+
+/**
+ * Generates a random 6-digit verification code.
+ */
+export function generateVerificationCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, '0');
+}
+
+/**
+ * Hashes a verification code for storage, so pending codes can't be read back from the database.
+ */
+export function hashVerificationCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * Checks an entered code against the stored hash in constant time.
+ */
+export function verificationCodeMatches(code: string, codeHash: string): boolean {
+  const entered = Buffer.from(hashVerificationCode(code), 'hex');
+  const stored = Buffer.from(codeHash, 'hex');
+  return entered.length === stored.length && timingSafeEqual(entered, stored);
+}
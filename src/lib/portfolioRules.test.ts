@@ -0,0 +1,204 @@
+import { DeliveryChannel, DeliveryStatus, PortfolioRule, PortfolioRuleType, QuoteCurrency, RulePriority, User, UserRole } from '@prisma/client';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    portfolioRule: { findMany: jest.fn() },
+    priceHistory: { findMany: jest.fn(), findFirst: jest.fn() },
+    triggeredAlert: { create: jest.fn() },
+  },
+}));
+jest.mock('./notificationSender', () => ({
+  sendNotifications: jest.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { sendNotifications } from './notificationSender';
+import { checkPortfolioRule, evaluatePortfolioRules, portfolioRuleSchema, valueHoldings } from './portfolioRules';
+
+const mockFindRules = prisma.portfolioRule.findMany as jest.Mock;
+const mockFindLatestPrices = prisma.priceHistory.findMany as jest.Mock;
+const mockFindFirstPrice = prisma.priceHistory.findFirst as jest.Mock;
+const mockCreateAlert = prisma.triggeredAlert.create as jest.Mock;
+const mockSendNotifications = sendNotifications as jest.Mock;
+
+const createUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-portfolio',
+  email: 'portfolio@test.com',
+  emailVerified: null,
+  phoneNumber: null,
+  phoneNumberVerified: null,
+  passwordHash: null,
+  role: UserRole.USER,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  quietTimeEnabled: false,
+  quietTimeStart: null,
+  quietTimeEnd: null,
+  quietTimeZone: null,
+  quietTimeAllowCritical: true,
+  quietTimeBreakthroughPercent: null,
+  quietTimeDigestEnabled: true,
+  morningSummaryEnabled: false,
+  morningSummaryTime: '08:00',
+  referenceCurrency: QuoteCurrency.USD,
+  defaultChannels: [DeliveryChannel.EMAIL],
+  phoneVerificationCodeHash: null,
+  phoneVerificationExpiresAt: null,
+  phoneVerificationAttempts: 0,
+  phoneVerificationSentAt: null,
+  phoneVerificationWindowStart: null,
+  phoneVerificationSendCount: 0,
+  telegramChatId: null,
+  telegramLinkCodeHash: null,
+  telegramLinkExpiresAt: null,
+  discordWebhookUrl: null,
+  ...overrides,
+});
+
+// Holds 1 BTC and 10 ETH
+const holdings = [
+  { assetId: 'asset-btc', quantity: 1 },
+  { assetId: 'asset-eth', quantity: 10 },
+];
+
+const createRule = (overrides: Partial<PortfolioRule> = {}, user: User = createUser()) => ({
+  id: 'portfolio-rule-1',
+  userId: user.id,
+  type: PortfolioRuleType.PORTFOLIO_VALUE_BELOW,
+  value: 100000,
+  timeWindowHours: null,
+  assetId: null,
+  quoteCurrency: QuoteCurrency.USD,
+  channels: [],
+  priority: RulePriority.NORMAL,
+  isEnabled: true,
+  cooldownMinutes: 119,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+  user: { ...user, trackedAssets: holdings },
+  asset: null,
+  triggeredAlerts: [] as { triggeredAt: Date }[],
+});
+
+const latestPrice = (assetId: string, price: number) => ({ assetId, currency: QuoteCurrency.USD, price, timestamp: new Date() });
+
+describe('valueHoldings', () => {
+  test('values each holding at its price', () => {
+    const valuation = valueHoldings(holdings, new Map([['asset-btc', 60000], ['asset-eth', 3000]]));
+    expect(valuation?.total).toBe(90000);
+    expect(valuation?.byAsset.get('asset-eth')).toBe(30000);
+  });
+
+  test('returns null when a held asset has no price', () => {
+    expect(valueHoldings(holdings, new Map([['asset-btc', 60000]]))).toBeNull();
+  });
+});
+
+describe('checkPortfolioRule', () => {
+  const current = valueHoldings(holdings, new Map([['asset-btc', 60000], ['asset-eth', 3000]]))!;
+
+  test('compares an asset\'s share of the portfolio', () => {
+    const rule = { type: PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE, value: 60, assetId: 'asset-btc' };
+    expect(checkPortfolioRule(rule, current, null)).toEqual({ conditionMet: true, allocationPercent: (60000 / 90000) * 100 });
+    expect(checkPortfolioRule({ ...rule, value: 70 }, current, null).conditionMet).toBe(false);
+  });
+
+  test('needs a valuation at the start of a change rule\'s window', () => {
+    const rule = { type: PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE, value: 5, assetId: null };
+    const dayAgo = valueHoldings(holdings, new Map([['asset-btc', 66000], ['asset-eth', 3300]]))!;
+    expect(checkPortfolioRule(rule, current, null).conditionMet).toBe(false);
+    expect(checkPortfolioRule(rule, current, dayAgo).conditionMet).toBe(true); // Down 9.1%
+  });
+});
+
+describe('evaluatePortfolioRules', () => {
+  const notQuiet = jest.fn().mockReturnValue(false);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    notQuiet.mockReturnValue(false);
+    mockFindLatestPrices.mockResolvedValue([latestPrice('asset-btc', 60000), latestPrice('asset-eth', 3000)]);
+    mockCreateAlert.mockResolvedValue({ id: 'alert-portfolio' });
+  });
+
+  test('records and sends an alert when the portfolio value falls below the target', async () => {
+    mockFindRules.mockResolvedValue([createRule()]);
+
+    const fired = await evaluatePortfolioRules(notQuiet);
+
+    expect(fired).toBe(1);
+    expect(mockCreateAlert).toHaveBeenCalledWith({
+      data: { portfolioRuleId: 'portfolio-rule-1', triggeringPrice: 90000, quietTimeBreakthrough: null },
+    });
+    expect(mockSendNotifications).toHaveBeenCalledWith([expect.objectContaining({
+      alertId: 'alert-portfolio',
+      ruleId: 'portfolio-rule-1',
+      assetName: 'Portfolio',
+      ruleType: PortfolioRuleType.PORTFOLIO_VALUE_BELOW,
+      triggeringPrice: 90000,
+      channels: [DeliveryChannel.EMAIL],
+    })]);
+  });
+
+  test('measures a change rule from the prices at the start of its window', async () => {
+    mockFindRules.mockResolvedValue([createRule({ type: PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE, value: 5, timeWindowHours: 24 })]);
+    mockFindFirstPrice.mockImplementation(({ where }) => Promise.resolve(
+      latestPrice(where.assetId, where.assetId === 'asset-btc' ? 66000 : 3300)
+    ));
+
+    await evaluatePortfolioRules(notQuiet);
+
+    const since: Date = mockFindFirstPrice.mock.calls[0][0].where.timestamp.gte;
+    expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+    expect(mockSendNotifications).toHaveBeenCalledWith([expect.objectContaining({ ruleType: PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE })]);
+  });
+
+  test('skips rules while a held asset has no price, or in cooldown', async () => {
+    mockFindLatestPrices.mockResolvedValue([latestPrice('asset-btc', 60000)]);
+    mockFindRules.mockResolvedValue([createRule()]);
+    expect(await evaluatePortfolioRules(notQuiet)).toBe(0);
+
+    mockFindLatestPrices.mockResolvedValue([latestPrice('asset-btc', 60000), latestPrice('asset-eth', 3000)]);
+    const coolingDown = createRule();
+    coolingDown.triggeredAlerts = [{ triggeredAt: new Date(Date.now() - 30 * 60 * 1000) }];
+    mockFindRules.mockResolvedValue([coolingDown]);
+    expect(await evaluatePortfolioRules(notQuiet)).toBe(0);
+
+    expect(mockCreateAlert).not.toHaveBeenCalled();
+    expect(mockSendNotifications).not.toHaveBeenCalled();
+  });
+
+  test('holds the alert for the digest during quiet time', async () => {
+    mockFindRules.mockResolvedValue([createRule()]);
+
+    const fired = await evaluatePortfolioRules(() => true);
+
+    expect(fired).toBe(1);
+    expect(mockCreateAlert).toHaveBeenCalledWith({
+      data: {
+        portfolioRuleId: 'portfolio-rule-1',
+        triggeringPrice: 90000,
+        queuedForDigest: true,
+        deliveries: { createMany: { data: [{ channel: DeliveryChannel.EMAIL, status: DeliveryStatus.SUPPRESSED }] } },
+      },
+    });
+    expect(mockSendNotifications).not.toHaveBeenCalled();
+  });
+
+  test('sends critical rules during quiet time', async () => {
+    mockFindRules.mockResolvedValue([createRule({ priority: RulePriority.CRITICAL })]);
+
+    await evaluatePortfolioRules(() => true);
+
+    expect(mockSendNotifications).toHaveBeenCalledWith([expect.objectContaining({ quietTimeBreakthrough: 'Critical rule' })]);
+  });
+});
+
+describe('portfolioRuleSchema', () => {
+  test('requires an asset for allocation rules and limits percentages to 100', () => {
+    expect(portfolioRuleSchema.safeParse({ type: PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE, value: 50 }).success).toBe(false);
+    expect(portfolioRuleSchema.safeParse({ type: PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE, value: 150 }).success).toBe(false);
+    expect(portfolioRuleSchema.safeParse({ type: PortfolioRuleType.PORTFOLIO_VALUE_BELOW, value: 150000 }).success).toBe(true);
+  });
+});
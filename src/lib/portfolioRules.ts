@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { DeliveryChannel, DeliveryStatus, PortfolioRule, PortfolioRuleType, QuoteCurrency, RulePriority, User } from '@prisma/client';
+import { subHours } from 'date-fns';
+import { MAX_RULE_COOLDOWN_MINUTES } from './ruleDefaults';
+import { isInCooldown, isQuietTime } from './ruleEvaluator';
+import { resolveDeliveryChannels } from './notificationDelivery';
+import { sendNotifications } from './notificationSender';
+import { prismaPriceHistorySource } from './priceHistorySource';
+
+export const DEFAULT_PORTFOLIO_CHANGE_WINDOW_HOURS = 24;
+export const MAX_PORTFOLIO_CHANGE_WINDOW_HOURS = 72;
+
+// Request body for creating a portfolio rule
+export const portfolioRuleSchema = z.object({
+  type: z.nativeEnum(PortfolioRuleType),
+  value: z.number().positive(),
+  timeWindowHours: z.number().int().min(1).max(MAX_PORTFOLIO_CHANGE_WINDOW_HOURS).optional(), // Change rules only, defaults to 24
+  assetId: z.string().cuid().optional(), // Allocation rules only: an asset the user tracks
+  quoteCurrency: z.nativeEnum(QuoteCurrency).optional(), // Defaults to the user's reference currency
+  cooldownMinutes: z.number().int().min(0).max(MAX_RULE_COOLDOWN_MINUTES).optional(),
+  channels: z.array(z.nativeEnum(DeliveryChannel)).optional(), // Empty means the user's default channels
+  priority: z.nativeEnum(RulePriority).optional(),
+}).refine(data => data.type === PortfolioRuleType.PORTFOLIO_VALUE_BELOW || data.value <= 100, {
+  message: "Percentages can't be over 100",
+  path: ["value"],
+}).refine(data => (data.type === PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE) === (typeof data.assetId === 'string'), {
+  message: "assetId is required for allocation rules, and only for them",
+  path: ["assetId"],
+}).refine(data => data.type === PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE || data.timeWindowHours === undefined, {
+  message: "timeWindowHours is only used by change rules",
+  path: ["timeWindowHours"],
+});
+
+export type PortfolioRuleInput = z.infer<typeof portfolioRuleSchema>;
+
+export interface PortfolioValuation {
+  total: number;
+  byAsset: Map<string, number>; // Value of each holding, keyed by asset ID
+}
+
+/**
+ * Values holdings at the given prices.
+ * @param prices Price of each asset, keyed by asset ID.
+ * @returns The valuation, or null if a held asset has no price (a partial total would look like a drop).
+ */
+export function valueHoldings(holdings: { assetId: string; quantity: number }[], prices: Map<string, number>): PortfolioValuation | null {
+  const byAsset = new Map<string, number>();
+  for (const holding of holdings) {
+    const price = prices.get(holding.assetId);
+    if (price === undefined) {
+      return null;
+    }
+    byAsset.set(holding.assetId, (byAsset.get(holding.assetId) ?? 0) + holding.quantity * price);
+  }
+  return { total: [...byAsset.values()].reduce((sum, value) => sum + value, 0), byAsset };
+}
+
+/**
+ * Measures how much a portfolio's value changed between two valuations.
+ * @returns The change in percent, or null if the earlier value is zero.
+ */
+export function portfolioChangePercent(current: PortfolioValuation, previous: PortfolioValuation): number | null {
+  return previous.total > 0 ? ((current.total - previous.total) / previous.total) * 100 : null;
+}
+
+export interface PortfolioRuleCheck {
+  conditionMet: boolean;
+  allocationPercent?: number; // Allocation rules: the asset's share of the total value
+}
+
+/**
+ * Checks a portfolio rule against the current valuation.
+ * @param previous Valuation at the start of a change rule's window, if known.
+ */
+export function checkPortfolioRule(
+  rule: Pick<PortfolioRule, 'type' | 'value' | 'assetId'>,
+  current: PortfolioValuation,
+  previous: PortfolioValuation | null
+): PortfolioRuleCheck {
+  switch (rule.type) {
+    case PortfolioRuleType.PORTFOLIO_VALUE_BELOW:
+      return { conditionMet: current.total < rule.value };
+    case PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE: {
+      const change = previous ? portfolioChangePercent(current, previous) : null;
+      return { conditionMet: change !== null && change <= -rule.value };
+    }
+    case PortfolioRuleType.PORTFOLIO_ALLOCATION_ABOVE: {
+      if (current.total <= 0 || !rule.assetId) {
+        return { conditionMet: false };
+      }
+      const allocationPercent = ((current.byAsset.get(rule.assetId) ?? 0) / current.total) * 100;
+      return { conditionMet: allocationPercent > rule.value, allocationPercent };
+    }
+  }
+}
+
+/**
+ * Values holdings at the first stored price of each asset since `since`, to measure a change
+ * over a window. Current quantities are used, so buying or selling doesn't count as a move.
+ */
+async function valueHoldingsSince(holdings: { assetId: string; quantity: number }[], currency: QuoteCurrency, since: Date): Promise<PortfolioValuation | null> {
+  const prices = new Map<string, number>();
+  for (const assetId of new Set(holdings.map(h => h.assetId))) {
+    const record = await prismaPriceHistorySource.findFirstSince(assetId, currency, since);
+    if (record) {
+      prices.set(assetId, record.price);
+    }
+  }
+  return valueHoldings(holdings, prices);
+}
+
+/**
+ * Checks whether a triggered portfolio rule may break through the user's quiet time: critical
+ * rules (if the user allows them) and a portfolio that has moved at least the user's
+ * breakthrough percentage in the last 24 hours.
+ * @returns {Promise<string | null>} The reason to show in the alert, or null to suppress it.
+ */
+async function getPortfolioQuietTimeBreakthrough(
+  rule: Pick<PortfolioRule, 'priority' | 'quoteCurrency'>,
+  user: Pick<User, 'quietTimeAllowCritical' | 'quietTimeBreakthroughPercent'>,
+  holdings: { assetId: string; quantity: number }[],
+  current: PortfolioValuation,
+  now: Date
+): Promise<string | null> {
+  if (rule.priority === RulePriority.CRITICAL && user.quietTimeAllowCritical) {
+    return 'Critical rule';
+  }
+  if (user.quietTimeBreakthroughPercent === null) {
+    return null;
+  }
+
+  const dayAgo = await valueHoldingsSince(holdings, rule.quoteCurrency, subHours(now, 24));
+  const change = dayAgo ? portfolioChangePercent(current, dayAgo) : null;
+  if (change === null || Math.abs(change) < user.quietTimeBreakthroughPercent) {
+    return null;
+  }
+  return `Portfolio ${change >= 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(1)}% in 24h`;
+}
+
+/**
+ * Evaluates every enabled portfolio rule against the latest stored prices of the user's
+ * holdings. Triggered rules are recorded and sent like asset rules, including quiet time
+ * handling. Rules are skipped while any held asset has no price in the rule's currency.
+ *
+ * This function is designed to be called by the price-fetching cron job, after evaluateRules.
+ * @param quietTimeChecker Optional function to check for quiet time (defaults to isQuietTime).
+ * @returns {Promise<number>} The number of rules that fired.
+ */
+export async function evaluatePortfolioRules(
+  quietTimeChecker: (user: User, nowUtc?: Date) => boolean = isQuietTime
+): Promise<number> {
+  const activeRules = await prisma.portfolioRule.findMany({
+    where: { isEnabled: true },
+    include: {
+      user: { include: { trackedAssets: { where: { quantity: { gt: 0 } }, select: { assetId: true, quantity: true } } } },
+      asset: true,
+      triggeredAlerts: { orderBy: { triggeredAt: 'desc' }, take: 1 },
+    },
+  });
+
+  if (activeRules.length === 0) {
+    return 0;
+  }
+  console.log(`Portfolio Rules: Found ${activeRules.length} active rules to evaluate.`);
+
+  // Latest price of each held asset, in each quote currency
+  const assetIds = [...new Set(activeRules.flatMap(r => r.user.trackedAssets.map(t => t.assetId)))];
+  const latestPriceRecords = await prisma.priceHistory.findMany({
+    where: {
+      assetId: { in: assetIds },
+      currency: { in: [...new Set(activeRules.map(r => r.quoteCurrency))] },
+    },
+    orderBy: { timestamp: 'desc' },
+    distinct: ['assetId', 'currency'],
+  });
+  const latestPrices = new Map<QuoteCurrency, Map<string, number>>();
+  for (const record of latestPriceRecords) {
+    const prices = latestPrices.get(record.currency) ?? new Map<string, number>();
+    prices.set(record.assetId, record.price);
+    latestPrices.set(record.currency, prices);
+  }
+
+  const now = new Date();
+  const triggeredRules: Parameters<typeof sendNotifications>[0] = [];
+  let firedCount = 0;
+  for (const rule of activeRules) {
+    const { user } = rule;
+    const holdings = user.trackedAssets.flatMap(t => t.quantity ? [{ assetId: t.assetId, quantity: t.quantity }] : []);
+    if (holdings.length === 0 || isInCooldown(rule, rule.triggeredAlerts[0], now)) {
+      continue;
+    }
+
+    try {
+      const current = valueHoldings(holdings, latestPrices.get(rule.quoteCurrency) ?? new Map());
+      if (!current) {
+        console.log(`Portfolio Rules: Skipping rule ${rule.id}, a held asset has no ${rule.quoteCurrency} price yet.`);
+        continue;
+      }
+      const previous = rule.type === PortfolioRuleType.PORTFOLIO_CHANGE_DECREASE
+        ? await valueHoldingsSince(holdings, rule.quoteCurrency, subHours(now, rule.timeWindowHours ?? DEFAULT_PORTFOLIO_CHANGE_WINDOW_HOURS))
+        : null;
+      const { conditionMet, allocationPercent } = checkPortfolioRule(rule, current, previous);
+      if (!conditionMet) {
+        continue;
+      }
+      firedCount++;
+
+      const channels = resolveDeliveryChannels(rule.channels, user);
+      const isQuiet = quietTimeChecker(user, now);
+      const quietTimeBreakthrough = isQuiet
+        ? await getPortfolioQuietTimeBreakthrough(rule, user, holdings, current, now)
+        : null;
+      if (isQuiet && !quietTimeBreakthrough) {
+        console.log(`Portfolio Rules: Rule ${rule.id} triggered for user ${user.email}, but it's quiet time. Suppressing notification.`);
+        await prisma.triggeredAlert.create({
+          data: {
+            portfolioRuleId: rule.id,
+            triggeringPrice: current.total,
+            queuedForDigest: user.quietTimeDigestEnabled,
+            allocationPercent,
+            deliveries: { createMany: { data: channels.map(channel => ({ channel, status: DeliveryStatus.SUPPRESSED })) } },
+          },
+        });
+        continue;
+      }
+
+      console.log(`Portfolio Rules: Rule ${rule.id} triggered for user ${user.email} - ${rule.type} ${rule.value}`);
+      const alert = await prisma.triggeredAlert.create({
+        data: { portfolioRuleId: rule.id, triggeringPrice: current.total, quietTimeBreakthrough, allocationPercent },
+      });
+      triggeredRules.push({
+        alertId: alert.id,
+        ruleId: rule.id,
+        userId: user.id,
+        assetSymbol: rule.asset?.symbol.toUpperCase() ?? 'PORTFOLIO',
+        assetName: 'Portfolio',
+        ruleType: rule.type,
+        ruleValue: rule.value,
+        timeWindowHours: rule.timeWindowHours,
+        allocationPercent,
+        quietTimeBreakthrough,
+        quoteCurrency: rule.quoteCurrency,
+        triggeringPrice: current.total,
+        userEmail: user.email,
+        userPhoneNumber: user.phoneNumberVerified ? user.phoneNumber : null,
+        telegramChatId: user.telegramChatId,
+        discordWebhookUrl: user.discordWebhookUrl,
+        channels,
+      });
+    } catch (error) {
+      console.error(`Portfolio Rules: Error evaluating rule ${rule.id}:`, error);
+    }
+  }
+
+  if (triggeredRules.length > 0) {
+    await sendNotifications(triggeredRules);
+  }
+  return firedCount;
+}
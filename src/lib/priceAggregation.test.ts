@@ -0,0 +1,118 @@
+import { aggregateQuotes, fetchAggregatedPrices, median } from './priceAggregation';
+import type { PriceProvider } from './priceProviders';
+
+describe('median', () => {
+  test('should return the middle value of an odd-length list', () => {
+    expect(median([3, 1, 2])).toBe(2);
+  });
+
+  test('should average the two middle values of an even-length list', () => {
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe('aggregateQuotes', () => {
+  test('should accept a single quote as-is', () => {
+    expect(aggregateQuotes([{ source: 'coingecko', price: 65000 }], 3)).toEqual({
+      price: 65000,
+      sources: ['coingecko'],
+      rejected: [],
+    });
+  });
+
+  test('should use the median of quotes that agree', () => {
+    const result = aggregateQuotes([
+      { source: 'a', price: 100 },
+      { source: 'b', price: 101 },
+      { source: 'c', price: 99.5 },
+    ], 3);
+    expect(result).toEqual({ price: 100, sources: ['a', 'b', 'c'], rejected: [] });
+  });
+
+  test('should reject a quote that deviates beyond the tolerance', () => {
+    const result = aggregateQuotes([
+      { source: 'a', price: 65000 },
+      { source: 'b', price: 65100 },
+      { source: 'bad', price: 40000 }, // Bad tick
+    ], 3);
+    expect(result).toEqual({
+      price: 65050,
+      sources: ['a', 'b'],
+      rejected: [{ source: 'bad', price: 40000 }],
+    });
+  });
+
+  test('should return null when two quotes disagree beyond the tolerance', () => {
+    expect(aggregateQuotes([
+      { source: 'a', price: 100 },
+      { source: 'b', price: 120 },
+    ], 3)).toBeNull();
+  });
+
+  test('should ignore non-positive and non-finite quotes', () => {
+    expect(aggregateQuotes([
+      { source: 'a', price: 0 },
+      { source: 'b', price: NaN },
+      { source: 'c', price: 50 },
+    ], 3)).toEqual({ price: 50, sources: ['c'], rejected: [] });
+    expect(aggregateQuotes([], 3)).toBeNull();
+  });
+});
+
+describe('fetchAggregatedPrices', () => {
+  const createProvider = (name: string, getPrices: PriceProvider['getPrices']): PriceProvider => ({
+    name,
+    getPrices,
+    getCoins: async () => [],
+  });
+
+  test('should aggregate quotes across providers and skip failing providers', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const providers = [
+      createProvider('one', async () => ({ bitcoin: { usd: 65000 }, ethereum: { usd: 3000 } })),
+      createProvider('two', async () => ({ bitcoin: { usd: 65200 }, ethereum: { usd: 1500 } })),
+      createProvider('three', async () => ({ bitcoin: { usd: 64900 }, ethereum: { usd: 3010 } })),
+      createProvider('broken', async () => { throw new Error('Network down'); }),
+    ];
+
+    const result = (await fetchAggregatedPrices(['bitcoin', 'ethereum', 'solana'], providers, 3)).get('usd')!;
+
+    expect(result.get('bitcoin')).toEqual({ price: 65000, sources: ['one', 'two', 'three'], rejected: [] });
+    expect(result.get('ethereum')).toEqual({
+      price: 3005,
+      sources: ['one', 'three'],
+      rejected: [{ source: 'two', price: 1500 }],
+    });
+    expect(result.has('solana')).toBe(false);
+    expect(consoleErrorSpy).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+    consoleWarnSpy.mockRestore();
+  });
+
+  test('should aggregate each requested currency separately', async () => {
+    const providers = [
+      createProvider('one', async () => ({ bitcoin: { usd: 65000, eur: 60000 } })),
+      createProvider('usd-only', async () => ({ bitcoin: { usd: 65100 } })),
+    ];
+
+    const result = await fetchAggregatedPrices(['bitcoin'], providers, 3, ['usd', 'eur']);
+
+    expect(result.get('usd')!.get('bitcoin')).toEqual({ price: 65050, sources: ['one', 'usd-only'], rejected: [] });
+    expect(result.get('eur')!.get('bitcoin')).toEqual({ price: 60000, sources: ['one'], rejected: [] });
+  });
+
+  test('should combine market data from the providers whose prices were accepted', async () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const providers = [
+      createProvider('one', async () => ({ bitcoin: { usd: 65000, usd_market_cap: 1.28e12, usd_24h_vol: 3.0e10, usd_24h_change: -1.5 } })),
+      createProvider('two', async () => ({ bitcoin: { usd: 65100, usd_market_cap: 1.3e12, usd_24h_vol: 3.2e10, usd_24h_change: null } })),
+      createProvider('bad', async () => ({ bitcoin: { usd: 40000, usd_market_cap: 8e11, usd_24h_vol: 9e10, usd_24h_change: -30 } })),
+    ];
+
+    const result = (await fetchAggregatedPrices(['bitcoin'], providers, 3)).get('usd')!;
+
+    expect(result.get('bitcoin')!.market).toEqual({ marketCap: 1.29e12, volume24h: 3.1e10, change24h: -1.5 });
+    consoleWarnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,144 @@
+import type { PriceProvider } from './priceProviders';
+import { marketDataKeys, type PriceData } from './coingecko';
+
+// Default maximum deviation (in percent) of a quote from the cross-provider median
+export const DEFAULT_OUTLIER_TOLERANCE_PERCENT = 3;
+
+export interface SourceQuote {
+  source: string; // Provider name
+  price: number;
+}
+
+// Market data reported alongside a price, in the same currency
+export interface MarketStats {
+  marketCap: number | null;
+  volume24h: number | null;
+  change24h: number | null; // Percent
+}
+
+export interface AggregatedPrice {
+  price: number;       // Median of the accepted quotes
+  sources: string[];   // Providers whose quotes were accepted
+  rejected: SourceQuote[]; // Quotes dropped as outliers
+  market?: MarketStats; // Median market data of the accepted providers, if any reported it
+}
+
+/**
+ * Returns the median of a non-empty list of numbers.
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Combines quotes for one asset from several providers into a single price.
+ * Quotes deviating from the median by more than the tolerance are rejected and the median of the
+ * remaining quotes is used. A single quote is accepted as-is since there is nothing to compare it with.
+ * @param quotes Quotes for one asset, one per provider.
+ * @param tolerancePercent Maximum allowed deviation from the median, in percent.
+ * @returns The aggregated price, or null if no usable quote remains (e.g., two providers disagree).
+ */
+export function aggregateQuotes(quotes: SourceQuote[], tolerancePercent: number = DEFAULT_OUTLIER_TOLERANCE_PERCENT): AggregatedPrice | null {
+  const validQuotes = quotes.filter(q => Number.isFinite(q.price) && q.price > 0);
+  if (validQuotes.length === 0) {
+    return null;
+  }
+
+  const overallMedian = median(validQuotes.map(q => q.price));
+  const accepted: SourceQuote[] = [];
+  const rejected: SourceQuote[] = [];
+  for (const quote of validQuotes) {
+    const deviationPercent = (Math.abs(quote.price - overallMedian) / overallMedian) * 100;
+    if (deviationPercent <= tolerancePercent) {
+      accepted.push(quote);
+    } else {
+      rejected.push(quote);
+    }
+  }
+
+  if (accepted.length === 0) {
+    return null;
+  }
+
+  return {
+    price: median(accepted.map(q => q.price)),
+    sources: accepted.map(q => q.source),
+    rejected,
+  };
+}
+
+/**
+ * Combines the market data the accepted providers reported for one coin and currency.
+ * Each value is the median of the providers that reported it.
+ * @returns The market data, or undefined if no accepted provider reported any.
+ */
+export function aggregateMarketStats(quotes: PriceData[string][], currency: string): MarketStats | undefined {
+  const keys = marketDataKeys(currency);
+  const medianOf = (key: string): number | null => {
+    const values = quotes.map(q => q[key]).filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+    return values.length > 0 ? median(values) : null;
+  };
+  const stats = { marketCap: medianOf(keys.marketCap), volume24h: medianOf(keys.volume24h), change24h: medianOf(keys.change24h) };
+  return stats.marketCap === null && stats.volume24h === null && stats.change24h === null ? undefined : stats;
+}
+
+/**
+ * Fetches prices from every provider and aggregates them per currency and coin.
+ * A provider that throws is treated as having returned no quotes.
+ * @param coinIds CoinGecko coin IDs to fetch.
+ * @param providers Providers to query (in parallel).
+ * @param tolerancePercent Maximum allowed deviation from the median, in percent.
+ * @param currencies Lowercase currency codes to fetch (e.g., ["usd", "eur"]).
+ * @returns Aggregated prices keyed by currency and then coin ID; coins with no usable quote are omitted.
+ */
+export async function fetchAggregatedPrices(
+  coinIds: string[],
+  providers: PriceProvider[],
+  tolerancePercent: number = DEFAULT_OUTLIER_TOLERANCE_PERCENT,
+  currencies: string[] = ['usd']
+): Promise<Map<string, Map<string, AggregatedPrice>>> {
+  const results = await Promise.allSettled(providers.map(provider => provider.getPrices(coinIds, currencies)));
+
+  const aggregatedByCurrency = new Map<string, Map<string, AggregatedPrice>>();
+  for (const currency of currencies) {
+    const aggregated = new Map<string, AggregatedPrice>();
+    for (const coinId of coinIds) {
+      const quotes: SourceQuote[] = [];
+      const quoteData = new Map<string, PriceData[string]>(); // Each provider's full quote, by provider name
+      results.forEach((result, i) => {
+        const coinData = result.status === 'fulfilled' ? result.value[coinId] : undefined;
+        const price = coinData?.[currency];
+        if (typeof price === 'number') {
+          quotes.push({ source: providers[i].name, price });
+          quoteData.set(providers[i].name, coinData!);
+        }
+      });
+
+      const aggregate = aggregateQuotes(quotes, tolerancePercent);
+      if (!aggregate) {
+        if (quotes.length > 0) {
+          console.warn(`Price Aggregation: No consistent ${currency} price for ${coinId}, quotes: ${JSON.stringify(quotes)}. Skipping.`);
+        }
+        continue;
+      }
+      if (aggregate.rejected.length > 0) {
+        console.warn(`Price Aggregation: Rejected outlier ${currency} quotes for ${coinId}: ${JSON.stringify(aggregate.rejected)} (median of accepted: ${aggregate.price}).`);
+      }
+      const market = aggregateMarketStats(aggregate.sources.map(source => quoteData.get(source)!), currency);
+      aggregated.set(coinId, market ? { ...aggregate, market } : aggregate);
+    }
+    aggregatedByCurrency.set(currency, aggregated);
+  }
+
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`Price Aggregation: Provider ${providers[i].name} failed:`, result.reason);
+    }
+  });
+
+  return aggregatedByCurrency;
+}
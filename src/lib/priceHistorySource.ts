@@ -0,0 +1,191 @@
+import { prisma } from '@/lib/prisma';
+import { PriceHistory, QuoteCurrency } from '@prisma/client';
+
+// One asset, or any of several, as in a Prisma `assetId` filter
+export type AssetIdFilter = string | { in: string[] };
+
+/**
+ * The price history lookups rule evaluation needs. The cron pass reads them from the database;
+ * backtests replay them from a stored series, one point at a time.
+ */
+export interface PriceHistorySource {
+  /** The latest point before `before`, optionally only among points with a market cap. */
+  findPrevious(assetId: string, currency: QuoteCurrency, before: Date, options?: { withMarketCap?: boolean }): Promise<PriceHistory | null>;
+  /** The first point at or after `since`. */
+  findFirstSince(assetId: string, currency: QuoteCurrency, since: Date): Promise<PriceHistory | null>;
+  /** The point with the highest or lowest price at or after `since`. */
+  findExtremeSince(assetId: string, currency: QuoteCurrency, since: Date, extreme: 'highest' | 'lowest'): Promise<PriceHistory | null>;
+  /** The average 24h volume of points from `since` up to (not including) `before`, and when the oldest of them was stored. */
+  getVolumeStats(assetId: string, currency: QuoteCurrency, since: Date, before: Date): Promise<{ averageVolume: number | null; oldestTimestamp: Date | null }>;
+  /** The latest `count` points, newest first, optionally only up to `upTo`. */
+  findRecent(assetId: string, currency: QuoteCurrency, count: number, upTo?: Date): Promise<PriceHistory[]>;
+  /** Every point from `since` up to `upTo`, oldest first. */
+  findRange(assetId: AssetIdFilter, currency: QuoteCurrency, since: Date, upTo: Date): Promise<PriceHistory[]>;
+}
+
+/**
+ * Reads price history from the database.
+ */
+export const prismaPriceHistorySource: PriceHistorySource = {
+  findPrevious(assetId, currency, before, options = {}) {
+    return prisma.priceHistory.findFirst({
+      where: {
+        assetId,
+        currency,
+        ...(options.withMarketCap ? { marketCap: { not: null } } : {}),
+        timestamp: { lt: before },
+      },
+      orderBy: { timestamp: 'desc' },
+    });
+  },
+
+  findFirstSince(assetId, currency, since) {
+    return prisma.priceHistory.findFirst({
+      where: { assetId, currency, timestamp: { gte: since } },
+      orderBy: { timestamp: 'asc' },
+    });
+  },
+
+  findExtremeSince(assetId, currency, since, extreme) {
+    return prisma.priceHistory.findFirst({
+      where: { assetId, currency, timestamp: { gte: since } },
+      orderBy: { price: extreme === 'highest' ? 'desc' : 'asc' },
+    });
+  },
+
+  async getVolumeStats(assetId, currency, since, before) {
+    const stats = await prisma.priceHistory.aggregate({
+      where: {
+        assetId,
+        currency,
+        volume24h: { not: null },
+        timestamp: { gte: since, lt: before },
+      },
+      _avg: { volume24h: true },
+      _min: { timestamp: true },
+    });
+    return { averageVolume: stats._avg.volume24h, oldestTimestamp: stats._min.timestamp };
+  },
+
+  findRecent(assetId, currency, count, upTo) {
+    return prisma.priceHistory.findMany({
+      where: { assetId, currency, ...(upTo ? { timestamp: { lte: upTo } } : {}) },
+      orderBy: { timestamp: 'desc' },
+      take: count,
+    });
+  },
+
+  findRange(assetId, currency, since, upTo) {
+    return prisma.priceHistory.findMany({
+      where: { assetId, currency, timestamp: { gte: since, lte: upTo } },
+      orderBy: { timestamp: 'asc' },
+    });
+  },
+};
+
+// Index of the first point at or after `time` (points.length if there is none), by binary search
+function firstIndexAtOrAfter(points: PriceHistory[], time: Date, inclusive = true): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const t = points[middle].timestamp.getTime();
+    if (inclusive ? t < time.getTime() : t <= time.getTime()) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Index just past the last point at or before `time`
+function endIndexUpTo(points: PriceHistory[], time: Date): number {
+  return firstIndexAtOrAfter(points, time, false);
+}
+
+export interface SeriesPriceHistorySource extends PriceHistorySource {
+  /** The same series as known at `upTo`: only points up to and including it. Cheap to call per point. */
+  asOf(upTo: Date): PriceHistorySource;
+}
+
+/**
+ * Reads price history from an in-memory series, e.g. the history a backtest replays. The points are
+ * sorted and grouped by asset and currency once; lookups then use binary search.
+ * @param records The points to read from, in any order.
+ */
+export function createSeriesPriceHistorySource(records: PriceHistory[]): SeriesPriceHistorySource {
+  const series = new Map<string, PriceHistory[]>();
+  for (const record of [...records].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())) {
+    const key = `${record.assetId}:${record.currency}`;
+    const points = series.get(key) ?? [];
+    points.push(record);
+    series.set(key, points);
+  }
+  return { ...readSeries(series, null), asOf: upTo => readSeries(series, upTo) };
+}
+
+// Lookups over grouped series, ignoring points after `upTo` (if set)
+function readSeries(series: Map<string, PriceHistory[]>, upTo: Date | null): PriceHistorySource {
+  // The asset's points in the currency, and the index just past the last one known at `upTo`
+  const pointsOf = (assetId: string, currency: QuoteCurrency) => {
+    const points = series.get(`${assetId}:${currency}`) ?? [];
+    return { points, end: upTo ? endIndexUpTo(points, upTo) : points.length };
+  };
+
+  return {
+    async findPrevious(assetId, currency, before, options = {}) {
+      const { points, end } = pointsOf(assetId, currency);
+      for (let i = Math.min(firstIndexAtOrAfter(points, before), end) - 1; i >= 0; i--) {
+        if (!options.withMarketCap || points[i].marketCap !== null) {
+          return points[i];
+        }
+      }
+      return null;
+    },
+
+    async findFirstSince(assetId, currency, since) {
+      const { points, end } = pointsOf(assetId, currency);
+      const index = firstIndexAtOrAfter(points, since);
+      return index < end ? points[index] : null;
+    },
+
+    async findExtremeSince(assetId, currency, since, extreme) {
+      const { points, end } = pointsOf(assetId, currency);
+      let best: PriceHistory | null = null;
+      for (let i = firstIndexAtOrAfter(points, since); i < end; i++) {
+        const p = points[i];
+        if (!best || (extreme === 'highest' ? p.price > best.price : p.price < best.price)) {
+          best = p;
+        }
+      }
+      return best;
+    },
+
+    async getVolumeStats(assetId, currency, since, before) {
+      const { points, end } = pointsOf(assetId, currency);
+      const window = points.slice(firstIndexAtOrAfter(points, since), Math.min(firstIndexAtOrAfter(points, before), end))
+        .filter(p => p.volume24h !== null);
+      if (window.length === 0) {
+        return { averageVolume: null, oldestTimestamp: null };
+      }
+      const total = window.reduce((sum, p) => sum + (p.volume24h ?? 0), 0);
+      return { averageVolume: total / window.length, oldestTimestamp: window[0].timestamp };
+    },
+
+    async findRecent(assetId, currency, count, recentUpTo) {
+      const { points, end } = pointsOf(assetId, currency);
+      const recentEnd = recentUpTo ? Math.min(endIndexUpTo(points, recentUpTo), end) : end;
+      return points.slice(Math.max(0, recentEnd - count), recentEnd).reverse();
+    },
+
+    async findRange(assetId, currency, since, rangeUpTo) {
+      const assetIds = typeof assetId === 'string' ? [assetId] : assetId.in;
+      const ranges = assetIds.flatMap(id => {
+        const { points, end } = pointsOf(id, currency);
+        return points.slice(firstIndexAtOrAfter(points, since), Math.min(endIndexUpTo(points, rangeUpTo), end));
+      });
+      return assetIds.length > 1 ? ranges.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()) : ranges;
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { marketDataKeys, type Coin, type PriceData } from '@/lib/coingecko';
+import type { PriceProvider } from './index';
+
+const COINCAP_API_BASE_URL = 'https://rest.coincap.io/v3';
+const API_KEY = process.env.COINCAP_API_KEY; // Required by the v3 API
+const COINS_LIMIT = 1000;
+
+// Relevant fields from the /assets response (numbers are returned as strings)
+interface CoinCapAsset {
+  id: string;
+  symbol: string;
+  name: string;
+  priceUsd: string | null;
+  marketCapUsd: string | null;
+  volumeUsd24Hr: string | null;
+  changePercent24Hr: string | null;
+}
+
+// Parses one of CoinCap's numeric strings, returning null if it is missing or not a number
+function parseNumber(value: string | null): number | null {
+  const parsed = value !== null ? parseFloat(value) : NaN;
+  return isNaN(parsed) ? null : parsed;
+}
+
+async function fetchAssets(query: string): Promise<CoinCapAsset[]> {
+  if (!API_KEY) {
+    throw new Error('COINCAP_API_KEY environment variable is not set.');
+  }
+  const response = await fetch(`${COINCAP_API_BASE_URL}/assets?${query}`, {
+    headers: { Authorization: `Bearer ${API_KEY}` },
+  });
+  if (!response.ok) {
+    throw new Error(`CoinCap API Error: ${response.status} ${response.statusText}`);
+  }
+  const body: { data: CoinCapAsset[] } = await response.json();
+  return body.data;
+}
+
+// Live prices from the CoinCap API. CoinCap asset IDs match CoinGecko IDs for most major coins;
+// coins CoinCap does not know are simply omitted from the result. Only USD quotes (with market cap,
+// 24h volume and 24h change) are provided.
+export const coincapProvider: PriceProvider = {
+  name: 'coincap',
+
+  async getPrices(coinIds: string[]): Promise<PriceData> {
+    if (coinIds.length === 0) {
+      return {};
+    }
+    try {
+      const assets = await fetchAssets(`ids=${coinIds.join(',')}`);
+      const result: PriceData = {};
+      const keys = marketDataKeys('usd');
+      for (const asset of assets) {
+        const price = parseNumber(asset.priceUsd);
+        if (price !== null) {
+          result[asset.id] = {
+            usd: price,
+            [keys.marketCap]: parseNumber(asset.marketCapUsd),
+            [keys.volume24h]: parseNumber(asset.volumeUsd24Hr),
+            [keys.change24h]: parseNumber(asset.changePercent24Hr),
+          };
+        }
+      }
+      return result;
+    } catch (error) {
+      console.error(`Error fetching CoinCap prices for IDs [${coinIds.join(', ')}]:`, error);
+      return {};
+    }
+  },
+
+  async getCoins(): Promise<Coin[]> {
+    const assets = await fetchAssets(`limit=${COINS_LIMIT}`);
+    return assets.map(asset => ({ id: asset.id, symbol: asset.symbol.toLowerCase(), name: asset.name }));
+  },
+};
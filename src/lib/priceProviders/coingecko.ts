@@ -0,0 +1,11 @@
+import { getPrices, getTopCoins } from '@/lib/coingecko';
+import type { PriceProvider } from './index';
+
+const PAGES_TO_FETCH = 4; // Top 1000 coins (4 * 250)
+
+// Live prices from the CoinGecko API (see src/lib/coingecko.ts)
+export const coingeckoProvider: PriceProvider = {
+  name: 'coingecko',
+  getPrices: (coinIds, currencies) => getPrices(coinIds, currencies, true),
+  getCoins: () => getTopCoins(PAGES_TO_FETCH),
+};
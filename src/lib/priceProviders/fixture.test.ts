@@ -0,0 +1,43 @@
+import path from 'path';
+import { createFixtureProvider } from './fixture';
+
+const SAMPLE_FIXTURE_PATH = path.join(__dirname, 'fixtures/sample.json');
+
+describe('createFixtureProvider', () => {
+  test('should list the coins from the fixture', async () => {
+    const provider = createFixtureProvider(SAMPLE_FIXTURE_PATH);
+    const coins = await provider.getCoins();
+    expect(coins.map(c => c.id)).toEqual(['bitcoin', 'ethereum', 'solana']);
+  });
+
+  test('should replay one recorded step per getPrices call', async () => {
+    const provider = createFixtureProvider(SAMPLE_FIXTURE_PATH);
+    expect(await provider.getPrices(['bitcoin'])).toEqual({ bitcoin: { usd: 64850.12 } });
+    expect(await provider.getPrices(['bitcoin', 'ethereum'])).toEqual({
+      bitcoin: { usd: 64910.5 },
+      ethereum: { usd: 3110.2 },
+    });
+  });
+
+  test('should repeat the last price once a series is exhausted', async () => {
+    const provider = createFixtureProvider(SAMPLE_FIXTURE_PATH);
+    for (let i = 0; i < 20; i++) {
+      await provider.getPrices(['solana']);
+    }
+    expect(await provider.getPrices(['solana'])).toEqual({ solana: { usd: 144.62 } });
+  });
+
+  test('should omit coins without a recorded series', async () => {
+    const provider = createFixtureProvider(SAMPLE_FIXTURE_PATH);
+    expect(await provider.getPrices(['bitcoin', 'unknown-coin'])).toEqual({ bitcoin: { usd: 64850.12 } });
+  });
+
+  test('should derive other currencies from rates and the bitcoin series', async () => {
+    const provider = createFixtureProvider(SAMPLE_FIXTURE_PATH);
+    const prices = await provider.getPrices(['ethereum'], ['usd', 'eur', 'btc', 'chf']);
+    expect(prices.ethereum.usd).toBe(3105.4);
+    expect(prices.ethereum.eur).toBeCloseTo(3105.4 * 0.92);
+    expect(prices.ethereum.btc).toBeCloseTo(3105.4 / 64850.12);
+    expect(prices.ethereum).not.toHaveProperty('chf');
+  });
+});
@@ -0,0 +1,77 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { Coin, PriceData } from '@/lib/coingecko';
+import type { PriceProvider } from './index';
+
+const DEFAULT_FIXTURE_PATH = path.join(process.cwd(), 'src/lib/priceProviders/fixtures/sample.json');
+
+// Crypto quote currencies and the coin whose series is used to derive them
+const CRYPTO_CURRENCY_COINS: { [currency: string]: string } = { btc: 'bitcoin', eth: 'ethereum' };
+
+// Shape of a recorded price fixture file
+export interface PriceFixture {
+  coins: Coin[];
+  // Recorded USD prices per coin ID, oldest first
+  prices: { [coinId: string]: number[] };
+  // Optional fixed USD exchange rates for fiat currencies (e.g., { "eur": 0.92 })
+  rates?: { [currency: string]: number };
+}
+
+/**
+ * Creates a provider that replays a recorded price series from a JSON file instead of calling an API.
+ * Each getPrices call returns the next recorded step; once a series runs out its last price is repeated.
+ * Coins without a recorded series are omitted from the result, like CoinGecko does for unknown IDs.
+ * Fiat currencies other than USD are derived from the fixture's `rates`; BTC and ETH quotes are derived
+ * from the recorded bitcoin/ethereum series. Currencies that can't be derived are omitted.
+ * @param fixturePath Path to the fixture file (defaults to the bundled sample).
+ */
+export function createFixtureProvider(fixturePath: string = DEFAULT_FIXTURE_PATH): PriceProvider {
+  let fixture: PriceFixture | null = null;
+  let step = 0;
+
+  async function loadFixture(): Promise<PriceFixture> {
+    if (!fixture) {
+      const raw = await readFile(fixturePath, 'utf-8');
+      fixture = JSON.parse(raw) as PriceFixture;
+    }
+    return fixture;
+  }
+
+  return {
+    name: `fixture (${path.basename(fixturePath)})`,
+
+    async getPrices(coinIds: string[], currencies: string[] = ['usd']): Promise<PriceData> {
+      const { prices, rates = {} } = await loadFixture();
+      const usdPriceAtStep = (coinId: string): number | undefined => {
+        const series = prices[coinId];
+        return series && series.length > 0 ? series[Math.min(step, series.length - 1)] : undefined;
+      };
+
+      const result: PriceData = {};
+      for (const coinId of coinIds) {
+        const usdPrice = usdPriceAtStep(coinId);
+        if (usdPrice === undefined) {
+          continue;
+        }
+        result[coinId] = {};
+        for (const currency of currencies) {
+          const cryptoPrice = CRYPTO_CURRENCY_COINS[currency] ? usdPriceAtStep(CRYPTO_CURRENCY_COINS[currency]) : undefined;
+          if (currency === 'usd') {
+            result[coinId][currency] = usdPrice;
+          } else if (rates[currency] !== undefined) {
+            result[coinId][currency] = usdPrice * rates[currency];
+          } else if (cryptoPrice) {
+            result[coinId][currency] = usdPrice / cryptoPrice;
+          }
+        }
+      }
+      step++;
+      return result;
+    },
+
+    async getCoins(): Promise<Coin[]> {
+      const { coins } = await loadFixture();
+      return coins;
+    },
+  };
+}
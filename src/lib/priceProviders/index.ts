@@ -0,0 +1,69 @@
+import type { Coin, PriceData } from '@/lib/coingecko';
+import { coingeckoProvider } from './coingecko';
+import { coincapProvider } from './coincap';
+import { createFixtureProvider } from './fixture';
+
+/**
+ * A source of price data and searchable coins.
+ * Coins are always identified by their CoinGecko ID, which is what we store on `Asset.coingeckoId`.
+ */
+export interface PriceProvider {
+  name: string;
+  /**
+   * Fetches current prices, keyed by coin ID and then currency (e.g., { bitcoin: { usd: 65000 } }).
+   * Currencies are lowercase codes and default to ["usd"]; a provider omits currencies it cannot quote.
+   * Providers may also return market data under the keys from `marketDataKeys` (see PriceData).
+   */
+  getPrices(coinIds: string[], currencies?: string[]): Promise<PriceData>;
+  /** Lists the coins users can search for and track. Throws if the list cannot be loaded. */
+  getCoins(): Promise<Coin[]>;
+}
+
+let providers: PriceProvider[] | null = null;
+
+/**
+ * Creates a provider from its configuration name.
+ * "fixture" uses PRICE_FIXTURE_PATH; "fixture:<path>" replays a specific file, so several
+ * fixture providers can be combined to simulate disagreeing sources.
+ */
+function createProvider(providerName: string): PriceProvider {
+  if (providerName === 'coingecko') {
+    return coingeckoProvider;
+  }
+  if (providerName === 'coincap') {
+    return coincapProvider;
+  }
+  if (providerName === 'fixture') {
+    return createFixtureProvider(process.env.PRICE_FIXTURE_PATH);
+  }
+  if (providerName.startsWith('fixture:')) {
+    return createFixtureProvider(providerName.slice('fixture:'.length));
+  }
+  throw new Error(`Unknown price provider "${providerName}". Expected "coingecko", "coincap" or "fixture".`);
+}
+
+/**
+ * Returns the configured price providers, in priority order.
+ * PRICE_PROVIDERS takes a comma-separated list (e.g., "coingecko,coincap"); otherwise the single
+ * PRICE_PROVIDER is used, defaulting to "coingecko".
+ * Instances are cached so stateful providers (e.g., fixture replay) keep their position between calls.
+ */
+export function getPriceProviders(): PriceProvider[] {
+  if (!providers) {
+    const configured = process.env.PRICE_PROVIDERS || process.env.PRICE_PROVIDER || 'coingecko';
+    const names = configured.split(',').map(name => name.trim()).filter(Boolean);
+    providers = names.map(createProvider);
+    console.log(`Price Provider: Using ${providers.map(p => p.name).join(', ')}.`);
+    if (providers.length < 2) {
+      console.warn('Price Provider: Only one provider is configured, so outlier quotes are not filtered. Set PRICE_PROVIDERS to at least two providers (e.g., "coingecko,coincap").');
+    }
+  }
+  return providers;
+}
+
+/**
+ * Returns the primary (first configured) price provider, used for coin search.
+ */
+export function getPriceProvider(): PriceProvider {
+  return getPriceProviders()[0];
+}
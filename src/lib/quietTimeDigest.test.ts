@@ -0,0 +1,195 @@
+import { DeliveryChannel, NotificationRuleType, PriceHistory, QuoteCurrency, User, UserRole } from '@prisma/client';
+
+const mockTriggeredAlertFindMany = jest.fn();
+const mockTriggeredAlertUpdateMany = jest.fn();
+const mockPriceHistoryFindMany = jest.fn();
+const mockSendQuietTimeDigestEmail = jest.fn();
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    triggeredAlert: { findMany: mockTriggeredAlertFindMany, updateMany: mockTriggeredAlertUpdateMany },
+    priceHistory: { findMany: mockPriceHistoryFindMany },
+  },
+}));
+jest.mock('./emailSender', () => ({
+  sendQuietTimeDigestEmail: mockSendQuietTimeDigestEmail,
+}));
+
+import { sendQuietTimeDigests } from './quietTimeDigest';
+import { StoredAlert } from './notificationSender';
+
+const createUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-digest',
+  email: 'digest@test.com',
+  emailVerified: null,
+  phoneNumber: null,
+  phoneNumberVerified: null,
+  passwordHash: null,
+  role: UserRole.USER,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  quietTimeEnabled: true,
+  quietTimeStart: '22:00',
+  quietTimeEnd: '07:00',
+  quietTimeZone: 'America/New_York',
+  quietTimeAllowCritical: true,
+  quietTimeBreakthroughPercent: null,
+  quietTimeDigestEnabled: true,
+  morningSummaryEnabled: false,
+  morningSummaryTime: '08:00',
+  referenceCurrency: QuoteCurrency.USD,
+  defaultChannels: [DeliveryChannel.EMAIL],
+  phoneVerificationCodeHash: null,
+  phoneVerificationExpiresAt: null,
+  phoneVerificationAttempts: 0,
+  phoneVerificationSentAt: null,
+  phoneVerificationWindowStart: null,
+  phoneVerificationSendCount: 0,
+  telegramChatId: null,
+  telegramLinkCodeHash: null,
+  telegramLinkExpiresAt: null,
+  discordWebhookUrl: null,
+  ...overrides,
+});
+
+const createAlert = (id: string, user: User, triggeredAt: Date, triggeringPrice: number): StoredAlert => ({
+  id,
+  ruleId: `rule-${id}`,
+  portfolioRuleId: null,
+  triggeredAt,
+  triggeringPrice,
+  quietTimeBreakthrough: null,
+  queuedForDigest: true,
+  digestSentAt: null,
+  peakPrice: null,
+  ratio: null,
+  marketCap: null,
+  volume24h: null,
+  allocationPercent: null,
+  rule: {
+    id: `rule-${id}`,
+    trackedAssetId: 'tracked-btc',
+    type: NotificationRuleType.PRICE_TARGET_BELOW,
+    value: 60000,
+    timeWindowHours: null,
+    movingAverageType: null,
+    crossDirection: null,
+    condition: null,
+    expression: null,
+    indicatorPeriod: null,
+    peakPrice: null,
+    peakAt: null,
+    compareAssetId: null,
+    templateId: null,
+    triggerMode: 'CROSSING',
+    quoteCurrency: QuoteCurrency.USD,
+    cooldownMinutes: 120,
+    rearmMode: 'REPEAT',
+    rearmPercent: null,
+    isArmed: true,
+    channels: [],
+    priority: 'NORMAL',
+    isEnabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastTriggeredAt: null,
+    compareAsset: null,
+    trackedAsset: {
+      id: 'tracked-btc',
+      userId: user.id,
+      assetId: 'asset-btc',
+      createdAt: new Date(),
+      quantity: null,
+      averageCost: null,
+      costCurrency: null,
+      asset: { id: 'asset-btc', coingeckoId: 'bitcoin', symbol: 'btc', name: 'Bitcoin' },
+      user,
+    },
+  },
+  portfolioRule: null,
+});
+
+const latestPrice: PriceHistory = {
+  id: 'price-latest',
+  assetId: 'asset-btc',
+  price: 61200,
+  currency: QuoteCurrency.USD,
+  sources: [],
+  marketCap: null,
+  volume24h: null,
+  change24h: null,
+  timestamp: new Date(),
+};
+
+describe('sendQuietTimeDigests', () => {
+  const notQuiet = jest.fn().mockReturnValue(false);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    notQuiet.mockReturnValue(false);
+    mockPriceHistoryFindMany.mockResolvedValue([latestPrice]);
+    mockSendQuietTimeDigestEmail.mockResolvedValue(true);
+  });
+
+  test('sends held alerts oldest first with trigger and current prices, then marks them sent', async () => {
+    const user = createUser();
+    mockTriggeredAlertFindMany.mockResolvedValue([
+      createAlert('late', user, new Date('2026-10-19T09:30:00Z'), 59500), // 05:30 in New York
+      createAlert('early', user, new Date('2026-10-19T06:15:00Z'), 59800), // 02:15
+    ]);
+
+    expect(await sendQuietTimeDigests(notQuiet)).toBe(1);
+
+    expect(mockSendQuietTimeDigestEmail).toHaveBeenCalledWith('digest@test.com', [
+      expect.objectContaining({ symbol: 'BTC', triggeredAt: '02:15', triggeringPrice: 59800, currentPrice: 61200, description: 'Price went below $60,000.00' }),
+      expect.objectContaining({ symbol: 'BTC', triggeredAt: '05:30', triggeringPrice: 59500, currentPrice: 61200 }),
+    ]);
+    expect(mockTriggeredAlertUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['late', 'early'] } },
+      data: { digestSentAt: expect.any(Date) },
+    });
+  });
+
+  test('describes alerts with the details stored when they fired', async () => {
+    const user = createUser();
+    const alert = createAlert('trailing', user, new Date('2026-10-19T06:15:00Z'), 59800);
+    alert.peakPrice = 65000;
+    alert.rule!.type = NotificationRuleType.TRAILING_STOP;
+    alert.rule!.value = 8;
+    alert.rule!.peakPrice = 70000; // The peak has moved on since the alert fired
+    mockTriggeredAlertFindMany.mockResolvedValue([alert]);
+
+    await sendQuietTimeDigests(notQuiet);
+
+    expect(mockSendQuietTimeDigestEmail).toHaveBeenCalledWith('digest@test.com', [
+      expect.objectContaining({ description: 'Price fell 8% below its peak of $65,000.00' }),
+    ]);
+  });
+
+  test('waits until quiet time is over', async () => {
+    const user = createUser();
+    mockTriggeredAlertFindMany.mockResolvedValue([createAlert('held', user, new Date(), 59500)]);
+    notQuiet.mockReturnValue(true);
+
+    expect(await sendQuietTimeDigests(notQuiet)).toBe(0);
+    expect(mockSendQuietTimeDigestEmail).not.toHaveBeenCalled();
+    expect(mockTriggeredAlertUpdateMany).not.toHaveBeenCalled();
+  });
+
+  test('skips users who turned the digest off', async () => {
+    const user = createUser({ quietTimeDigestEnabled: false });
+    mockTriggeredAlertFindMany.mockResolvedValue([createAlert('held', user, new Date(), 59500)]);
+
+    expect(await sendQuietTimeDigests(notQuiet)).toBe(0);
+    expect(mockSendQuietTimeDigestEmail).not.toHaveBeenCalled();
+  });
+
+  test('keeps alerts queued if the email fails', async () => {
+    const user = createUser();
+    mockTriggeredAlertFindMany.mockResolvedValue([createAlert('held', user, new Date(), 59500)]);
+    mockSendQuietTimeDigestEmail.mockResolvedValue(false);
+
+    expect(await sendQuietTimeDigests(notQuiet)).toBe(0);
+    expect(mockTriggeredAlertUpdateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { prisma } from '@/lib/prisma';
+import { PriceHistory, QuoteCurrency, User } from '@prisma/client';
+import { subHours } from 'date-fns';
+import { format, toZonedTime } from 'date-fns-tz';
+import { isQuietTime } from './ruleEvaluator';
+import { describeStoredAlert, StoredAlert, storedAlertInclude } from './notificationSender';
+import { sendQuietTimeDigestEmail } from './emailSender';
+
+// Alerts held longer than this are left out of the digest (e.g. queued before the user turned digests off and on again)
+export const MAX_DIGEST_ALERT_AGE_HOURS = 24;
+
+export interface QuietTimeDigestEntry {
+  symbol: string | null; // Null for portfolio rules
+  name: string;
+  description: string; // What the rule detected
+  triggeredAt: string; // Time the alert fired, in the user's time zone
+  currency: QuoteCurrency; // Currency of triggeringPrice and currentPrice
+  triggeringPrice: number;
+  currentPrice: number | null; // Null for portfolio rules
+}
+
+// The user an alert belongs to
+function alertUser(alert: StoredAlert): User {
+  const user = alert.rule?.trackedAsset.user ?? alert.portfolioRule?.user;
+  if (!user) {
+    throw new Error(`Triggered alert ${alert.id} has no rule`);
+  }
+  return user;
+}
+
+/**
+ * Builds the digest entries for a user's held alerts, oldest first.
+ * @param latestPrices Latest price for each asset, keyed by `${assetId}:${currency}`.
+ */
+export function buildDigestEntries(alerts: StoredAlert[], latestPrices: Map<string, PriceHistory>, timeZone: string | null): QuietTimeDigestEntry[] {
+  return [...alerts]
+    .sort((a, b) => a.triggeredAt.getTime() - b.triggeredAt.getTime())
+    .map(alert => {
+      const { rule, portfolioRule } = alert;
+      const zone = timeZone ?? 'UTC';
+      const entry = {
+        description: describeStoredAlert(alert),
+        triggeredAt: format(toZonedTime(alert.triggeredAt, zone), 'HH:mm', { timeZone: zone }),
+        triggeringPrice: alert.triggeringPrice,
+      };
+      if (!rule) {
+        return {
+          ...entry,
+          symbol: null,
+          name: 'Portfolio',
+          currency: portfolioRule?.quoteCurrency ?? QuoteCurrency.USD,
+          currentPrice: null,
+        };
+      }
+      return {
+        ...entry,
+        symbol: rule.trackedAsset.asset.symbol.toUpperCase(),
+        name: rule.trackedAsset.asset.name,
+        currency: rule.quoteCurrency,
+        currentPrice: latestPrices.get(`${rule.trackedAsset.assetId}:${rule.quoteCurrency}`)?.price ?? null,
+      };
+    });
+}
+
+/**
+ * Sends each user whose quiet time has ended one "while you were sleeping" email with the alerts
+ * that were held during it. Users who turned the digest off, or are still in quiet time, are skipped.
+ *
+ * This function is designed to be called by the price-fetching cron job, after rules are evaluated.
+ * @param quietTimeChecker Optional function to check for quiet time (defaults to isQuietTime).
+ * @returns {Promise<number>} The number of digests sent.
+ */
+export async function sendQuietTimeDigests(
+  quietTimeChecker: (user: User, nowUtc?: Date) => boolean = isQuietTime
+): Promise<number> {
+  const now = new Date();
+  const heldAlerts: StoredAlert[] = await prisma.triggeredAlert.findMany({
+    where: {
+      queuedForDigest: true,
+      digestSentAt: null,
+      triggeredAt: { gte: subHours(now, MAX_DIGEST_ALERT_AGE_HOURS) },
+    },
+    include: storedAlertInclude,
+  });
+
+  if (heldAlerts.length === 0) {
+    return 0;
+  }
+
+  // Group the held alerts by user
+  const alertsByUser = new Map<string, { user: User; alerts: StoredAlert[] }>();
+  for (const alert of heldAlerts) {
+    const user = alertUser(alert);
+    const group = alertsByUser.get(user.id) ?? { user, alerts: [] };
+    group.alerts.push(alert);
+    alertsByUser.set(user.id, group);
+  }
+
+  let digestsSent = 0;
+  for (const { user, alerts } of alertsByUser.values()) {
+    if (!user.quietTimeDigestEnabled || quietTimeChecker(user, now)) {
+      continue;
+    }
+
+    try {
+      const assetRules = alerts.flatMap(a => a.rule ? [a.rule] : []);
+      const latestPriceRecords = await prisma.priceHistory.findMany({
+        where: {
+          assetId: { in: [...new Set(assetRules.map(r => r.trackedAsset.assetId))] },
+          currency: { in: [...new Set(assetRules.map(r => r.quoteCurrency))] },
+        },
+        orderBy: { timestamp: 'desc' },
+        distinct: ['assetId', 'currency'],
+      });
+      const latestPrices = new Map(latestPriceRecords.map(p => [`${p.assetId}:${p.currency}`, p]));
+
+      const sent = await sendQuietTimeDigestEmail(user.email, buildDigestEntries(alerts, latestPrices, user.quietTimeZone));
+      if (!sent) {
+        continue; // Left queued; the next pass tries again
+      }
+
+      await prisma.triggeredAlert.updateMany({
+        where: { id: { in: alerts.map(a => a.id) } },
+        data: { digestSentAt: now },
+      });
+      digestsSent++;
+      console.log(`Quiet Time Digest: Sent ${alerts.length} held alerts to user ${user.id}.`);
+    } catch (error) {
+      console.error(`Quiet Time Digest: Failed to send digest to user ${user.id}:`, error);
+    }
+  }
+
+  return digestsSent;
+}
@@ -0,0 +1,83 @@
+import { NotificationRuleType, PriceHistory, PriceTriggerMode, QuoteCurrency, RuleRearmMode } from '@prisma/client';
+
+// ruleEvaluator imports both; backtests must never touch either
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('./notificationSender', () => ({ sendNotifications: jest.fn() }));
+
+import { backtestRule, BacktestRule } from './ruleBacktest';
+
+const START = new Date('2026-10-01T12:00:00Z');
+
+// One point every 15 minutes, like the price fetch cron
+const createSeries = (prices: number[], assetId = 'asset-btc'): PriceHistory[] =>
+  prices.map((price, i) => ({
+    id: `${assetId}-${i}`,
+    assetId,
+    price,
+    currency: QuoteCurrency.USD,
+    sources: [],
+    marketCap: null,
+    volume24h: null,
+    change24h: null,
+    timestamp: new Date(START.getTime() + i * 15 * 60 * 1000),
+  }));
+
+const createRule = (overrides: Partial<BacktestRule> = {}): BacktestRule => ({
+  id: 'backtest',
+  type: NotificationRuleType.PRICE_TARGET_BELOW,
+  value: 100,
+  timeWindowHours: null,
+  movingAverageType: null,
+  crossDirection: null,
+  indicatorPeriod: null,
+  triggerMode: PriceTriggerMode.CROSSING,
+  expression: null,
+  compareAssetId: null,
+  quoteCurrency: QuoteCurrency.USD,
+  createdAt: new Date(),
+  cooldownMinutes: 60,
+  rearmMode: RuleRearmMode.REPEAT,
+  rearmPercent: null,
+  ...overrides,
+});
+
+describe('backtestRule', () => {
+  test('reports each crossing outside the cooldown period', async () => {
+    const history = createSeries([105, 99, 101, 98, 102, 97]);
+
+    const result = await backtestRule(createRule(), { assetId: 'asset-btc', history });
+
+    expect(result.pointsEvaluated).toBe(6);
+    expect(result.from).toEqual(history[0].timestamp);
+    expect(result.to).toEqual(history[5].timestamp);
+    // The crossing to 98 falls 30 minutes after the first firing, inside the 60 minute cooldown
+    expect(result.firings.map(f => f.price)).toEqual([99, 97]);
+    expect(result.firings[0]).toEqual({ timestamp: history[1].timestamp, price: 99, ratio: null, duringQuietTime: false });
+  });
+
+  test('stops after the first firing for one-time rules', async () => {
+    const history = createSeries([105, 99, 101, 98]);
+
+    const result = await backtestRule(createRule({ rearmMode: RuleRearmMode.ONCE, cooldownMinutes: 0 }), { assetId: 'asset-btc', history });
+
+    expect(result.firings.map(f => f.price)).toEqual([99]);
+  });
+
+  test('follows the trailing peak and restarts it after firing', async () => {
+    const history = createSeries([100, 120, 110, 107, 100, 96]);
+    const rule = createRule({ type: NotificationRuleType.TRAILING_STOP, value: 10, triggerMode: PriceTriggerMode.LEVEL, cooldownMinutes: 0 });
+
+    const result = await backtestRule(rule, { assetId: 'asset-btc', history });
+
+    // 10% below the 120 peak is 108; after firing at 107 the next stop is 96.3
+    expect(result.firings.map(f => f.price)).toEqual([107, 96]);
+  });
+
+  test('ignores other assets and reports nothing without history', async () => {
+    const history = createSeries([105, 99], 'asset-eth');
+
+    const result = await backtestRule(createRule(), { assetId: 'asset-btc', history });
+
+    expect(result).toEqual({ from: null, to: null, pointsEvaluated: 0, firings: [] });
+  });
+});
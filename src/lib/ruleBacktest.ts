@@ -0,0 +1,108 @@
+import { NotificationRule, NotificationRuleType, PriceHistory, RuleRearmMode, TriggeredAlert, User } from '@prisma/client';
+import { checkRuleConditions, EvaluableRule, hasMovedBackPastTarget, isInCooldown, isQuietTime } from './ruleEvaluator';
+import { createSeriesPriceHistorySource } from './priceHistorySource';
+import { CompositeCondition } from './ruleConditions';
+
+// A rule to replay, saved or not: what decides whether it fires and when it can fire again
+export type BacktestRule = EvaluableRule & Pick<NotificationRule, 'cooldownMinutes' | 'rearmMode' | 'rearmPercent'>;
+
+export interface BacktestOptions {
+  assetId: string; // The asset of the rule's tracked asset
+  history: PriceHistory[]; // Stored prices of every asset the rule uses, in the rule's quote currency
+  compositeCondition?: CompositeCondition; // Compound rules: the parsed condition tree
+  ownedAssets?: Map<string, string>; // Compound rules: asset IDs of the owner's tracked assets, keyed by tracked asset ID
+  user?: User; // To flag firings that would have fallen in the user's quiet time
+}
+
+export interface BacktestFiring {
+  timestamp: Date;
+  price: number;
+  ratio: number | null; // Ratio rules: the ratio when the rule fired
+  duringQuietTime: boolean;
+}
+
+export interface BacktestResult {
+  from: Date | null; // First and last price point replayed
+  to: Date | null;
+  pointsEvaluated: number;
+  firings: BacktestFiring[];
+}
+
+/**
+ * Replays stored price history through the same checks as the cron pass, one price point at a
+ * time, and reports when (and at what price) the rule would have fired. Cooldown, re-arm modes and
+ * trailing stop peaks are simulated as if the rule had existed from the first point.
+ */
+export async function backtestRule(rule: BacktestRule, options: BacktestOptions): Promise<BacktestResult> {
+  const sorted = [...options.history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const points = sorted.filter(p => p.assetId === options.assetId && p.currency === rule.quoteCurrency);
+  const result: BacktestResult = {
+    from: points[0]?.timestamp ?? null,
+    to: points[points.length - 1]?.timestamp ?? null,
+    pointsEvaluated: points.length,
+    firings: [],
+  };
+  if (points.length === 0) {
+    return result;
+  }
+
+  // Treat the rule as created at the first point, so crossings after it count
+  const replayedRule = { ...rule, createdAt: points[0].timestamp };
+  const latestPricesMap = new Map<string, PriceHistory>();
+  const history = createSeriesPriceHistorySource(sorted);
+  let known = 0; // sorted[0..known) is the history as of the current point
+  let lastTriggered: Pick<TriggeredAlert, 'triggeredAt'> | undefined;
+  let isArmed = true;
+  let trailingPeak: number | null = null;
+
+  for (const point of points) {
+    while (known < sorted.length && sorted[known].timestamp <= point.timestamp) {
+      latestPricesMap.set(`${sorted[known].assetId}:${sorted[known].currency}`, sorted[known]);
+      known++;
+    }
+
+    if (rule.type === NotificationRuleType.TRAILING_STOP && (trailingPeak === null || point.price > trailingPeak)) {
+      trailingPeak = point.price;
+    }
+    if (rule.rearmMode === RuleRearmMode.CROSS_BACK && !isArmed) {
+      isArmed = hasMovedBackPastTarget(rule, point.price);
+      continue;
+    }
+    if (isInCooldown(rule, lastTriggered, point.timestamp)) {
+      continue;
+    }
+
+    const { conditionMet, ratio } = await checkRuleConditions(replayedRule, {
+      assetId: options.assetId,
+      latestPrice: point,
+      lastTriggered,
+      history: history.asOf(point.timestamp),
+      trailingPeak,
+      compositeCondition: options.compositeCondition,
+      ownedAssets: options.ownedAssets ?? new Map(),
+      latestPricesMap,
+    });
+    if (!conditionMet) {
+      continue;
+    }
+
+    result.firings.push({
+      timestamp: point.timestamp,
+      price: point.price,
+      ratio,
+      duringQuietTime: options.user ? isQuietTime(options.user, point.timestamp) : false,
+    });
+    lastTriggered = { triggeredAt: point.timestamp };
+    if (rule.rearmMode === RuleRearmMode.ONCE) {
+      break;
+    }
+    if (rule.rearmMode === RuleRearmMode.CROSS_BACK) {
+      isArmed = false;
+    }
+    if (rule.type === NotificationRuleType.TRAILING_STOP) {
+      trailingPeak = point.price;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,71 @@
+import { NotificationRuleType, QuoteCurrency } from '@prisma/client';
+import { compositeConditionSchema, describeCompositeCondition, MAX_COMPOSITE_CONDITIONS } from './ruleConditions';
+
+const leaf = (type: NotificationRuleType = NotificationRuleType.PRICE_TARGET_BELOW, extra: object = {}) => ({
+  kind: 'condition',
+  trackedAssetId: 'cln0000000000000000btc00',
+  assetSymbol: 'btc',
+  type,
+  value: 60000,
+  ...extra,
+});
+
+describe('compositeConditionSchema', () => {
+  test('accepts nested AND/OR groups', () => {
+    const result = compositeConditionSchema.safeParse({
+      kind: 'group',
+      operator: 'AND',
+      conditions: [leaf(), { kind: 'group', operator: 'OR', conditions: [leaf(), leaf(NotificationRuleType.PERCENT_CHANGE_DECREASE, { value: 8, timeWindowHours: 24 })] }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test('applies the per-type checks to each condition', () => {
+    const result = compositeConditionSchema.safeParse({
+      kind: 'group',
+      operator: 'AND',
+      conditions: [leaf(NotificationRuleType.PERCENT_CHANGE_DECREASE, { value: 8 })], // Missing timeWindowHours
+    });
+    expect(result.success).toBe(false);
+  });
+
+  test('rejects compound rules inside compound rules', () => {
+    const result = compositeConditionSchema.safeParse({ kind: 'group', operator: 'OR', conditions: [leaf(NotificationRuleType.COMPOSITE)] });
+    expect(result.success).toBe(false);
+  });
+
+  test('rejects empty groups and too many conditions', () => {
+    expect(compositeConditionSchema.safeParse({ kind: 'group', operator: 'AND', conditions: [] }).success).toBe(false);
+    const tooMany = Array.from({ length: MAX_COMPOSITE_CONDITIONS + 1 }, () => leaf());
+    expect(compositeConditionSchema.safeParse({ kind: 'group', operator: 'AND', conditions: tooMany }).success).toBe(false);
+  });
+
+  test('rejects groups nested too deeply', () => {
+    let node: object = leaf();
+    for (let i = 0; i < 4; i++) {
+      node = { kind: 'group', operator: 'AND', conditions: [node] };
+    }
+    expect(compositeConditionSchema.safeParse(node).success).toBe(false);
+  });
+});
+
+describe('describeCompositeCondition', () => {
+  test('describes conditions with parentheses around nested groups', () => {
+    const description = describeCompositeCondition({
+      kind: 'group',
+      operator: 'AND',
+      conditions: [
+        { kind: 'condition', trackedAssetId: 'a', assetSymbol: 'btc', type: NotificationRuleType.PRICE_TARGET_BELOW, value: 60000, triggerMode: 'LEVEL' },
+        {
+          kind: 'group',
+          operator: 'OR',
+          conditions: [
+            { kind: 'condition', trackedAssetId: 'a', assetSymbol: 'btc', type: NotificationRuleType.PERCENT_CHANGE_DECREASE, value: 8, timeWindowHours: 24 },
+            { kind: 'condition', trackedAssetId: 'b', assetSymbol: 'eth', type: NotificationRuleType.MOVING_AVERAGE_CROSS, value: 50, movingAverageType: 'EMA', crossDirection: 'BELOW' },
+          ],
+        },
+      ],
+    }, QuoteCurrency.USD);
+    expect(description).toBe('BTC below $60,000.00 AND (BTC down 8% in 24h OR ETH crosses below its 50-period EMA)');
+  });
+});
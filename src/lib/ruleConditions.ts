@@ -0,0 +1,289 @@
+// Shared validation and descriptions for rule conditions (used by the API, the rule evaluator and the rule forms)
+import { z } from 'zod';
+import { NotificationRuleType, MovingAverageType, CrossDirection, PriceTriggerMode, QuoteCurrency } from '@prisma/client';
+import { MAX_BOLLINGER_MULTIPLIER, MAX_MOVING_AVERAGE_PERIOD, MAX_RSI_PERIOD } from './indicators';
+import { formatCompactAmount, formatPrice } from './currency';
+
+// Limits for compound rules, to keep them readable and cheap to evaluate
+export const MAX_COMPOSITE_CONDITIONS = 10;
+export const MAX_COMPOSITE_DEPTH = 3;
+
+// Longest look-back for percentage change, drawdown and rally rules
+export const MAX_TIME_WINDOW_HOURS = 72;
+// Ratio changes can look back over the whole price history (kept for 7 days), e.g. "this week"
+export const MAX_RATIO_WINDOW_HOURS = 168;
+// Volume spikes compare the latest 24h volume with its average over this many days
+export const VOLUME_SPIKE_AVERAGE_DAYS = 7;
+
+export type CompositeOperator = 'AND' | 'OR';
+
+// Rule types that can't be used inside compound rules: they have their own stored condition, state or second asset
+const NON_COMPOSITE_RULE_TYPES = [
+  NotificationRuleType.COMPOSITE,
+  NotificationRuleType.EXPRESSION,
+  NotificationRuleType.TRAILING_STOP,
+  NotificationRuleType.RATIO_ABOVE,
+  NotificationRuleType.RATIO_BELOW,
+  NotificationRuleType.RATIO_CHANGE_INCREASE,
+  NotificationRuleType.RATIO_CHANGE_DECREASE,
+] as const;
+
+/**
+ * A single comparison inside a compound rule, on one of the user's tracked assets.
+ */
+export interface CompositeConditionLeaf {
+  kind: 'condition';
+  trackedAssetId: string;
+  assetSymbol: string; // Filled in by the API, for descriptions
+  type: Exclude<NotificationRuleType, typeof NON_COMPOSITE_RULE_TYPES[number]>;
+  value: number;
+  timeWindowHours?: number | null;
+  movingAverageType?: MovingAverageType | null;
+  crossDirection?: CrossDirection | null;
+  indicatorPeriod?: number | null;
+  triggerMode?: PriceTriggerMode | null; // Price targets in compound rules default to LEVEL
+}
+
+/**
+ * Conditions (or nested groups) combined with AND or OR.
+ */
+export interface CompositeConditionGroup {
+  kind: 'group';
+  operator: CompositeOperator;
+  conditions: CompositeCondition[];
+}
+
+export type CompositeCondition = CompositeConditionLeaf | CompositeConditionGroup;
+
+// The fields that describe what a rule checks, shared by simple rules and compound rule conditions
+export const ruleConditionShape = {
+  type: z.nativeEnum(NotificationRuleType),
+  value: z.number(),
+  timeWindowHours: z.number().int().min(1).max(MAX_RATIO_WINDOW_HOURS).optional(), // Optional, but validated if present; the limit depends on the rule type
+  movingAverageType: z.nativeEnum(MovingAverageType).optional(),
+  crossDirection: z.nativeEnum(CrossDirection).optional(),
+  indicatorPeriod: z.number().int().optional(), // Range depends on the rule type
+  triggerMode: z.nativeEnum(PriceTriggerMode).optional(),
+};
+
+type RuleConditionInput = {
+  type: NotificationRuleType;
+  value: number;
+  timeWindowHours?: number | null;
+  movingAverageType?: MovingAverageType | null;
+  crossDirection?: CrossDirection | null;
+  indicatorPeriod?: number | null;
+};
+
+/**
+ * Whether a rule type looks back over `timeWindowHours`.
+ */
+export function isWindowedRuleType(type: NotificationRuleType): boolean {
+  return type === NotificationRuleType.PERCENT_CHANGE_INCREASE
+    || type === NotificationRuleType.PERCENT_CHANGE_DECREASE
+    || type === NotificationRuleType.DRAWDOWN_FROM_HIGH
+    || type === NotificationRuleType.RALLY_FROM_LOW
+    || isRatioChangeRuleType(type);
+}
+
+/**
+ * Whether a rule type compares the asset's price with a second asset's (see `compareAssetId`).
+ */
+export function isRatioRuleType(type: NotificationRuleType): boolean {
+  return type === NotificationRuleType.RATIO_ABOVE || type === NotificationRuleType.RATIO_BELOW || isRatioChangeRuleType(type);
+}
+
+function isRatioChangeRuleType(type: NotificationRuleType): boolean {
+  return type === NotificationRuleType.RATIO_CHANGE_INCREASE || type === NotificationRuleType.RATIO_CHANGE_DECREASE;
+}
+
+/**
+ * Checks the fields each rule type needs. Use with `.superRefine`.
+ */
+export function refineRuleCondition(data: RuleConditionInput, ctx: z.RefinementCtx): void {
+  // Require timeWindowHours for percent change and window high/low types
+  if (isWindowedRuleType(data.type) && typeof data.timeWindowHours !== 'number') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "timeWindowHours is required for percentage change, drawdown, rally and ratio change rule types", path: ["timeWindowHours"] });
+  }
+  const maxWindowHours = isRatioChangeRuleType(data.type) ? MAX_RATIO_WINDOW_HOURS : MAX_TIME_WINDOW_HOURS;
+  if (typeof data.timeWindowHours === 'number' && data.timeWindowHours > maxWindowHours) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `timeWindowHours must be at most ${maxWindowHours} for this rule type`, path: ["timeWindowHours"] });
+  }
+  // For drawdowns and rallies the value is the distance (in %) from the window's high or low
+  if (data.type === NotificationRuleType.DRAWDOWN_FROM_HIGH && (data.value <= 0 || data.value >= 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Drawdown percentage must be between 0 and 100", path: ["value"] });
+  }
+  if (data.type === NotificationRuleType.RALLY_FROM_LOW && data.value <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Rally percentage must be above 0", path: ["value"] });
+  }
+  if (data.type === NotificationRuleType.MOVING_AVERAGE_CROSS) {
+    // Moving average crosses need an average type and a direction
+    if (!data.movingAverageType || !data.crossDirection) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "movingAverageType and crossDirection are required for moving average cross rules", path: ["movingAverageType"] });
+    }
+    // For moving average crosses the value is the period, in price points
+    if (!Number.isInteger(data.value) || data.value < 2 || data.value > MAX_MOVING_AVERAGE_PERIOD) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Moving average period must be a whole number between 2 and ${MAX_MOVING_AVERAGE_PERIOD}`, path: ["value"] });
+    }
+  }
+  if (data.type === NotificationRuleType.RSI_CROSS || data.type === NotificationRuleType.BOLLINGER_BREAKOUT) {
+    const isRsi = data.type === NotificationRuleType.RSI_CROSS;
+    if (!data.crossDirection) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "crossDirection is required for indicator rules", path: ["crossDirection"] });
+    }
+    const maxPeriod = isRsi ? MAX_RSI_PERIOD : MAX_MOVING_AVERAGE_PERIOD;
+    if (typeof data.indicatorPeriod !== 'number' || data.indicatorPeriod < 2 || data.indicatorPeriod > maxPeriod) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Indicator period must be a whole number between 2 and ${maxPeriod}`, path: ["indicatorPeriod"] });
+    }
+    // For RSI the value is the level (0-100); for Bollinger Bands it is the width in standard deviations
+    if (isRsi && (data.value <= 0 || data.value >= 100)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "RSI level must be between 0 and 100", path: ["value"] });
+    }
+    if (!isRsi && (data.value <= 0 || data.value > MAX_BOLLINGER_MULTIPLIER)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Band width must be above 0 and at most ${MAX_BOLLINGER_MULTIPLIER} standard deviations`, path: ["value"] });
+    }
+  }
+  // Ratios and ratio changes are positive
+  if (isRatioRuleType(data.type) && data.value <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Ratio rules need a value above 0", path: ["value"] });
+  }
+  // For volume spikes the value is a multiple of the average volume
+  if (data.type === NotificationRuleType.VOLUME_SPIKE && data.value <= 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Volume spike multiple must be above 1", path: ["value"] });
+  }
+  if ((data.type === NotificationRuleType.MARKET_CAP_ABOVE || data.type === NotificationRuleType.MARKET_CAP_BELOW) && data.value <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Market cap target must be above 0", path: ["value"] });
+  }
+  // For trailing stops the value is how far below the peak (in %) price must fall
+  if (data.type === NotificationRuleType.TRAILING_STOP && (data.value <= 0 || data.value >= 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Trailing stop percentage must be between 0 and 100", path: ["value"] });
+  }
+}
+
+const compositeLeafSchema = z.object({
+  kind: z.literal('condition'),
+  trackedAssetId: z.string().cuid(),
+  assetSymbol: z.string().optional(), // Ignored on input; the API fills it in
+  ...ruleConditionShape,
+  type: z.nativeEnum(NotificationRuleType).refine(type => !(NON_COMPOSITE_RULE_TYPES as readonly NotificationRuleType[]).includes(type), {
+    message: "Compound rules cannot contain compound, expression, trailing stop or ratio rules",
+  }),
+}).superRefine(refineRuleCondition);
+
+const compositeNodeSchema: z.ZodType<CompositeCondition, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.union([
+    compositeLeafSchema,
+    z.object({
+      kind: z.literal('group'),
+      operator: z.enum(['AND', 'OR']),
+      conditions: z.array(compositeNodeSchema).min(1, { message: "Groups need at least one condition" }),
+    }),
+  ])
+) as z.ZodType<CompositeCondition, z.ZodTypeDef, unknown>;
+
+/**
+ * Validates a compound rule's condition tree, including its size limits.
+ */
+export const compositeConditionSchema = compositeNodeSchema.superRefine((node, ctx) => {
+  if (getConditionDepth(node) > MAX_COMPOSITE_DEPTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Groups can be nested at most ${MAX_COMPOSITE_DEPTH} levels deep` });
+  }
+  if (collectConditionLeaves(node).length > MAX_COMPOSITE_CONDITIONS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Compound rules can have at most ${MAX_COMPOSITE_CONDITIONS} conditions` });
+  }
+});
+
+function getConditionDepth(node: CompositeCondition): number {
+  return node.kind === 'group' ? 1 + Math.max(0, ...node.conditions.map(getConditionDepth)) : 0;
+}
+
+/**
+ * Returns all the single conditions in a condition tree, in order.
+ */
+export function collectConditionLeaves(node: CompositeCondition): CompositeConditionLeaf[] {
+  return node.kind === 'group' ? node.conditions.flatMap(collectConditionLeaves) : [node];
+}
+
+/**
+ * Describes a single condition, e.g. "crosses above $70,000.00" or "down 8% in 24h".
+ */
+export function describeRuleCondition(
+  condition: RuleConditionInput & { triggerMode?: PriceTriggerMode | null },
+  currency: QuoteCurrency
+): string {
+  const isLevel = condition.triggerMode === PriceTriggerMode.LEVEL;
+  switch (condition.type) {
+    case NotificationRuleType.PRICE_TARGET_ABOVE:
+      return `${isLevel ? 'above' : 'crosses above'} ${formatPrice(condition.value, currency)}`;
+    case NotificationRuleType.PRICE_TARGET_BELOW:
+      return `${isLevel ? 'below' : 'crosses below'} ${formatPrice(condition.value, currency)}`;
+    case NotificationRuleType.PERCENT_CHANGE_INCREASE:
+      return `up ${condition.value}% in ${condition.timeWindowHours}h`;
+    case NotificationRuleType.PERCENT_CHANGE_DECREASE:
+      return `down ${Math.abs(condition.value)}% in ${condition.timeWindowHours}h`;
+    case NotificationRuleType.DRAWDOWN_FROM_HIGH:
+      return `down ${condition.value}% from its ${condition.timeWindowHours}h high`;
+    case NotificationRuleType.RALLY_FROM_LOW:
+      return `up ${condition.value}% from its ${condition.timeWindowHours}h low`;
+    case NotificationRuleType.MOVING_AVERAGE_CROSS:
+      return `crosses ${condition.crossDirection === CrossDirection.BELOW ? 'below' : 'above'} its ${condition.value}-period ${condition.movingAverageType ?? 'SMA'}`;
+    case NotificationRuleType.RSI_CROSS:
+      return `RSI(${condition.indicatorPeriod}) crosses ${condition.crossDirection === CrossDirection.BELOW ? 'below' : 'above'} ${condition.value}`;
+    case NotificationRuleType.BOLLINGER_BREAKOUT:
+      return condition.crossDirection === CrossDirection.BELOW
+        ? `closes below its lower Bollinger Band (${condition.indicatorPeriod}, ${condition.value}σ)`
+        : `closes above its upper Bollinger Band (${condition.indicatorPeriod}, ${condition.value}σ)`;
+    case NotificationRuleType.TRAILING_STOP:
+      return `falls ${condition.value}% below its peak`;
+    case NotificationRuleType.VOLUME_SPIKE:
+      return `24h volume ${condition.value}× its ${VOLUME_SPIKE_AVERAGE_DAYS}-day average`;
+    case NotificationRuleType.MARKET_CAP_ABOVE:
+      return `market cap ${isLevel ? 'above' : 'crosses above'} ${formatCompactAmount(condition.value, currency)}`;
+    case NotificationRuleType.MARKET_CAP_BELOW:
+      return `market cap ${isLevel ? 'below' : 'crosses below'} ${formatCompactAmount(condition.value, currency)}`;
+    case NotificationRuleType.RATIO_ABOVE:
+      return `ratio ${isLevel ? 'above' : 'crosses above'} ${condition.value}`;
+    case NotificationRuleType.RATIO_BELOW:
+      return `ratio ${isLevel ? 'below' : 'crosses below'} ${condition.value}`;
+    case NotificationRuleType.RATIO_CHANGE_INCREASE:
+      return `outperforms by ${condition.value}% in ${condition.timeWindowHours}h`;
+    case NotificationRuleType.RATIO_CHANGE_DECREASE:
+      return `underperforms by ${condition.value}% in ${condition.timeWindowHours}h`;
+    default:
+      return 'matches a compound rule';
+  }
+}
+
+/**
+ * Formats a price ratio between two assets to four significant digits, e.g. "0.04483".
+ */
+export function formatRatio(ratio: number): string {
+  return ratio.toLocaleString('en-US', { maximumSignificantDigits: 4 });
+}
+
+/**
+ * The price at which a trailing stop fires: `percent`% below the peak.
+ */
+export function trailingStopTriggerPrice(peakPrice: number, percent: number): number {
+  return peakPrice * (1 - percent / 100);
+}
+
+/**
+ * Reads a compound rule's stored condition tree.
+ * @returns The tree, or null if the stored value isn't a valid tree.
+ */
+export function parseStoredCondition(condition: unknown): CompositeCondition | null {
+  const result = compositeConditionSchema.safeParse(condition);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Describes a condition tree, e.g. "BTC below $60,000.00 AND (BTC down 8% in 24h OR ETH down 10% in 24h)".
+ */
+export function describeCompositeCondition(node: CompositeCondition, currency: QuoteCurrency, isNested = false): string {
+  if (node.kind === 'condition') {
+    return `${node.assetSymbol.toUpperCase()} ${describeRuleCondition(node, currency)}`;
+  }
+  const text = node.conditions.map(child => describeCompositeCondition(child, currency, true)).join(` ${node.operator} `);
+  return isNested && node.conditions.length > 1 ? `(${text})` : text;
+}
@@ -0,0 +1,8 @@
+// Shared defaults and limits for notification rule settings (used by the API and the rule forms)
+
+// Default minimum time between two triggers of the same rule. Just under two hours so a rule
+// can fire again on the 8th 15-minute price fetch after it last fired.
+export const DEFAULT_RULE_COOLDOWN_MINUTES = 119;
+
+// Longest configurable cooldown (7 days, the price history retention period)
+export const MAX_RULE_COOLDOWN_MINUTES = 7 * 24 * 60;
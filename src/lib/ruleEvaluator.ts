@@ -1,12 +1,18 @@
 import { prisma } from '@/lib/prisma';
-import { PriceHistory, NotificationRuleType, User } from '@prisma/client';
+import { PriceHistory, NotificationRule, NotificationRuleType, User, MovingAverageType, CrossDirection, RuleRearmMode, PriceTriggerMode, QuoteCurrency, DeliveryChannel, DeliveryStatus, TriggeredAlert, RulePriority } from '@prisma/client';
 import { sendNotifications } from './notificationSender';
+import { bollingerBands, movingAverage, movingAverageHistoryLength, relativeStrengthIndex, rsiHistoryLength } from './indicators';
+import { resolveDeliveryChannels } from './notificationDelivery';
+import { collectConditionLeaves, CompositeCondition, describeCompositeCondition, isRatioRuleType, parseStoredCondition, trailingStopTriggerPrice, VOLUME_SPIKE_AVERAGE_DAYS } from './ruleConditions';
+import { evaluateRuleExpression, ExpressionNode, getExpressionHistoryNeeds, parseRuleExpression } from './ruleExpression';
+import { PriceHistorySource, prismaPriceHistorySource } from './priceHistorySource';
 import { toZonedTime, format } from 'date-fns-tz';
 
-// Simple cooldown period (in minutes) to prevent rapid re-triggering of the same rule
-const RULE_COOLDOWN_MINUTES = 119;
+// Prices are fetched every 15 minutes; a longer gap between two points means fetches were missed
+const PRICE_FETCH_GAP_MINUTES = 30;
 
 interface TriggeredRuleInfo {
+  alertId?: string; // Set once the alert is recorded
   ruleId: string;
   trackedAssetId: string;
   userId: string;
@@ -14,9 +20,49 @@ interface TriggeredRuleInfo {
   assetName: string;
   ruleType: NotificationRuleType;
   ruleValue: number;
+  movingAverageType?: MovingAverageType | null;
+  crossDirection?: CrossDirection | null;
+  timeWindowHours?: number | null;
+  indicatorPeriod?: number | null;
+  peakPrice?: number | null; // Trailing stops: the peak the stop was measured from
+  compareAssetSymbol?: string | null; // Ratio rules: the asset the price is divided by
+  ratio?: number | null; // Ratio rules: the price ratio when the rule fired
+  marketCap?: number | null; // Market cap and 24h volume at the triggering price point, if known
+  volume24h?: number | null;
+  conditionSummary?: string; // Description of a compound or expression rule's conditions
+  quietTimeBreakthrough?: string; // Why the alert was sent during the user's quiet time
+  quoteCurrency: QuoteCurrency;
   triggeringPrice: number;
   userEmail: string; // Needed for notification
-  userPhoneNumber?: string | null; // Needed for SMS
+  userPhoneNumber?: string | null; // Needed for SMS, only set once verified
+  telegramChatId?: string | null; // Needed for Telegram
+  discordWebhookUrl?: string | null; // Needed for Discord
+  channels: DeliveryChannel[]; // Channels to notify on
+}
+
+export interface EvaluateRulesOptions {
+  dryRun?: boolean; // Report what would happen without recording alerts, updating rules or sending notifications
+  userId?: string; // Only evaluate this user's rules
+}
+
+// What one evaluation pass found for a rule
+export interface RuleEvaluationReport {
+  ruleId: string;
+  userId: string;
+  assetSymbol: string;
+  ruleType: NotificationRuleType;
+  ruleValue: number;
+  quoteCurrency: QuoteCurrency;
+  latestPrice: number | null; // Null if no price has been stored in the rule's quote currency yet
+  latestPriceAt: Date | null;
+  change: { percent: number; windowHours: number } | null; // Dry runs only: change over the rule's window, or 24h for rules without one
+  cooldown: { active: boolean; lastTriggeredAt: Date | null; endsAt: Date | null };
+  isArmed: boolean; // False while a CROSS_BACK rule waits to re-arm
+  quietTime: { active: boolean; breakthrough: string | null }; // Regular passes only check rules that fire
+  conditionMet: boolean | null; // Null if the condition wasn't checked (no price, disarmed or in cooldown)
+  wouldFire: boolean; // An alert is recorded
+  wouldNotify: boolean; // ... and sent now rather than held for quiet time
+  error?: string;
 }
 
 /**
@@ -72,22 +118,569 @@ export function isQuietTime(user: User, nowUtc: Date = new Date()): boolean {
   }
 }
 
+/**
+ * Checks whether a triggered rule may break through the user's quiet time: critical rules
+ * (if the user allows them) and any alert on an asset that has moved at least the user's
+ * breakthrough percentage in the last 24 hours.
+ * @returns {Promise<string | null>} The reason to show in the alert, or null to suppress it.
+ */
+export async function getQuietTimeBreakthrough(
+  rule: Pick<NotificationRule, 'priority' | 'quoteCurrency'>,
+  user: Pick<User, 'quietTimeAllowCritical' | 'quietTimeBreakthroughPercent'>,
+  assetSymbol: string,
+  latestPrice: PriceHistory
+): Promise<string | null> {
+  if (rule.priority === RulePriority.CRITICAL && user.quietTimeAllowCritical) {
+    return 'Critical rule';
+  }
+  if (user.quietTimeBreakthroughPercent === null) {
+    return null;
+  }
+
+  const change = await measurePriceChange(latestPrice, rule.quoteCurrency, 24);
+  if (change === null || Math.abs(change) < user.quietTimeBreakthroughPercent) {
+    return null;
+  }
+  return `${assetSymbol} ${change >= 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(1)}% in 24h`;
+}
+
+/**
+ * Measures how much price changed over a window ending at the latest price point. Uses the
+ * provider's 24h change where it has one, otherwise our own history.
+ * @returns {Promise<number | null>} The change in percent, or null without a price at the start of the window.
+ */
+async function measurePriceChange(latestPrice: PriceHistory, quoteCurrency: QuoteCurrency, windowHours: number): Promise<number | null> {
+  if (windowHours === 24 && latestPrice.change24h !== null) {
+    return latestPrice.change24h;
+  }
+  const windowStart = new Date(latestPrice.timestamp.getTime() - windowHours * 60 * 60 * 1000);
+  const startRecord = await prismaPriceHistorySource.findFirstSince(latestPrice.assetId, quoteCurrency, windowStart);
+  if (!startRecord || startRecord.price === 0) {
+    return null;
+  }
+  return ((latestPrice.price - startRecord.price) / startRecord.price) * 100;
+}
+
+/**
+ * Checks whether price has moved back past a rule's target by the rule's re-arm percentage,
+ * e.g. for "above $70k, re-arm at 2%" price must drop to $68.6k or lower.
+ * Only price target rules can use CROSS_BACK re-arming.
+ * @returns {boolean} True if the rule should be re-armed.
+ */
+export function hasMovedBackPastTarget(
+  rule: Pick<NotificationRule, 'type' | 'value' | 'rearmPercent'>,
+  price: number
+): boolean {
+  const rearmPercent = rule.rearmPercent ?? 0;
+  switch (rule.type) {
+    case NotificationRuleType.PRICE_TARGET_ABOVE:
+      return price <= rule.value * (1 - rearmPercent / 100);
+    case NotificationRuleType.PRICE_TARGET_BELOW:
+      return price >= rule.value * (1 + rearmPercent / 100);
+    default:
+      return true; // Nothing to wait for on other rule types
+  }
+}
+
+/**
+ * Checks whether a rule fired too recently to fire again.
+ * @param now The time of the evaluation (the price point's time when replaying history).
+ */
+export function isInCooldown(
+  rule: Pick<NotificationRule, 'cooldownMinutes'>,
+  lastTriggered: Pick<TriggeredAlert, 'triggeredAt'> | undefined,
+  now: Date
+): boolean {
+  if (!lastTriggered) {
+    return false;
+  }
+  return lastTriggered.triggeredAt.getTime() > now.getTime() - rule.cooldownMinutes * 60 * 1000;
+}
+
+/**
+ * Applies a rule's re-arm mode after it fires: ONCE rules are disabled and
+ * CROSS_BACK rules are disarmed until price moves back past the target.
+ */
+async function applyRearmMode(rule: Pick<NotificationRule, 'id' | 'rearmMode'>): Promise<void> {
+  try {
+    if (rule.rearmMode === RuleRearmMode.ONCE) {
+      await prisma.notificationRule.update({ where: { id: rule.id }, data: { isEnabled: false } });
+      console.log(`Rule Evaluator: Rule ${rule.id} is a one-time rule and has been disabled.`);
+    } else if (rule.rearmMode === RuleRearmMode.CROSS_BACK) {
+      await prisma.notificationRule.update({ where: { id: rule.id }, data: { isArmed: false } });
+      console.log(`Rule Evaluator: Rule ${rule.id} disarmed until price moves back past its target.`);
+    }
+  } catch (dbError) {
+    console.error(`Rule Evaluator: Failed to apply re-arm mode for rule ${rule.id}:`, dbError);
+  }
+}
+
+/**
+ * Raises a trailing stop's peak if the latest price is a new high (or starts it, the first time
+ * the rule sees a price). Runs on every pass, including during cooldown, so the stop follows price up.
+ * @returns {Promise<number>} The peak to measure the stop from.
+ */
+async function updateTrailingStopPeak(rule: Pick<NotificationRule, 'id' | 'peakPrice'>, latestPrice: PriceHistory): Promise<number> {
+  if (rule.peakPrice !== null && rule.peakPrice >= latestPrice.price) {
+    return rule.peakPrice;
+  }
+  try {
+    await prisma.notificationRule.update({
+      where: { id: rule.id },
+      data: { peakPrice: latestPrice.price, peakAt: latestPrice.timestamp },
+    });
+  } catch (dbError) {
+    console.error(`Rule Evaluator: Failed to update peak for trailing stop ${rule.id}:`, dbError);
+  }
+  return latestPrice.price;
+}
+
+/**
+ * Starts a trailing stop over from the current price after it fires, so it only fires again
+ * after a fresh fall from a new peak.
+ */
+async function resetTrailingStopPeak(ruleId: string, latestPrice: PriceHistory): Promise<void> {
+  try {
+    await prisma.notificationRule.update({
+      where: { id: ruleId },
+      data: { peakPrice: latestPrice.price, peakAt: latestPrice.timestamp },
+    });
+  } catch (dbError) {
+    console.error(`Rule Evaluator: Failed to reset peak for trailing stop ${ruleId}:`, dbError);
+  }
+}
+
+// What a simple rule, or one condition of a compound rule, checks
+type RuleCondition = Pick<NotificationRule, 'type' | 'value' | 'timeWindowHours' | 'movingAverageType' | 'crossDirection' | 'indicatorPeriod' | 'triggerMode'>;
+
+// The rule and price a condition is checked against
+interface ConditionContext {
+  ruleId: string;
+  ruleCreatedAt: Date;
+  assetId: string;
+  quoteCurrency: QuoteCurrency;
+  latestPrice: PriceHistory;
+  lastTriggered?: Pick<TriggeredAlert, 'triggeredAt'>;
+  history: PriceHistorySource; // Where earlier prices are read from
+}
+
+/**
+ * Checks one condition against the latest price (and, where needed, price history) of an asset.
+ * @returns {Promise<boolean>} True if the condition is met.
+ */
+async function checkCondition(condition: RuleCondition, context: ConditionContext): Promise<boolean> {
+    const { assetId, latestPrice, lastTriggered, history } = context;
+    switch (condition.type) {
+        case NotificationRuleType.PRICE_TARGET_ABOVE:
+        case NotificationRuleType.PRICE_TARGET_BELOW: {
+            const isBeyondTarget = (price: number) =>
+                condition.type === NotificationRuleType.PRICE_TARGET_ABOVE ? price > condition.value : price < condition.value;
+
+            if (condition.triggerMode === PriceTriggerMode.LEVEL) {
+                return isBeyondTarget(latestPrice.price);
+            }
+
+            // Crossing: the latest point must be beyond the target and the point before it must not be.
+            // Skip if we already fired on this latest point (e.g., no new price was stored since).
+            if (!isBeyondTarget(latestPrice.price) || (lastTriggered && lastTriggered.triggeredAt >= latestPrice.timestamp)) {
+                return false;
+            }
+            const previousPriceRecord = await history.findPrevious(assetId, context.quoteCurrency, latestPrice.timestamp);
+            if (!previousPriceRecord) {
+                return false; // Nothing to compare against yet
+            }
+
+            // After a fetch gap the previous point may predate the rule, in which case we can't tell
+            // which side of the target price was on when the rule was created. A cross during a gap
+            // is still reported for rules that already existed before it.
+            const gapMinutes = (latestPrice.timestamp.getTime() - previousPriceRecord.timestamp.getTime()) / (60 * 1000);
+            if (gapMinutes > PRICE_FETCH_GAP_MINUTES && previousPriceRecord.timestamp < context.ruleCreatedAt) {
+                console.log(`Rule Evaluator: Rule ${context.ruleId} was created during a ${Math.round(gapMinutes)} minute price gap, waiting for the next price point.`);
+                return false;
+            }
+
+            return !isBeyondTarget(previousPriceRecord.price);
+        }
+
+        case NotificationRuleType.PERCENT_CHANGE_INCREASE:
+        case NotificationRuleType.PERCENT_CHANGE_DECREASE: {
+            if (!condition.timeWindowHours) {
+                return false;
+            }
+            const startTime = new Date(latestPrice.timestamp);
+            startTime.setHours(startTime.getHours() - condition.timeWindowHours);
+
+            const startPriceRecord = await history.findFirstSince(assetId, context.quoteCurrency, startTime);
+
+            if (!startPriceRecord || startPriceRecord.price === 0) { // Avoid division by zero
+                return false;
+            }
+            const priceChange = latestPrice.price - startPriceRecord.price;
+            const percentChange = (priceChange / startPriceRecord.price) * 100;
+
+            if (condition.type === NotificationRuleType.PERCENT_CHANGE_INCREASE) {
+                return percentChange >= condition.value;
+            }
+            // PERCENT_CHANGE_DECREASE: ensure we compare against the negative magnitude
+            return percentChange <= -Math.abs(condition.value);
+        }
+
+        case NotificationRuleType.DRAWDOWN_FROM_HIGH:
+        case NotificationRuleType.RALLY_FROM_LOW: {
+            if (!condition.timeWindowHours) {
+                return false;
+            }
+            const startTime = new Date(latestPrice.timestamp);
+            startTime.setHours(startTime.getHours() - condition.timeWindowHours);
+
+            // Measure from the window's extreme rather than its first price, so a pump and dump
+            // inside the window still counts
+            const isDrawdown = condition.type === NotificationRuleType.DRAWDOWN_FROM_HIGH;
+            const extremeRecord = await history.findExtremeSince(assetId, context.quoteCurrency, startTime, isDrawdown ? 'highest' : 'lowest');
+
+            if (!extremeRecord || extremeRecord.price === 0) { // Avoid division by zero
+                return false;
+            }
+            const percentFromExtreme = ((latestPrice.price - extremeRecord.price) / extremeRecord.price) * 100;
+            return isDrawdown ? percentFromExtreme <= -condition.value : percentFromExtreme >= condition.value;
+        }
+
+        case NotificationRuleType.VOLUME_SPIKE: {
+            if (latestPrice.volume24h === null) {
+                return false;
+            }
+            const averageStart = new Date(latestPrice.timestamp.getTime() - VOLUME_SPIKE_AVERAGE_DAYS * 24 * 60 * 60 * 1000);
+            const { averageVolume, oldestTimestamp: oldestPoint } = await history.getVolumeStats(assetId, context.quoteCurrency, averageStart, latestPrice.timestamp);
+            // Wait for at least a day of volume history so a new asset's average means something
+            if (!averageVolume || !oldestPoint || latestPrice.timestamp.getTime() - oldestPoint.getTime() < 24 * 60 * 60 * 1000) {
+                return false;
+            }
+            return latestPrice.volume24h >= averageVolume * condition.value;
+        }
+
+        case NotificationRuleType.MARKET_CAP_ABOVE:
+        case NotificationRuleType.MARKET_CAP_BELOW: {
+            const isBeyondTarget = (marketCap: number) =>
+                condition.type === NotificationRuleType.MARKET_CAP_ABOVE ? marketCap > condition.value : marketCap < condition.value;
+            if (latestPrice.marketCap === null || !isBeyondTarget(latestPrice.marketCap)) {
+                return false;
+            }
+            if (condition.triggerMode === PriceTriggerMode.LEVEL) {
+                return true;
+            }
+            // Crossing: the previous point with a market cap must be on the other side of the target
+            if (lastTriggered && lastTriggered.triggeredAt >= latestPrice.timestamp) {
+                return false;
+            }
+            const previousRecord = await history.findPrevious(assetId, context.quoteCurrency, latestPrice.timestamp, { withMarketCap: true });
+            return !!previousRecord && previousRecord.marketCap !== null && !isBeyondTarget(previousRecord.marketCap);
+        }
+
+        case NotificationRuleType.MOVING_AVERAGE_CROSS: {
+            if (!condition.movingAverageType || !condition.crossDirection) {
+                return false;
+            }
+            const period = condition.value;
+            const prices = await loadRecentPrices(context, movingAverageHistoryLength(period, condition.movingAverageType));
+
+            // Compare the last two prices against the average as of each point
+            const previousAverage = movingAverage(prices.slice(0, -1), period, condition.movingAverageType);
+            const latestAverage = movingAverage(prices, period, condition.movingAverageType);
+
+            if (previousAverage === null || latestAverage === null) {
+                return false;
+            }
+            const previousPrice = prices[prices.length - 2];
+            const currentPrice = prices[prices.length - 1];
+            if (condition.crossDirection === CrossDirection.ABOVE) {
+                return previousPrice <= previousAverage && currentPrice > latestAverage;
+            }
+            return previousPrice >= previousAverage && currentPrice < latestAverage;
+        }
+
+        case NotificationRuleType.RSI_CROSS: {
+            if (!condition.indicatorPeriod || !condition.crossDirection) {
+                return false;
+            }
+            const prices = await loadRecentPrices(context, rsiHistoryLength(condition.indicatorPeriod));
+
+            // Compare the RSI as of the previous and latest price against the level
+            const previousRsi = relativeStrengthIndex(prices.slice(0, -1), condition.indicatorPeriod);
+            const latestRsi = relativeStrengthIndex(prices, condition.indicatorPeriod);
+            if (previousRsi === null || latestRsi === null) {
+                return false;
+            }
+            if (condition.crossDirection === CrossDirection.ABOVE) {
+                return previousRsi <= condition.value && latestRsi > condition.value;
+            }
+            return previousRsi >= condition.value && latestRsi < condition.value;
+        }
+
+        case NotificationRuleType.BOLLINGER_BREAKOUT: {
+            if (!condition.indicatorPeriod || !condition.crossDirection) {
+                return false;
+            }
+            const prices = await loadRecentPrices(context, condition.indicatorPeriod + 1);
+
+            // Fire when price closes outside the band after closing inside it at the previous point
+            const previousBands = bollingerBands(prices.slice(0, -1), condition.indicatorPeriod, condition.value);
+            const latestBands = bollingerBands(prices, condition.indicatorPeriod, condition.value);
+            if (previousBands === null || latestBands === null) {
+                return false;
+            }
+            const previousPrice = prices[prices.length - 2];
+            const currentPrice = prices[prices.length - 1];
+            if (condition.crossDirection === CrossDirection.ABOVE) {
+                return previousPrice <= previousBands.upper && currentPrice > latestBands.upper;
+            }
+            return previousPrice >= previousBands.lower && currentPrice < latestBands.lower;
+        }
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * Loads the latest `count` prices of the condition's asset, oldest first.
+ */
+async function loadRecentPrices(context: ConditionContext, count: number): Promise<number[]> {
+    const recentRecords = await context.history.findRecent(context.assetId, context.quoteCurrency, count);
+    return recentRecords.map(p => p.price).reverse();
+}
+
+// A price ratio between two assets at one fetch time
+interface RatioPoint {
+    timestamp: Date;
+    ratio: number;
+}
+
+/**
+ * Loads the price ratio of the condition's asset to `compareAssetId` from `since` up to the latest
+ * price, oldest first. Prices are paired by timestamp: every fetch stores all assets at once, so a
+ * timestamp missing for either asset is skipped.
+ */
+async function loadRatioSeries(context: ConditionContext, compareAssetId: string, since: Date): Promise<RatioPoint[]> {
+    const records = await context.history.findRange({ in: [context.assetId, compareAssetId] }, context.quoteCurrency, since, context.latestPrice.timestamp);
+    const comparePrices = new Map(records.filter(p => p.assetId === compareAssetId).map(p => [p.timestamp.getTime(), p.price]));
+    return records
+        .filter(p => p.assetId === context.assetId)
+        .flatMap(p => {
+            const comparePrice = comparePrices.get(p.timestamp.getTime());
+            return comparePrice ? [{ timestamp: p.timestamp, ratio: p.price / comparePrice }] : [];
+        });
+}
+
+/**
+ * Checks a ratio rule: the asset's price divided by the compare asset's, against a target or as a
+ * change over a time window.
+ * @returns The latest ratio if the condition is met, otherwise null.
+ */
+async function checkRatioCondition(
+    condition: RuleCondition & Pick<NotificationRule, 'compareAssetId'>,
+    context: ConditionContext
+): Promise<number | null> {
+    const { latestPrice, lastTriggered } = context;
+    if (!condition.compareAssetId) {
+        return null;
+    }
+
+    const isChange = condition.type === NotificationRuleType.RATIO_CHANGE_INCREASE || condition.type === NotificationRuleType.RATIO_CHANGE_DECREASE;
+    if (isChange && !condition.timeWindowHours) {
+        return null;
+    }
+    // Targets only need the previous point to detect a cross; changes need the whole window
+    const lookBackMinutes = isChange ? condition.timeWindowHours! * 60 : PRICE_FETCH_GAP_MINUTES;
+    const since = new Date(latestPrice.timestamp.getTime() - lookBackMinutes * 60 * 1000);
+    const series = await loadRatioSeries(context, condition.compareAssetId, since);
+
+    const latest = series[series.length - 1];
+    if (!latest || latest.timestamp.getTime() !== latestPrice.timestamp.getTime()) {
+        return null; // No price for the compare asset at the latest fetch
+    }
+
+    if (isChange) {
+        const start = series[0];
+        if (start === latest) {
+            return null;
+        }
+        const percentChange = ((latest.ratio - start.ratio) / start.ratio) * 100;
+        const isMet = condition.type === NotificationRuleType.RATIO_CHANGE_INCREASE
+            ? percentChange >= condition.value
+            : percentChange <= -Math.abs(condition.value);
+        return isMet ? latest.ratio : null;
+    }
+
+    const isBeyondTarget = (ratio: number) =>
+        condition.type === NotificationRuleType.RATIO_ABOVE ? ratio > condition.value : ratio < condition.value;
+    if (!isBeyondTarget(latest.ratio)) {
+        return null;
+    }
+    if (condition.triggerMode === PriceTriggerMode.LEVEL) {
+        return latest.ratio;
+    }
+    // Crossing: the previous point must be on the other side, and we must not have fired on this point
+    const previous = series[series.length - 2];
+    if (!previous || isBeyondTarget(previous.ratio) || (lastTriggered && lastTriggered.triggeredAt >= latestPrice.timestamp)) {
+        return null;
+    }
+    return latest.ratio;
+}
+
+/**
+ * Checks a compound rule's condition tree. Every condition is checked against the same snapshot of
+ * latest prices, so the rule fires as a whole or not at all.
+ * @param trackedAssets The assets of the rule owner's tracked assets, keyed by tracked asset ID.
+ */
+async function checkCompositeCondition(
+    node: CompositeCondition,
+    context: Omit<ConditionContext, 'assetId' | 'latestPrice'>,
+    trackedAssets: Map<string, string>,
+    latestPricesMap: Map<string, PriceHistory>
+): Promise<boolean> {
+    if (node.kind === 'group') {
+        for (const child of node.conditions) {
+            const childMet = await checkCompositeCondition(child, context, trackedAssets, latestPricesMap);
+            if (node.operator === 'AND' && !childMet) return false;
+            if (node.operator === 'OR' && childMet) return true;
+        }
+        return node.operator === 'AND';
+    }
+
+    const assetId = trackedAssets.get(node.trackedAssetId);
+    const latestPrice = assetId ? latestPricesMap.get(`${assetId}:${context.quoteCurrency}`) : undefined;
+    if (!assetId || !latestPrice) {
+        return false; // Asset no longer tracked, or no price yet
+    }
+    return checkCondition({
+        type: node.type,
+        value: node.value,
+        timeWindowHours: node.timeWindowHours ?? null,
+        movingAverageType: node.movingAverageType ?? null,
+        crossDirection: node.crossDirection ?? null,
+        indicatorPeriod: node.indicatorPeriod ?? null,
+        triggerMode: node.triggerMode ?? PriceTriggerMode.LEVEL,
+    }, { ...context, assetId, latestPrice });
+}
+
+/**
+ * Checks an expression rule, loading the price history its functions need.
+ */
+async function checkExpression(
+    expression: ExpressionNode,
+    context: Pick<ConditionContext, 'assetId' | 'quoteCurrency' | 'latestPrice' | 'history'>
+): Promise<boolean> {
+    const { assetId, quoteCurrency, latestPrice, history } = context;
+    const needs = getExpressionHistoryNeeds(expression);
+    const seriesById = new Map<string, PriceHistory>([[latestPrice.id, latestPrice]]);
+
+    if (needs.windowHours > 0) {
+        const windowStart = new Date(latestPrice.timestamp.getTime() - needs.windowHours * 60 * 60 * 1000);
+        const windowRecords = await history.findRange(assetId, quoteCurrency, windowStart, latestPrice.timestamp);
+        windowRecords.forEach(p => seriesById.set(p.id, p));
+    }
+    if (needs.pricePoints > 1) {
+        const recentRecords = await history.findRecent(assetId, quoteCurrency, needs.pricePoints, latestPrice.timestamp);
+        recentRecords.forEach(p => seriesById.set(p.id, p));
+    }
+
+    const series = [...seriesById.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return evaluateRuleExpression(expression, series);
+}
+
+// The fields of a rule that decide whether it fires
+export type EvaluableRule = Pick<NotificationRule, 'id' | 'type' | 'value' | 'timeWindowHours' | 'movingAverageType' | 'crossDirection' | 'indicatorPeriod' | 'triggerMode' | 'expression' | 'compareAssetId' | 'quoteCurrency' | 'createdAt'>;
+
+// Everything a rule is checked against at one price point
+export interface RuleCheckInput {
+  assetId: string;
+  latestPrice: PriceHistory;
+  lastTriggered?: Pick<TriggeredAlert, 'triggeredAt'>;
+  history: PriceHistorySource;
+  trailingPeak: number | null; // Trailing stops: the peak to measure from
+  compositeCondition?: CompositeCondition; // Compound rules: the parsed condition tree
+  ownedAssets: Map<string, string>; // Compound rules: asset IDs of the owner's tracked assets, keyed by tracked asset ID
+  latestPricesMap: Map<string, PriceHistory>; // Compound rules: latest price of each asset, keyed by `${assetId}:${currency}`
+}
+
+export interface RuleCheckResult {
+  conditionMet: boolean;
+  conditionSummary?: string; // Description of a compound or expression rule's conditions
+  ratio: number | null; // Ratio rules: the ratio when the rule fired
+}
+
+/**
+ * Checks whether a rule's conditions are met at a price point. Earlier prices are read from
+ * `input.history` and nothing is written, so the cron pass and backtests share this check.
+ */
+export async function checkRuleConditions(rule: EvaluableRule, input: RuleCheckInput): Promise<RuleCheckResult> {
+    const { assetId, latestPrice, history } = input;
+    const context = {
+        ruleId: rule.id,
+        ruleCreatedAt: rule.createdAt,
+        quoteCurrency: rule.quoteCurrency,
+        lastTriggered: input.lastTriggered,
+        history,
+    };
+
+    if (rule.type === NotificationRuleType.COMPOSITE) {
+        if (!input.compositeCondition) {
+            return { conditionMet: false, ratio: null };
+        }
+        return {
+            conditionMet: await checkCompositeCondition(input.compositeCondition, context, input.ownedAssets, input.latestPricesMap),
+            conditionSummary: describeCompositeCondition(input.compositeCondition, rule.quoteCurrency),
+            ratio: null,
+        };
+    }
+    if (rule.type === NotificationRuleType.EXPRESSION) {
+        let expression: ExpressionNode;
+        try {
+            expression = parseRuleExpression(rule.expression ?? '');
+        } catch (parseError) {
+            console.error(`Rule Evaluator: Expression rule ${rule.id} has an invalid expression, skipping:`, parseError);
+            return { conditionMet: false, ratio: null };
+        }
+        return {
+            conditionMet: await checkExpression(expression, { ...context, assetId, latestPrice }),
+            conditionSummary: rule.expression ?? undefined,
+            ratio: null,
+        };
+    }
+    if (rule.type === NotificationRuleType.TRAILING_STOP) {
+        const conditionMet = input.trailingPeak !== null && latestPrice.price <= trailingStopTriggerPrice(input.trailingPeak, rule.value);
+        return { conditionMet, ratio: null };
+    }
+    if (isRatioRuleType(rule.type)) {
+        const ratio = await checkRatioCondition(rule, { ...context, assetId, latestPrice });
+        return { conditionMet: ratio !== null, ratio };
+    }
+    return { conditionMet: await checkCondition(rule, { ...context, assetId, latestPrice }), ratio: null };
+}
+
 /**
  * Evaluates all active notification rules against the latest price data.
+ * In a dry run nothing is written or sent: rules keep their peaks and arming, and alerts that
+ * would fire are only reported.
  * @param quietTimeChecker Optional function to check for quiet time (defaults to isQuietTime).
- * @returns {Promise<void>}
+ * @param options Dry run and user filter.
+ * @returns {Promise<RuleEvaluationReport[]>} What the pass found for each rule.
  */
 export async function evaluateRules(
-  quietTimeChecker: (user: User, nowUtc?: Date) => boolean = isQuietTime
-): Promise<void> {
-  console.log("Rule Evaluator: Starting evaluation...");
+  quietTimeChecker: (user: User, nowUtc?: Date) => boolean = isQuietTime,
+  options: EvaluateRulesOptions = {}
+): Promise<RuleEvaluationReport[]> {
+  const { dryRun = false } = options;
+  console.log(`Rule Evaluator: Starting ${dryRun ? 'dry run' : 'evaluation'}...`);
 
   const triggeredRules: TriggeredRuleInfo[] = [];
+  const reports: RuleEvaluationReport[] = [];
 
   // 1. Fetch all enabled rules with necessary relations
   const activeRules = await prisma.notificationRule.findMany({
     where: {
       isEnabled: true,
+      ...(options.userId ? { trackedAsset: { userId: options.userId } } : {}),
     },
     include: {
       trackedAsset: {
@@ -96,6 +689,7 @@ export async function evaluateRules(
           user: true,
         },
       },
+      compareAsset: true,
       triggeredAlerts: {
         orderBy: { triggeredAt: 'desc' },
         take: 1,
@@ -105,95 +699,171 @@ export async function evaluateRules(
 
   if (activeRules.length === 0) {
     console.log("Rule Evaluator: No active rules found.");
-    return;
+    return reports;
   }
 
   console.log(`Rule Evaluator: Found ${activeRules.length} active rules to evaluate.`);
 
-  // 2. Group rules by Asset ID for efficient price fetching
-  const assetIds = [...new Set(activeRules.map(r => r.trackedAsset.asset.id))];
+  // 2. Read compound rules' conditions and look up the tracked assets they refer to
+  const compositeConditions = new Map<string, CompositeCondition>(); // Keyed by rule ID
+  for (const rule of activeRules) {
+    if (rule.type !== NotificationRuleType.COMPOSITE) continue;
+    const condition = parseStoredCondition(rule.condition);
+    if (condition) {
+      compositeConditions.set(rule.id, condition);
+    } else {
+      console.error(`Rule Evaluator: Compound rule ${rule.id} has an invalid condition, skipping.`);
+    }
+  }
+  const conditionTrackedAssetIds = [...new Set([...compositeConditions.values()].flatMap(c => collectConditionLeaves(c).map(leaf => leaf.trackedAssetId)))];
+  const conditionTrackedAssets = conditionTrackedAssetIds.length > 0
+    ? await prisma.trackedAsset.findMany({ where: { id: { in: conditionTrackedAssetIds } }, select: { id: true, userId: true, assetId: true } })
+    : [];
 
-  // 3. Fetch latest price for each relevant asset
-  const latestPricesMap = new Map<string, PriceHistory>();
+  // Group rules by Asset ID and quote currency for efficient price fetching
+  const assetIds = [...new Set([...activeRules.map(r => r.trackedAsset.asset.id), ...conditionTrackedAssets.map(t => t.assetId)])];
+  const quoteCurrencies = [...new Set(activeRules.map(r => r.quoteCurrency))];
+
+  // 3. Fetch latest price for each relevant asset, in each quote currency
+  const latestPricesMap = new Map<string, PriceHistory>(); // Keyed by `${assetId}:${currency}`
   const latestPriceRecords = await prisma.priceHistory.findMany({
     where: {
       assetId: { in: assetIds },
+      currency: { in: quoteCurrencies },
     },
     orderBy: { timestamp: 'desc' },
-    distinct: ['assetId'], // Get only the most recent record for each asset
+    distinct: ['assetId', 'currency'], // Get only the most recent record for each asset and currency
   });
-  latestPriceRecords.forEach(p => latestPricesMap.set(p.assetId, p));
+  latestPriceRecords.forEach(p => latestPricesMap.set(`${p.assetId}:${p.currency}`, p));
 
   // 4. Evaluate each rule
   const nowForQuietTimeCheck = new Date(); // Use a consistent time for all checks in this run
   for (const rule of activeRules) {
     const assetId = rule.trackedAsset.asset.id;
-    const latestPrice = latestPricesMap.get(assetId);
+    const assetSymbol = rule.trackedAsset.asset.symbol.toUpperCase();
+    const latestPrice = latestPricesMap.get(`${assetId}:${rule.quoteCurrency}`);
+    const lastTriggered = rule.triggeredAlerts?.[0];
+    // Regular passes only check quiet time for rules that fire; dry runs report it for every rule
+    const checkQuietTime = () => quietTimeChecker(rule.trackedAsset.user, nowForQuietTimeCheck);
+    const report: RuleEvaluationReport = {
+      ruleId: rule.id,
+      userId: rule.trackedAsset.userId,
+      assetSymbol,
+      ruleType: rule.type,
+      ruleValue: rule.value,
+      quoteCurrency: rule.quoteCurrency,
+      latestPrice: latestPrice?.price ?? null,
+      latestPriceAt: latestPrice?.timestamp ?? null,
+      change: null,
+      cooldown: {
+        active: isInCooldown(rule, lastTriggered, nowForQuietTimeCheck),
+        lastTriggeredAt: lastTriggered?.triggeredAt ?? null,
+        endsAt: lastTriggered ? new Date(lastTriggered.triggeredAt.getTime() + rule.cooldownMinutes * 60 * 1000) : null,
+      },
+      isArmed: rule.rearmMode !== RuleRearmMode.CROSS_BACK || rule.isArmed,
+      quietTime: { active: dryRun && checkQuietTime(), breakthrough: null },
+      conditionMet: null,
+      wouldFire: false,
+      wouldNotify: false,
+    };
+    reports.push(report);
 
     if (!latestPrice) {
       continue; 
     }
 
-    // --- Cooldown Check --- 
-    const lastTriggered = rule.triggeredAlerts?.[0];
-    if (lastTriggered) {
-        const cooldownThreshold = new Date();
-        cooldownThreshold.setMinutes(cooldownThreshold.getMinutes() - RULE_COOLDOWN_MINUTES);
-        if (lastTriggered.triggeredAt > cooldownThreshold) {
-            continue; 
+    if (dryRun) {
+      const windowHours = rule.timeWindowHours ?? 24;
+      const percent = await measurePriceChange(latestPrice, rule.quoteCurrency, windowHours);
+      report.change = percent === null ? null : { percent, windowHours };
+    }
+
+    // --- Trailing Stop Peak ---
+    let trailingPeak: number | null = null;
+    if (rule.type === NotificationRuleType.TRAILING_STOP) {
+        trailingPeak = dryRun
+            ? Math.max(rule.peakPrice ?? latestPrice.price, latestPrice.price)
+            : await updateTrailingStopPeak(rule, latestPrice);
+    }
+
+    // --- Re-arm Check ---
+    if (!report.isArmed) {
+        if (!dryRun && hasMovedBackPastTarget(rule, latestPrice.price)) {
+            try {
+                await prisma.notificationRule.update({ where: { id: rule.id }, data: { isArmed: true } });
+                console.log(`Rule Evaluator: Rule ${rule.id} re-armed at price ${latestPrice.price}.`);
+            } catch (dbError) {
+                console.error(`Rule Evaluator: Failed to re-arm rule ${rule.id}:`, dbError);
+            }
         }
+        // Price is back on the other side of the target, so the condition cannot hold on this pass
+        continue;
+    }
+    // --- End Re-arm Check ---
+
+    // --- Cooldown Check --- 
+    if (report.cooldown.active) {
+        continue;
     }
     // --- End Cooldown Check ---
 
-    let conditionMet = false;
     try {
-        switch (rule.type) {
-            case NotificationRuleType.PRICE_TARGET_ABOVE:
-                conditionMet = latestPrice.price > rule.value;
-                break;
-
-            case NotificationRuleType.PRICE_TARGET_BELOW:
-                conditionMet = latestPrice.price < rule.value;
-                break;
-
-            case NotificationRuleType.PERCENT_CHANGE_INCREASE:
-            case NotificationRuleType.PERCENT_CHANGE_DECREASE:
-                if (rule.timeWindowHours) {
-                    const startTime = new Date(latestPrice.timestamp);
-                    startTime.setHours(startTime.getHours() - rule.timeWindowHours);
-
-                    const startPriceRecord = await prisma.priceHistory.findFirst({
-                        where: {
-                            assetId: assetId,
-                            timestamp: { gte: startTime },
-                        },
-                        orderBy: { timestamp: 'asc' }, 
-                    });
-
-                    if (startPriceRecord && startPriceRecord.price !== 0) { // Avoid division by zero
-                        const priceChange = latestPrice.price - startPriceRecord.price;
-                        const percentChange = (priceChange / startPriceRecord.price) * 100;
-                        
-                        if (rule.type === NotificationRuleType.PERCENT_CHANGE_INCREASE) {
-                            conditionMet = percentChange >= rule.value;
-                        } else { // PERCENT_CHANGE_DECREASE
-                            // Ensure we compare against the negative magnitude
-                            conditionMet = percentChange <= -Math.abs(rule.value);
-                        }
-                    } 
-                }
-                break;
-        }
+        // Only the rule owner's own tracked assets can be used in compound conditions
+        const ownedAssets = new Map(conditionTrackedAssets
+            .filter(t => t.userId === rule.trackedAsset.userId)
+            .map(t => [t.id, t.assetId]));
+        const { conditionMet, conditionSummary, ratio } = await checkRuleConditions(rule, {
+            assetId,
+            latestPrice,
+            lastTriggered,
+            history: prismaPriceHistorySource,
+            trailingPeak,
+            compositeCondition: compositeConditions.get(rule.id),
+            ownedAssets,
+            latestPricesMap,
+        });
 
+        report.conditionMet = conditionMet;
         if (conditionMet) {
-            // ---> Use the passed-in quietTimeChecker <--- 
-            if (quietTimeChecker(rule.trackedAsset.user, nowForQuietTimeCheck)) { 
+            report.wouldFire = true;
+            if (!dryRun) {
+                await applyRearmMode(rule);
+                if (rule.type === NotificationRuleType.TRAILING_STOP) {
+                    await resetTrailingStopPeak(rule.id, latestPrice);
+                }
+            }
+
+            // ---> Quiet Time Check <--- 
+            const isQuiet = dryRun ? report.quietTime.active : checkQuietTime();
+            report.quietTime.active = isQuiet;
+            const quietTimeBreakthrough = isQuiet
+                ? (await getQuietTimeBreakthrough(rule, rule.trackedAsset.user, assetSymbol, latestPrice)) ?? undefined
+                : undefined;
+            report.quietTime.breakthrough = quietTimeBreakthrough ?? null;
+            report.wouldNotify = !isQuiet || !!quietTimeBreakthrough;
+            if (dryRun) {
+                continue;
+            }
+            if (quietTimeBreakthrough) {
+                console.log(`Rule Evaluator: Rule ${rule.id} triggered during quiet time for user ${rule.trackedAsset.user.email}, sending anyway: ${quietTimeBreakthrough}.`);
+            } else if (isQuiet) {
                 console.log(`Rule Evaluator: Rule ${rule.id} triggered for user ${rule.trackedAsset.user.email}, but it's quiet time. Suppressing notification.`);
-                // We still record the trigger, but don't add to notification list
+                // We still record the trigger (queued for the digest if the user wants one), but don't add to notification list
                  const triggeredAlertData = {
                     ruleId: rule.id,
                     triggeringPrice: latestPrice.price,
+                    queuedForDigest: rule.trackedAsset.user.quietTimeDigestEnabled,
                     triggeredAt: new Date(), 
+                    peakPrice: trailingPeak,
+                    ratio,
+                    marketCap: latestPrice.marketCap,
+                    volume24h: latestPrice.volume24h,
+                    deliveries: {
+                        createMany: {
+                            data: resolveDeliveryChannels(rule.channels, rule.trackedAsset.user)
+                                .map(channel => ({ channel, status: DeliveryStatus.SUPPRESSED })),
+                        },
+                    },
                  };
                  try {
                     await prisma.triggeredAlert.create({ data: triggeredAlertData });
@@ -210,20 +880,41 @@ export async function evaluateRules(
                 ruleId: rule.id,
                 trackedAssetId: rule.trackedAssetId,
                 userId: rule.trackedAsset.userId,
-                assetSymbol: rule.trackedAsset.asset.symbol.toUpperCase(),
+                assetSymbol,
                 assetName: rule.trackedAsset.asset.name,
                 ruleType: rule.type,
                 ruleValue: rule.value,
+                movingAverageType: rule.movingAverageType,
+                crossDirection: rule.crossDirection,
+                timeWindowHours: rule.timeWindowHours,
+                indicatorPeriod: rule.indicatorPeriod,
+                peakPrice: trailingPeak,
+                compareAssetSymbol: rule.compareAsset?.symbol.toUpperCase(),
+                ratio,
+                marketCap: latestPrice.marketCap,
+                volume24h: latestPrice.volume24h,
+                conditionSummary,
+                quietTimeBreakthrough,
+                quoteCurrency: rule.quoteCurrency,
                 triggeringPrice: latestPrice.price,
                 userEmail: rule.trackedAsset.user.email,
-                userPhoneNumber: rule.trackedAsset.user.phoneNumber,
+                userPhoneNumber: rule.trackedAsset.user.phoneNumberVerified ? rule.trackedAsset.user.phoneNumber : null,
+                telegramChatId: rule.trackedAsset.user.telegramChatId,
+                discordWebhookUrl: rule.trackedAsset.user.discordWebhookUrl,
+                channels: resolveDeliveryChannels(rule.channels, rule.trackedAsset.user),
             });
         }
     } catch(evalError) {
         console.error(`Rule Evaluator: Error evaluating rule ${rule.id}:`, evalError);
+        report.error = evalError instanceof Error ? evalError.message : String(evalError);
     }
   }
 
+  if (dryRun) {
+    console.log(`Rule Evaluator: Dry run finished, ${reports.filter(r => r.wouldFire).length} of ${reports.length} rules would fire.`);
+    return reports;
+  }
+
   console.log(`Rule Evaluator: Found ${triggeredRules.length} rules meeting trigger conditions (after quiet time check).`);
 
   // 5. Record the triggered alerts in the database (for non-suppressed alerts)
@@ -231,17 +922,25 @@ export async function evaluateRules(
     const triggeredAlertData = triggeredRules.map(tr => ({
       ruleId: tr.ruleId,
       triggeringPrice: tr.triggeringPrice,
+      quietTimeBreakthrough: tr.quietTimeBreakthrough,
       triggeredAt: new Date(), 
+      peakPrice: tr.peakPrice,
+      ratio: tr.ratio,
+      marketCap: tr.marketCap,
+      volume24h: tr.volume24h,
     }));
     
     try {
         // Note: We moved the recording of suppressed alerts into the quiet time check block
-        // This createMany only handles alerts that WILL be notified.
-        const creationResult = await prisma.triggeredAlert.createMany({
+        // This createManyAndReturn only handles alerts that WILL be notified.
+        const createdAlerts = await prisma.triggeredAlert.createManyAndReturn({
             data: triggeredAlertData,
             skipDuplicates: true, // Avoid error if somehow recorded during quiet time check (defensive)
         });
-        console.log(`Rule Evaluator: Recorded ${creationResult.count} non-suppressed triggered alerts in DB.`);
+        // Link each notification to its alert so deliveries can be logged against it
+        const alertIdsByRule = new Map(createdAlerts.map(alert => [alert.ruleId, alert.id]));
+        triggeredRules.forEach(tr => { tr.alertId = alertIdsByRule.get(tr.ruleId); });
+        console.log(`Rule Evaluator: Recorded ${createdAlerts.length} non-suppressed triggered alerts in DB.`);
     } catch (dbError) {
         console.error(`Rule Evaluator: Failed to record non-suppressed triggered alerts in DB:`, dbError);
     }
@@ -254,4 +953,5 @@ export async function evaluateRules(
   }
 
   console.log('Rule evaluation finished.');
+  return reports;
 } 
\ No newline at end of file
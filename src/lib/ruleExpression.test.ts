@@ -0,0 +1,81 @@
+import { evaluateRuleExpression, getExpressionHistoryNeeds, parseRuleExpression, PricePoint, RuleExpressionError, validateRuleExpression } from './ruleExpression';
+
+// Price points 15 minutes apart, ending now
+const createSeries = (prices: number[], end = new Date('2026-10-19T12:00:00Z')): PricePoint[] =>
+  prices.map((price, i) => ({ price, timestamp: new Date(end.getTime() - (prices.length - 1 - i) * 15 * 60 * 1000) }));
+
+describe('parseRuleExpression', () => {
+  test.each([
+    'price < 58000 and change(24h) <= -6% and sma(50) > sma(200)',
+    'PRICE > 1000 OR not (low(3d) < 900)',
+    'price > sma(200) * 1.05',
+    'high(24h) - low(24h) > 5000 && change(1h) > 2%',
+  ])('accepts %s', (source) => {
+    expect(validateRuleExpression(source)).toBeNull();
+  });
+
+  test.each([
+    // [source, message, start, end]
+    ['price <', 'Expected a value but found the end of the expression', 7, 7],
+    ['price < 58000 and (change(24h) < -6%', "Expected ')' but found the end of the expression", 36, 36],
+    ['price < 58000 and foo(2) > 1', "Unknown name 'foo' (expected price, change(), sma(), ema(), high(), low())", 18, 21],
+    ['price < 58000 $', "Unexpected '$'", 14, 15],
+    ['change(24w) > 5%', "Unknown unit 'w' (use h for hours or d for days)", 9, 10],
+    ['change(96h) > 5%', 'Time window must be a whole number of hours between 1h and 72h', 7, 10],
+    ['sma(1) > price', 'Moving average period must be a whole number between 2 and 671', 4, 5],
+    ['sma(24h) > price', 'sma() takes a period in price points, e.g. sma(50)', 4, 7],
+    ['change(24h) < price', 'Cannot compare a percent with a price', 0, 19],
+    ['price + 5% > 100', "Cannot apply '+' to a price and a percent", 0, 10],
+    ['price', 'Expression must be a condition (e.g. price > 50000), not a price', 0, 5],
+    ['1 < price < 2', "Comparisons can't be chained; combine them with 'and'", 10, 11],
+    ['price > 1 and 5', "Expected a condition after 'and' but found a number", 14, 15],
+    ['   ', 'Expression is empty', 0, 3],
+  ])('rejects %s', (source, message, start, end) => {
+    const error = validateRuleExpression(source);
+    expect(error).toBeInstanceOf(RuleExpressionError);
+    expect(error).toMatchObject({ message, start, end });
+  });
+
+  test('reports 1-based columns for display', () => {
+    expect(validateRuleExpression('price < 58000 $')?.toDisplayString()).toBe("Column 15: Unexpected '$'");
+  });
+});
+
+describe('getExpressionHistoryNeeds', () => {
+  test('finds the longest window and moving average', () => {
+    expect(getExpressionHistoryNeeds(parseRuleExpression('change(24h) < -6% and high(3d) > price and sma(50) > ema(20)'))).toEqual({
+      windowHours: 72,
+      pricePoints: 61, // EMA(20) needs 3x its period plus one
+    });
+  });
+});
+
+describe('evaluateRuleExpression', () => {
+  test('compares the latest price', () => {
+    const series = createSeries([60000, 57000]);
+    expect(evaluateRuleExpression(parseRuleExpression('price < 58000'), series)).toBe(true);
+    expect(evaluateRuleExpression(parseRuleExpression('price >= 58000'), series)).toBe(false);
+  });
+
+  test('computes change over a window from its first price', () => {
+    // 8 points = 1h45m of history; change(1h) starts 4 points back
+    const series = createSeries([100, 100, 100, 100, 100, 100, 100, 94]);
+    expect(evaluateRuleExpression(parseRuleExpression('change(1h) <= -6%'), series)).toBe(true);
+    expect(evaluateRuleExpression(parseRuleExpression('change(1h) <= -7%'), series)).toBe(false);
+  });
+
+  test('computes high, low and moving averages', () => {
+    const series = createSeries([10, 20, 30, 40, 50]);
+    expect(evaluateRuleExpression(parseRuleExpression('high(1h) == 50 and low(1h) == 10'), series)).toBe(true);
+    expect(evaluateRuleExpression(parseRuleExpression('sma(2) == 45 and sma(5) == 30'), series)).toBe(true);
+    expect(evaluateRuleExpression(parseRuleExpression('price > sma(5) * 1.5'), series)).toBe(true);
+  });
+
+  test('treats conditions without enough history as not met, even when negated', () => {
+    const series = createSeries([10, 20, 30]);
+    expect(evaluateRuleExpression(parseRuleExpression('sma(50) > price'), series)).toBe(false);
+    expect(evaluateRuleExpression(parseRuleExpression('not sma(50) > price'), series)).toBe(false);
+    // An OR can still be met by its other side
+    expect(evaluateRuleExpression(parseRuleExpression('sma(50) > price or price == 30'), series)).toBe(true);
+  });
+});
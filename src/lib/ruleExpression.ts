@@ -0,0 +1,533 @@
+// A small expression language for alert conditions, e.g. `price < 58000 and change(24h) <= -6% and sma(50) > sma(200)`.
+// Expressions are parsed and type-checked when a rule is saved and evaluated against stored price history.
+import { MovingAverageType } from '@prisma/client';
+import { MAX_MOVING_AVERAGE_PERIOD, movingAverage, movingAverageHistoryLength } from './indicators';
+
+export const MAX_EXPRESSION_LENGTH = 500;
+// Same limits as percentage change rules
+const MIN_WINDOW_HOURS = 1;
+const MAX_WINDOW_HOURS = 72;
+
+/**
+ * A syntax or type error, with the character range it applies to (0-based, end exclusive).
+ */
+export class RuleExpressionError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'RuleExpressionError';
+  }
+
+  /**
+   * The message with its 1-based column, e.g. "Column 12: Expected ')'".
+   */
+  toDisplayString(): string {
+    return `Column ${this.start + 1}: ${this.message}`;
+  }
+}
+
+// What a value means, so that e.g. a price can't be compared with a percentage.
+// Plain numbers can be used with prices and percentages alike.
+export type ExpressionType = 'boolean' | 'price' | 'percent' | 'number' | 'duration';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export type ExpressionFunction = 'change' | 'sma' | 'ema' | 'high' | 'low';
+type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+export type ExpressionNode = Span & (
+  | { kind: 'number'; value: number; unit: 'number' | 'percent' }
+  | { kind: 'duration'; hours: number }
+  | { kind: 'price' }
+  | { kind: 'call'; name: ExpressionFunction; argument: ExpressionNode }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'not'; operand: ExpressionNode }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'compare'; operator: ComparisonOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'arithmetic'; operator: ArithmeticOperator; left: ExpressionNode; right: ExpressionNode }
+);
+
+// --- Tokenizer ---
+
+type Token = Span & (
+  | { kind: 'number'; value: number }
+  | { kind: 'duration'; hours: number }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'operator'; value: string }
+  | { kind: 'end' }
+);
+
+const DURATION_UNIT_HOURS = new Map([['h', 1], ['d', 24]]);
+const OPERATORS = ['<=', '>=', '==', '!=', '<', '>', '+', '-', '*', '/', '(', ')', '%'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const char = source[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+    const start = position;
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+(\.\d+)?|\.\d+)([a-zA-Z]\w*)?/.exec(source.slice(position));
+      if (!match) {
+        throw new RuleExpressionError(`Unexpected '${char}'`, start, start + 1);
+      }
+      position += match[0].length;
+      const value = parseFloat(match[1]);
+      const suffix = match[3];
+      if (!suffix) {
+        tokens.push({ kind: 'number', value, start, end: position });
+      } else if (DURATION_UNIT_HOURS.has(suffix.toLowerCase())) {
+        tokens.push({ kind: 'duration', hours: value * DURATION_UNIT_HOURS.get(suffix.toLowerCase())!, start, end: position });
+      } else {
+        throw new RuleExpressionError(`Unknown unit '${suffix}' (use h for hours or d for days)`, start + match[1].length, position);
+      }
+      continue;
+    }
+
+    if (/[a-zA-Z_]/.test(char)) {
+      const name = /^[a-zA-Z_]\w*/.exec(source.slice(position))![0];
+      position += name.length;
+      tokens.push({ kind: 'identifier', name: name.toLowerCase(), start, end: position });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, position))
+      ?? (source.startsWith('&&', position) ? 'and' : source.startsWith('||', position) ? 'or' : null);
+    if (operator === 'and' || operator === 'or') {
+      position += 2;
+      tokens.push({ kind: 'identifier', name: operator, start, end: position });
+      continue;
+    }
+    if (!operator) {
+      throw new RuleExpressionError(`Unexpected '${char}'`, start, start + 1);
+    }
+    position += operator.length;
+    tokens.push({ kind: 'operator', value: operator, start, end: position });
+  }
+  tokens.push({ kind: 'end', start: source.length, end: source.length });
+  return tokens;
+}
+
+// --- Parser ---
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['<', '<=', '>', '>=', '==', '!='];
+const FUNCTIONS: ExpressionFunction[] = ['change', 'sma', 'ema', 'high', 'low'];
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new RuleExpressionError(`Unexpected ${describeToken(token)}`, token.start, token.end);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(name: string): boolean {
+    const token = this.peek();
+    return token.kind === 'identifier' && token.name === name;
+  }
+
+  private isOperator(...values: string[]): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && values.includes(token.value);
+  }
+
+  private expectOperator(value: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'operator' || token.value !== value) {
+      throw new RuleExpressionError(`Expected '${value}' but found ${describeToken(token)}`, token.start, token.end);
+    }
+    return this.next();
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.next();
+      const right = this.parseAnd();
+      left = { kind: 'logical', operator: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.next();
+      const right = this.parseNot();
+      left = { kind: 'logical', operator: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isKeyword('not')) {
+      const token = this.next();
+      const operand = this.parseNot();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    if (!this.isOperator(...COMPARISON_OPERATORS)) {
+      return left;
+    }
+    const operator = (this.next() as { value: ComparisonOperator }).value;
+    const right = this.parseAdditive();
+    if (this.isOperator(...COMPARISON_OPERATORS)) {
+      const token = this.peek();
+      throw new RuleExpressionError("Comparisons can't be chained; combine them with 'and'", token.start, token.end);
+    }
+    return { kind: 'compare', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseTerm();
+    while (this.isOperator('+', '-')) {
+      const operator = (this.next() as { value: ArithmeticOperator }).value;
+      const right = this.parseTerm();
+      left = { kind: 'arithmetic', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*', '/')) {
+      const operator = (this.next() as { value: ArithmeticOperator }).value;
+      const right = this.parseUnary();
+      left = { kind: 'arithmetic', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-')) {
+      const token = this.next();
+      const operand = this.parseUnary();
+      return { kind: 'negate', operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.kind) {
+      case 'number':
+        if (this.isOperator('%')) {
+          const percentToken = this.next();
+          return { kind: 'number', value: token.value, unit: 'percent', start: token.start, end: percentToken.end };
+        }
+        return { kind: 'number', value: token.value, unit: 'number', start: token.start, end: token.end };
+      case 'duration':
+        return { kind: 'duration', hours: token.hours, start: token.start, end: token.end };
+      case 'identifier': {
+        if (token.name === 'price') {
+          return { kind: 'price', start: token.start, end: token.end };
+        }
+        if (!FUNCTIONS.includes(token.name as ExpressionFunction)) {
+          const message = ['and', 'or', 'not'].includes(token.name)
+            ? `Expected a value before '${token.name}'`
+            : `Unknown name '${token.name}' (expected price, ${FUNCTIONS.map(f => `${f}()`).join(', ')})`;
+          throw new RuleExpressionError(message, token.start, token.end);
+        }
+        this.expectOperator('(');
+        const argument = this.parseOr();
+        const close = this.expectOperator(')');
+        return { kind: 'call', name: token.name as ExpressionFunction, argument, start: token.start, end: close.end };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          const close = this.expectOperator(')');
+          return { ...inner, start: token.start, end: close.end };
+        }
+        throw new RuleExpressionError(`Expected a value but found ${describeToken(token)}`, token.start, token.end);
+      default:
+        throw new RuleExpressionError(`Expected a value but found ${describeToken(token)}`, token.start, token.end);
+    }
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'end': return 'the end of the expression';
+    case 'identifier': return `'${token.name}'`;
+    case 'operator': return `'${token.value}'`;
+    default: return 'a number';
+  }
+}
+
+// --- Type checking ---
+
+const NUMERIC_TYPES: ExpressionType[] = ['price', 'percent', 'number'];
+
+function expectType(node: ExpressionNode, allowed: ExpressionType[], what: string): ExpressionType {
+  const type = checkNode(node);
+  if (!allowed.includes(type)) {
+    throw new RuleExpressionError(`Expected ${what} but found a ${type}`, node.start, node.end);
+  }
+  return type;
+}
+
+// Combines the types of two numeric operands, e.g. price - price is a price and price / price is a plain number
+function arithmeticType(operator: ArithmeticOperator, left: ExpressionType, right: ExpressionType): ExpressionType | null {
+  if (operator === '+' || operator === '-') {
+    if (left === right) return left;
+    if (left === 'number') return right;
+    if (right === 'number') return left;
+    return null;
+  }
+  if (operator === '*') {
+    if (left === 'number') return right;
+    if (right === 'number') return left;
+    return null;
+  }
+  // Division
+  if (right === 'number') return left;
+  if (left === right) return 'number';
+  return null;
+}
+
+function checkNode(node: ExpressionNode): ExpressionType {
+  switch (node.kind) {
+    case 'number':
+      return node.unit;
+    case 'duration':
+      return 'duration';
+    case 'price':
+      return 'price';
+    case 'call':
+      if (node.name === 'sma' || node.name === 'ema') {
+        if (node.argument.kind !== 'number' || node.argument.unit !== 'number') {
+          throw new RuleExpressionError(`${node.name}() takes a period in price points, e.g. ${node.name}(50)`, node.argument.start, node.argument.end);
+        }
+        const period = node.argument.value;
+        if (!Number.isInteger(period) || period < 2 || period > MAX_MOVING_AVERAGE_PERIOD) {
+          throw new RuleExpressionError(`Moving average period must be a whole number between 2 and ${MAX_MOVING_AVERAGE_PERIOD}`, node.argument.start, node.argument.end);
+        }
+        return 'price';
+      }
+      if (node.argument.kind !== 'duration') {
+        throw new RuleExpressionError(`${node.name}() takes a time window, e.g. ${node.name}(24h)`, node.argument.start, node.argument.end);
+      }
+      if (node.argument.hours < MIN_WINDOW_HOURS || node.argument.hours > MAX_WINDOW_HOURS || !Number.isInteger(node.argument.hours)) {
+        throw new RuleExpressionError(`Time window must be a whole number of hours between ${MIN_WINDOW_HOURS}h and ${MAX_WINDOW_HOURS}h`, node.argument.start, node.argument.end);
+      }
+      return node.name === 'change' ? 'percent' : 'price';
+    case 'negate':
+      return expectType(node.operand, NUMERIC_TYPES, 'a number');
+    case 'not':
+      expectType(node.operand, ['boolean'], 'a condition');
+      return 'boolean';
+    case 'logical':
+      expectType(node.left, ['boolean'], `a condition before '${node.operator}'`);
+      expectType(node.right, ['boolean'], `a condition after '${node.operator}'`);
+      return 'boolean';
+    case 'compare': {
+      const left = expectType(node.left, NUMERIC_TYPES, 'a number');
+      const right = expectType(node.right, NUMERIC_TYPES, 'a number');
+      if (left !== right && left !== 'number' && right !== 'number') {
+        throw new RuleExpressionError(`Cannot compare a ${left} with a ${right}`, node.start, node.end);
+      }
+      return 'boolean';
+    }
+    case 'arithmetic': {
+      const left = expectType(node.left, NUMERIC_TYPES, 'a number');
+      const right = expectType(node.right, NUMERIC_TYPES, 'a number');
+      const type = arithmeticType(node.operator, left, right);
+      if (!type) {
+        throw new RuleExpressionError(`Cannot apply '${node.operator}' to a ${left} and a ${right}`, node.start, node.end);
+      }
+      return type;
+    }
+  }
+}
+
+/**
+ * Parses and type-checks an expression. The result must be a condition (true or false).
+ * @throws {RuleExpressionError} With the position of the first problem found.
+ */
+export function parseRuleExpression(source: string): ExpressionNode {
+  if (source.trim().length === 0) {
+    throw new RuleExpressionError('Expression is empty', 0, source.length);
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new RuleExpressionError(`Expression must be at most ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH, source.length);
+  }
+  const node = new Parser(tokenize(source)).parse();
+  const type = checkNode(node);
+  if (type !== 'boolean') {
+    throw new RuleExpressionError(`Expression must be a condition (e.g. price > 50000), not a ${type}`, node.start, node.end);
+  }
+  return node;
+}
+
+/**
+ * Checks an expression without throwing.
+ * @returns The first error found, or null if the expression is valid.
+ */
+export function validateRuleExpression(source: string): RuleExpressionError | null {
+  try {
+    parseRuleExpression(source);
+    return null;
+  } catch (error) {
+    if (error instanceof RuleExpressionError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+// --- Evaluation ---
+
+/**
+ * How much price history an expression needs.
+ */
+export interface ExpressionHistoryNeeds {
+  windowHours: number; // Longest time window used by change(), high() or low()
+  pricePoints: number; // Most price points used by a moving average
+}
+
+export function getExpressionHistoryNeeds(node: ExpressionNode): ExpressionHistoryNeeds {
+  const needs: ExpressionHistoryNeeds = { windowHours: 0, pricePoints: 1 };
+  const visit = (current: ExpressionNode) => {
+    switch (current.kind) {
+      case 'call':
+        if (current.argument.kind === 'duration') {
+          needs.windowHours = Math.max(needs.windowHours, current.argument.hours);
+        } else if (current.argument.kind === 'number') {
+          const type = current.name === 'ema' ? MovingAverageType.EMA : MovingAverageType.SMA;
+          needs.pricePoints = Math.max(needs.pricePoints, movingAverageHistoryLength(current.argument.value, type));
+        }
+        break;
+      case 'negate':
+      case 'not':
+        visit(current.operand);
+        break;
+      case 'logical':
+      case 'compare':
+      case 'arithmetic':
+        visit(current.left);
+        visit(current.right);
+        break;
+    }
+  };
+  visit(node);
+  return needs;
+}
+
+export interface PricePoint {
+  price: number;
+  timestamp: Date;
+}
+
+// Values are null when there isn't enough history to compute them
+type Value = number | boolean | null;
+
+/**
+ * Evaluates a parsed expression against a price series.
+ * Anything that can't be computed for lack of history makes the comparisons using it unknown, and an
+ * unknown result counts as not met (so `not sma(200) > price` doesn't fire before there is enough data).
+ * @param series Price points ordered from oldest to newest; the last one is the current price.
+ */
+export function evaluateRuleExpression(node: ExpressionNode, series: PricePoint[]): boolean {
+  if (series.length === 0) {
+    return false;
+  }
+  return evaluateNode(node, series) === true;
+}
+
+function evaluateNode(node: ExpressionNode, series: PricePoint[]): Value {
+  const latest = series[series.length - 1];
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'duration':
+      return node.hours;
+    case 'price':
+      return latest.price;
+    case 'call': {
+      if (node.argument.kind === 'number') {
+        const type = node.name === 'ema' ? MovingAverageType.EMA : MovingAverageType.SMA;
+        return movingAverage(series.map(p => p.price), node.argument.value, type);
+      }
+      if (node.argument.kind !== 'duration') return null;
+      const windowStart = latest.timestamp.getTime() - node.argument.hours * 60 * 60 * 1000;
+      const window = series.filter(p => p.timestamp.getTime() >= windowStart);
+      if (node.name === 'high') return Math.max(...window.map(p => p.price));
+      if (node.name === 'low') return Math.min(...window.map(p => p.price));
+      // change(): from the first price in the window, like percentage change rules
+      const start = window[0];
+      if (window.length < 2 || start.price === 0) return null;
+      return ((latest.price - start.price) / start.price) * 100;
+    }
+    case 'negate': {
+      const value = evaluateNode(node.operand, series);
+      return typeof value === 'number' ? -value : null;
+    }
+    case 'not': {
+      const value = evaluateNode(node.operand, series);
+      return value === null ? null : !value;
+    }
+    case 'logical': {
+      const left = evaluateNode(node.left, series);
+      if (node.operator === 'and' && left === false) return false;
+      if (node.operator === 'or' && left === true) return true;
+      const right = evaluateNode(node.right, series);
+      if (node.operator === 'and') {
+        return right === false ? false : left === null || right === null ? null : true;
+      }
+      return right === true ? true : left === null || right === null ? null : false;
+    }
+    case 'compare': {
+      const left = evaluateNode(node.left, series);
+      const right = evaluateNode(node.right, series);
+      if (typeof left !== 'number' || typeof right !== 'number') return null;
+      switch (node.operator) {
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+      }
+      return null;
+    }
+    case 'arithmetic': {
+      const left = evaluateNode(node.left, series);
+      const right = evaluateNode(node.right, series);
+      if (typeof left !== 'number' || typeof right !== 'number') return null;
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+      }
+      return null;
+    }
+  }
+}
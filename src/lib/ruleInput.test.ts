@@ -0,0 +1,161 @@
+import { DeliveryChannel, NotificationRule, NotificationRuleType, PriceTriggerMode, QuoteCurrency, RulePriority, RuleRearmMode } from '@prisma/client';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationRule: { update: jest.fn() },
+    notificationRuleChange: { create: jest.fn() },
+    trackedAsset: { findFirst: jest.fn() },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { buildRuleFields, createRuleSchema, diffRuleFields, editNotificationRule, mergeRuleEdit } from './ruleInput';
+
+describe('diffRuleFields', () => {
+  const storedRule = {
+    type: NotificationRuleType.PRICE_TARGET_ABOVE,
+    value: 70000,
+    timeWindowHours: null,
+    channels: [DeliveryChannel.EMAIL],
+    condition: null,
+    cooldownMinutes: 120,
+  };
+
+  test('lists only the fields whose value changes', () => {
+    expect(diffRuleFields(storedRule, {
+      type: NotificationRuleType.PRICE_TARGET_ABOVE,
+      value: 72000,
+      timeWindowHours: null,
+      channels: [DeliveryChannel.EMAIL, DeliveryChannel.SMS],
+    })).toEqual({
+      value: { from: 70000, to: 72000 },
+      channels: { from: [DeliveryChannel.EMAIL], to: [DeliveryChannel.EMAIL, DeliveryChannel.SMS] },
+    });
+  });
+
+  test('ignores fields left undefined', () => {
+    expect(diffRuleFields(storedRule, { cooldownMinutes: undefined, value: 70000 })).toEqual({});
+  });
+
+  test('compares conditions regardless of key order', () => {
+    const stored = { condition: { kind: 'group', operator: 'AND', conditions: [{ kind: 'condition', value: 1, type: 'PRICE_TARGET_BELOW' }] } };
+    const edited = { condition: { operator: 'AND', kind: 'group', conditions: [{ type: 'PRICE_TARGET_BELOW', value: 1, kind: 'condition' }] } };
+    expect(diffRuleFields(stored, edited)).toEqual({});
+  });
+});
+
+describe('buildRuleFields', () => {
+  test('drops fields that do not apply to the rule type and fills in defaults', () => {
+    const input = createRuleSchema.parse({
+      trackedAssetId: 'clh3am8hi0000qwer1234abcd',
+      type: NotificationRuleType.PRICE_TARGET_BELOW,
+      value: 60000,
+      movingAverageType: 'SMA',
+      rearmPercent: 5,
+    });
+
+    expect(buildRuleFields(input, {}, QuoteCurrency.EUR)).toEqual(expect.objectContaining({
+      type: NotificationRuleType.PRICE_TARGET_BELOW,
+      value: 60000,
+      movingAverageType: null,
+      triggerMode: PriceTriggerMode.CROSSING,
+      quoteCurrency: QuoteCurrency.EUR,
+      rearmMode: RuleRearmMode.REPEAT,
+      rearmPercent: null,
+      channels: [],
+    }));
+  });
+});
+
+const storedRule: NotificationRule = {
+  id: 'rule-edit',
+  trackedAssetId: 'clh3am8hi0000qwer1234abcd',
+  type: NotificationRuleType.PRICE_TARGET_ABOVE,
+  value: 70000,
+  timeWindowHours: null,
+  movingAverageType: null,
+  crossDirection: null,
+  condition: null,
+  expression: null,
+  indicatorPeriod: null,
+  peakPrice: null,
+  peakAt: null,
+  compareAssetId: null,
+  templateId: null,
+  triggerMode: PriceTriggerMode.LEVEL,
+  quoteCurrency: QuoteCurrency.EUR,
+  cooldownMinutes: 30,
+  rearmMode: RuleRearmMode.CROSS_BACK,
+  rearmPercent: 2,
+  channels: [DeliveryChannel.SMS],
+  priority: RulePriority.CRITICAL,
+  isArmed: true,
+  isEnabled: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastTriggeredAt: null,
+};
+
+describe('mergeRuleEdit', () => {
+  test('keeps the stored values of fields left out of the edit', () => {
+    const input = createRuleSchema.parse(mergeRuleEdit(storedRule, null, { value: 72000 }));
+
+    expect(buildRuleFields(input, {}, input.quoteCurrency!)).toEqual(expect.objectContaining({
+      value: 72000,
+      triggerMode: PriceTriggerMode.LEVEL,
+      quoteCurrency: QuoteCurrency.EUR,
+      cooldownMinutes: 30,
+      rearmMode: RuleRearmMode.CROSS_BACK,
+      rearmPercent: 2,
+      channels: [DeliveryChannel.SMS],
+      priority: RulePriority.CRITICAL,
+    }));
+  });
+
+  test('drops the old type\'s fields when the type changes, and null clears a field', () => {
+    const merged = mergeRuleEdit(storedRule, null, { type: NotificationRuleType.DRAWDOWN_FROM_HIGH, rearmMode: null });
+
+    expect(merged).not.toHaveProperty('value');
+    expect(merged).not.toHaveProperty('triggerMode');
+    expect(merged).not.toHaveProperty('rearmMode');
+    expect(merged).toEqual(expect.objectContaining({ cooldownMinutes: 30, channels: [DeliveryChannel.SMS] }));
+    expect(createRuleSchema.safeParse(merged).success).toBe(false); // The new type needs its own value and window
+  });
+});
+
+describe('editNotificationRule', () => {
+  const mockUpdateRule = prisma.notificationRule.update as jest.Mock;
+  const mockFindTrackedAsset = prisma.trackedAsset.findFirst as jest.Mock;
+
+  // A ratio rule whose compare asset the user no longer tracks
+  const orphanedRatioRule = {
+    ...storedRule,
+    type: NotificationRuleType.RATIO_BELOW,
+    value: 0.045,
+    compareAssetId: 'asset-removed',
+    rearmMode: RuleRearmMode.REPEAT,
+    rearmPercent: null,
+    trackedAsset: { id: storedRule.trackedAssetId, userId: 'user-1', assetId: 'asset-eth', createdAt: new Date(), quantity: null, averageCost: null, costCurrency: null },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUpdateRule.mockImplementation(({ data }) => Promise.resolve({ ...orphanedRatioRule, ...data }));
+    mockFindTrackedAsset.mockResolvedValue(null);
+  });
+
+  test('pauses a ratio rule after its compare asset has been removed', async () => {
+    const result = await editNotificationRule(orphanedRatioRule, 'user-1', { isEnabled: false });
+
+    expect(result).toEqual({ rule: expect.objectContaining({ isEnabled: false }) });
+    expect(mockUpdateRule).toHaveBeenCalledWith({ where: { id: 'rule-edit' }, data: { isEnabled: false } });
+  });
+
+  test('still validates the definition when it is edited', async () => {
+    const result = await editNotificationRule(orphanedRatioRule, 'user-1', { isEnabled: false, value: 0.05 });
+
+    expect(result).toEqual(expect.objectContaining({ status: 400 }));
+    expect(mockUpdateRule).not.toHaveBeenCalled();
+  });
+});
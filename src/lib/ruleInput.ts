@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { NotificationRule, NotificationRuleType, RuleRearmMode, PriceTriggerMode, QuoteCurrency, DeliveryChannel, RulePriority, Prisma, TrackedAsset } from '@prisma/client';
+import { DEFAULT_RULE_COOLDOWN_MINUTES, MAX_RULE_COOLDOWN_MINUTES } from './ruleDefaults';
+import { collectConditionLeaves, CompositeCondition, compositeConditionSchema, isRatioRuleType, refineRuleCondition, ruleConditionShape } from './ruleConditions';
+import { MAX_EXPRESSION_LENGTH, validateRuleExpression } from './ruleExpression';
+
+// Request body for creating a rule (also used to backtest a rule before saving it)
+export const createRuleSchema = z.object({
+  trackedAssetId: z.string().cuid(),
+  ...ruleConditionShape,
+  condition: compositeConditionSchema.optional(), // Required for compound (COMPOSITE) rules
+  expression: z.string().max(MAX_EXPRESSION_LENGTH).optional(), // Required for EXPRESSION rules
+  compareTrackedAssetId: z.string().cuid().optional(), // Required for ratio rules: the tracked asset to divide by
+  quoteCurrency: z.nativeEnum(QuoteCurrency).optional(), // Defaults to the user's reference currency
+  cooldownMinutes: z.number().int().min(0).max(MAX_RULE_COOLDOWN_MINUTES).optional(),
+  rearmMode: z.nativeEnum(RuleRearmMode).optional(),
+  rearmPercent: z.number().positive().max(100).optional(),
+  channels: z.array(z.nativeEnum(DeliveryChannel)).optional(), // Empty means the user's default channels
+  priority: z.nativeEnum(RulePriority).optional(), // Critical rules can break through quiet time
+}).superRefine(refineRuleCondition).refine((data) => {
+    return data.type !== NotificationRuleType.COMPOSITE || !!data.condition;
+  }, {
+    message: "condition is required for compound rules",
+    path: ["condition"],
+}).refine((data) => {
+    return !isRatioRuleType(data.type) || !!data.compareTrackedAssetId;
+  }, {
+    message: "compareTrackedAssetId is required for ratio rules",
+    path: ["compareTrackedAssetId"],
+}).superRefine((data, ctx) => {
+    // Expressions are parsed and type-checked here; errors point at the column of the problem
+    if (data.type !== NotificationRuleType.EXPRESSION) return;
+    const expressionError = validateRuleExpression(data.expression ?? '');
+    if (expressionError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: expressionError.toDisplayString(), path: ["expression"] });
+    }
+}).refine((data) => {
+    // Re-arming on a move back past the target only makes sense for price targets
+    if (data.rearmMode !== RuleRearmMode.CROSS_BACK) return true;
+    const isPriceTarget = data.type === NotificationRuleType.PRICE_TARGET_ABOVE || data.type === NotificationRuleType.PRICE_TARGET_BELOW;
+    return isPriceTarget && typeof data.rearmPercent === 'number';
+  }, {
+    message: "CROSS_BACK re-arming requires a price target rule and rearmPercent",
+    path: ["rearmMode"],
+});
+
+// Fills in each condition's asset symbol and defaults price targets to LEVEL, ready to store
+function prepareCondition(node: CompositeCondition, symbols: Map<string, string>): CompositeCondition {
+  if (node.kind === 'group') {
+    return { ...node, conditions: node.conditions.map(child => prepareCondition(child, symbols)) };
+  }
+  return { ...node, assetSymbol: symbols.get(node.trackedAssetId) ?? node.assetSymbol, triggerMode: node.triggerMode ?? PriceTriggerMode.LEVEL };
+}
+
+
+export type CreateRuleInput = z.infer<typeof createRuleSchema>;
+
+// Other tracked assets a rule refers to, checked against the owner's own tracked assets
+export interface ResolvedRuleReferences {
+  storedCondition?: CompositeCondition; // Compound rules: the condition with asset symbols filled in
+  conditionAssets?: Map<string, string>; // Compound rules: asset IDs of the tracked assets used, keyed by tracked asset ID
+  compareAssetId?: string; // Ratio rules: the asset to divide by
+}
+
+/**
+ * Checks that the tracked assets a rule refers to (in compound conditions, or to compare with in
+ * ratio rules) belong to the user, and looks up what the stored rule needs from them.
+ * @param assetId The asset of the rule's own tracked asset.
+ * @returns The references, or an error message and HTTP status.
+ */
+export async function resolveRuleReferences(
+  input: Pick<CreateRuleInput, 'type' | 'condition' | 'compareTrackedAssetId'>,
+  userId: string,
+  assetId: string
+): Promise<ResolvedRuleReferences | { error: string; status: number }> {
+  // Compound rules may only use the user's own tracked assets
+  let storedCondition: CompositeCondition | undefined;
+  let conditionAssetMap: Map<string, string> | undefined;
+  if (input.type === NotificationRuleType.COMPOSITE && input.condition) {
+    const conditionAssetIds = [...new Set(collectConditionLeaves(input.condition).map(leaf => leaf.trackedAssetId))];
+    const conditionAssets = await prisma.trackedAsset.findMany({
+      where: { id: { in: conditionAssetIds }, userId },
+      include: { asset: { select: { symbol: true } } },
+    });
+    if (conditionAssets.length !== conditionAssetIds.length) {
+      return { error: "Tracked asset not found", status: 404 };
+    }
+    storedCondition = prepareCondition(input.condition, new Map(conditionAssets.map(t => [t.id, t.asset.symbol])));
+    conditionAssetMap = new Map(conditionAssets.map(t => [t.id, t.assetId]));
+  }
+
+  // Ratio rules compare with another of the user's own tracked assets
+  let compareAssetId: string | undefined;
+  if (isRatioRuleType(input.type) && input.compareTrackedAssetId) {
+    const compareTrackedAsset = await prisma.trackedAsset.findFirst({
+      where: { id: input.compareTrackedAssetId, userId },
+    });
+    if (!compareTrackedAsset) {
+      return { error: "Tracked asset not found", status: 404 };
+    }
+    if (compareTrackedAsset.assetId === assetId) {
+      return { error: "Ratio rules need two different assets", status: 400 };
+    }
+    compareAssetId = compareTrackedAsset.assetId;
+  }
+
+  return { storedCondition, conditionAssets: conditionAssetMap, compareAssetId };
+}
+
+/**
+ * Builds a rule's stored fields from validated input: fields that don't apply to the rule type are
+ * dropped and the rest get their defaults. A compound rule's condition is in `references`.
+ */
+export function buildRuleFields(input: CreateRuleInput, references: ResolvedRuleReferences, quoteCurrency: QuoteCurrency) {
+  const { type } = input;
+  const isMovingAverageCross = type === NotificationRuleType.MOVING_AVERAGE_CROSS;
+  const isIndicator = type === NotificationRuleType.RSI_CROSS || type === NotificationRuleType.BOLLINGER_BREAKOUT;
+  const isComposite = type === NotificationRuleType.COMPOSITE;
+  const isExpression = type === NotificationRuleType.EXPRESSION;
+  const channels: DeliveryChannel[] = input.channels ? [...new Set(input.channels)] : [];
+
+  return {
+    type,
+    value: isComposite || isExpression ? 0 : input.value, // Compound and expression rules keep their values in the condition
+    timeWindowHours: isComposite || isExpression ? null : input.timeWindowHours ?? null,
+    movingAverageType: isMovingAverageCross ? input.movingAverageType ?? null : null,
+    crossDirection: isMovingAverageCross || isIndicator ? input.crossDirection ?? null : null,
+    indicatorPeriod: isIndicator ? input.indicatorPeriod ?? null : null,
+    triggerMode: input.triggerMode ?? PriceTriggerMode.CROSSING,
+    expression: isExpression ? input.expression?.trim() ?? null : null,
+    compareAssetId: references.compareAssetId ?? null,
+    quoteCurrency,
+    cooldownMinutes: input.cooldownMinutes ?? DEFAULT_RULE_COOLDOWN_MINUTES,
+    rearmMode: input.rearmMode ?? RuleRearmMode.REPEAT,
+    rearmPercent: input.rearmMode === RuleRearmMode.CROSS_BACK ? input.rearmPercent ?? null : null,
+    channels,
+    priority: input.priority ?? RulePriority.NORMAL,
+  };
+}
+
+// Input fields that only mean something for the rule's type; an edit that changes the type doesn't keep the stored ones
+const TYPE_SPECIFIC_INPUT_FIELDS = [
+  'value', 'timeWindowHours', 'movingAverageType', 'crossDirection', 'indicatorPeriod',
+  'triggerMode', 'expression', 'condition', 'compareTrackedAssetId',
+] as const;
+
+/**
+ * Merges a partial edit onto a stored rule, giving the whole rule to validate with createRuleSchema.
+ * Fields left out of the edit keep their stored values and null clears a field. When the edit
+ * changes the rule type, the old type's fields (value, window, condition...) are dropped.
+ * @param compareTrackedAssetId Ratio rules: the owner's tracked asset for the stored `compareAssetId`.
+ */
+export function mergeRuleEdit(stored: NotificationRule, compareTrackedAssetId: string | null, edit: Record<string, unknown>): Record<string, unknown> {
+  const storedInput: Record<string, unknown> = {
+    trackedAssetId: stored.trackedAssetId,
+    type: stored.type,
+    value: stored.value,
+    timeWindowHours: stored.timeWindowHours,
+    movingAverageType: stored.movingAverageType,
+    crossDirection: stored.crossDirection,
+    indicatorPeriod: stored.indicatorPeriod,
+    triggerMode: stored.triggerMode,
+    condition: stored.condition,
+    expression: stored.expression,
+    compareTrackedAssetId,
+    quoteCurrency: stored.quoteCurrency,
+    cooldownMinutes: stored.cooldownMinutes,
+    rearmMode: stored.rearmMode,
+    rearmPercent: stored.rearmPercent,
+    channels: stored.channels,
+    priority: stored.priority,
+  };
+  if (edit.type !== undefined && edit.type !== stored.type) {
+    TYPE_SPECIFIC_INPUT_FIELDS.forEach(field => delete storedInput[field]);
+  }
+  const merged = { ...storedInput, ...edit };
+  return Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== null && value !== undefined));
+}
+
+// Fields that define what a rule detects; changing any of them starts the rule over (armed, no trailing peak)
+export const RULE_DEFINITION_FIELDS = [
+  'type', 'value', 'timeWindowHours', 'movingAverageType', 'crossDirection', 'indicatorPeriod',
+  'triggerMode', 'expression', 'condition', 'compareAssetId', 'quoteCurrency',
+] as const;
+
+// What an edit changed, stored on NotificationRuleChange: each changed field's value before and after
+export type RuleFieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Compares stored values regardless of key order (Postgres reorders the keys of JSON columns)
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Lists the fields an edit changes. Fields left undefined in `after` aren't being edited.
+ * @param before The stored rule.
+ * @param after The new values of the edited fields.
+ */
+export function diffRuleFields(before: object, after: object): RuleFieldChanges {
+  const stored = before as Record<string, unknown>;
+  const changes: RuleFieldChanges = {};
+  for (const [field, to] of Object.entries(after)) {
+    if (to === undefined) continue;
+    const from = stored[field] ?? null;
+    if (canonicalJson(from) !== canonicalJson(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// PATCH bodies may also pause or resume the rule, which isn't part of createRuleSchema
+const ruleStateSchema = z.object({
+  isEnabled: z.boolean().optional(),
+});
+
+export type RuleEditResult = { rule: NotificationRule } | { error: string; status: number; details?: unknown };
+
+// Saves a rule update together with the history entry describing it (if anything changed)
+async function updateRuleWithHistory(ruleId: string, data: Prisma.NotificationRuleUpdateInput, changes: RuleFieldChanges) {
+  if (Object.keys(changes).length === 0) {
+    return prisma.notificationRule.update({ where: { id: ruleId }, data });
+  }
+  const [updatedRule] = await prisma.$transaction([
+    prisma.notificationRule.update({ where: { id: ruleId }, data }),
+    prisma.notificationRuleChange.create({ data: { ruleId, changes: changes as unknown as Prisma.InputJsonValue } }),
+  ]);
+  return updatedRule;
+}
+
+/**
+ * Edits a stored rule. The body is merged onto the rule (see mergeRuleEdit) and the result is
+ * validated exactly like a new rule. A body that only pauses or resumes the rule leaves the
+ * definition alone, so rules whose other tracked assets are gone can still be switched off.
+ * @param existingRule The rule, already checked to belong to `userId`.
+ */
+export async function editNotificationRule(
+  existingRule: NotificationRule & { trackedAsset: TrackedAsset },
+  userId: string,
+  body: Record<string, unknown>
+): Promise<RuleEditResult> {
+  const stateResult = ruleStateSchema.safeParse(body);
+  if (!stateResult.success) {
+    return { error: "Invalid input", status: 400, details: stateResult.error.flatten() };
+  }
+  const { isEnabled } = stateResult.data;
+  // A resumed rule starts armed, and a resumed trailing stop tracks its peak afresh
+  const isResumed = isEnabled === true && !existingRule.isEnabled;
+
+  if (Object.keys(body).every(field => field === 'isEnabled')) {
+    const rule = await updateRuleWithHistory(existingRule.id, {
+      isEnabled,
+      ...(isResumed && { isArmed: true }),
+      ...(isResumed && existingRule.type === NotificationRuleType.TRAILING_STOP && { peakPrice: null, peakAt: null }),
+    }, diffRuleFields(existingRule, { isEnabled }));
+    return { rule };
+  }
+
+  const compareTrackedAsset = existingRule.compareAssetId
+    ? await prisma.trackedAsset.findFirst({ where: { userId, assetId: existingRule.compareAssetId } })
+    : null;
+  const validationResult = createRuleSchema.safeParse(mergeRuleEdit(existingRule, compareTrackedAsset?.id ?? null, body));
+  if (!validationResult.success) {
+    return { error: "Invalid input", status: 400, details: validationResult.error.flatten() };
+  }
+  const input = validationResult.data;
+  if (input.trackedAssetId !== existingRule.trackedAssetId) {
+    return { error: "A rule can't be moved to another tracked asset", status: 400 };
+  }
+
+  const references = await resolveRuleReferences(input, userId, existingRule.trackedAsset.assetId);
+  if ('error' in references) {
+    return references;
+  }
+  const fields = buildRuleFields(input, references, input.quoteCurrency ?? existingRule.quoteCurrency);
+  const condition = references.storedCondition ?? null;
+  const changes = diffRuleFields(existingRule, { ...fields, condition, isEnabled });
+
+  // A rule that now detects something else starts over: armed, and trailing stops measure from the latest price
+  const restartsRule = RULE_DEFINITION_FIELDS.some(field => field in changes) || 'rearmMode' in changes;
+  const isTrailingStop = fields.type === NotificationRuleType.TRAILING_STOP;
+  const latestPrice = restartsRule && isTrailingStop
+    ? await prisma.priceHistory.findFirst({
+        where: { assetId: existingRule.trackedAsset.assetId, currency: fields.quoteCurrency },
+        orderBy: { timestamp: 'desc' },
+      })
+    : null;
+
+  const rule = await updateRuleWithHistory(existingRule.id, {
+    ...fields,
+    isEnabled,
+    condition: condition ? (condition as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+    ...((restartsRule || isResumed) && { isArmed: true }),
+    ...(isResumed && isTrailingStop && { peakPrice: null, peakAt: null }),
+    ...(restartsRule && { peakPrice: latestPrice?.price ?? null, peakAt: latestPrice?.timestamp ?? null }),
+  }, changes);
+  return { rule };
+}
@@ -0,0 +1,196 @@
+import { NotificationRuleType, PriceTriggerMode, QuoteCurrency, RulePriority, RuleRearmMode, RuleTemplate } from '@prisma/client';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationRule: { findMany: jest.fn(), create: jest.fn() },
+    priceHistory: { findFirst: jest.fn() },
+    pendingTemplateApplication: { upsert: jest.fn(), findMany: jest.fn(), delete: jest.fn(), deleteMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { applyPendingRuleTemplates, applyRuleTemplates, ruleTemplateSchema } from './ruleTemplates';
+
+const mockFindRules = prisma.notificationRule.findMany as jest.Mock;
+const mockCreateRule = prisma.notificationRule.create as jest.Mock;
+const mockFindLatestPrice = prisma.priceHistory.findFirst as jest.Mock;
+const mockUpsertPending = prisma.pendingTemplateApplication.upsert as jest.Mock;
+const mockFindPending = prisma.pendingTemplateApplication.findMany as jest.Mock;
+const mockDeletePending = prisma.pendingTemplateApplication.delete as jest.Mock;
+
+const createTemplate = (overrides: Partial<RuleTemplate> = {}): RuleTemplate => ({
+  id: 'template-1',
+  userId: 'user-1',
+  name: 'Dip buy',
+  type: NotificationRuleType.PRICE_TARGET_BELOW,
+  value: 10,
+  timeWindowHours: null,
+  movingAverageType: null,
+  crossDirection: null,
+  indicatorPeriod: null,
+  triggerMode: PriceTriggerMode.CROSSING,
+  quoteCurrency: null,
+  cooldownMinutes: 119,
+  rearmMode: RuleRearmMode.REPEAT,
+  rearmPercent: null,
+  channels: [],
+  priority: RulePriority.NORMAL,
+  autoApply: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const btc = { id: 'tracked-btc', assetId: 'asset-btc' };
+const eth = { id: 'tracked-eth', assetId: 'asset-eth' };
+
+describe('applyRuleTemplates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindRules.mockResolvedValue([]);
+    mockCreateRule.mockImplementation(({ data }) => Promise.resolve({ id: `rule-${data.trackedAssetId}` }));
+  });
+
+  test('sets price targets relative to each asset\'s latest price', async () => {
+    mockFindLatestPrice.mockImplementation(({ where }) => Promise.resolve({
+      price: where.assetId === 'asset-btc' ? 70000 : 0.123456,
+      timestamp: new Date(),
+    }));
+
+    const result = await applyRuleTemplates([createTemplate()], [btc, { id: 'tracked-doge', assetId: 'asset-doge' }], QuoteCurrency.EUR);
+
+    expect(result).toEqual({ created: ['rule-tracked-btc', 'rule-tracked-doge'], skipped: [] });
+    expect(mockFindLatestPrice).toHaveBeenCalledWith(expect.objectContaining({ where: { assetId: 'asset-btc', currency: QuoteCurrency.EUR } }));
+    expect(mockCreateRule.mock.calls[0][0].data).toEqual(expect.objectContaining({
+      trackedAssetId: 'tracked-btc',
+      templateId: 'template-1',
+      type: NotificationRuleType.PRICE_TARGET_BELOW,
+      value: 63000,
+      quoteCurrency: QuoteCurrency.EUR,
+    }));
+    expect(mockCreateRule.mock.calls[1][0].data.value).toBe(0.11111);
+  });
+
+  test('keeps percentage rules as they are, without looking up prices', async () => {
+    const template = createTemplate({ type: NotificationRuleType.PERCENT_CHANGE_DECREASE, value: 5, timeWindowHours: 24, quoteCurrency: QuoteCurrency.USD });
+
+    await applyRuleTemplates([template], [btc, eth], QuoteCurrency.EUR);
+
+    expect(mockFindLatestPrice).not.toHaveBeenCalled();
+    expect(mockCreateRule).toHaveBeenCalledTimes(2);
+    expect(mockCreateRule.mock.calls[1][0].data).toEqual(expect.objectContaining({
+      trackedAssetId: 'tracked-eth',
+      value: 5,
+      timeWindowHours: 24,
+      quoteCurrency: QuoteCurrency.USD,
+    }));
+  });
+
+  test('skips assets that already have the template and price rules without a stored price', async () => {
+    mockFindRules.mockResolvedValue([{ templateId: 'template-1', trackedAssetId: 'tracked-btc' }]);
+    mockFindLatestPrice.mockResolvedValue(null);
+
+    const result = await applyRuleTemplates([createTemplate()], [btc, eth], QuoteCurrency.USD);
+
+    expect(mockCreateRule).not.toHaveBeenCalled();
+    expect(result.skipped).toEqual([
+      { templateId: 'template-1', trackedAssetId: 'tracked-btc', reason: 'Already applied' },
+      { templateId: 'template-1', trackedAssetId: 'tracked-eth', reason: 'No USD price yet' },
+    ]);
+  });
+
+  test('treats a rule another request created meanwhile as already applied', async () => {
+    const template = createTemplate({ type: NotificationRuleType.PERCENT_CHANGE_DECREASE, value: 5, timeWindowHours: 24 });
+    mockCreateRule.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+    const result = await applyRuleTemplates([template], [btc, eth], QuoteCurrency.USD);
+
+    expect(result).toEqual({
+      created: ['rule-tracked-eth'],
+      skipped: [{ templateId: 'template-1', trackedAssetId: 'tracked-btc', reason: 'Already applied' }],
+    });
+  });
+
+  test('records price rules without a stored price as pending when asked to wait', async () => {
+    mockFindLatestPrice.mockResolvedValue(null);
+
+    const result = await applyRuleTemplates([createTemplate()], [eth], QuoteCurrency.USD, { waitForPrice: true });
+
+    expect(mockCreateRule).not.toHaveBeenCalled();
+    expect(mockUpsertPending).toHaveBeenCalledWith(expect.objectContaining({
+      create: { templateId: 'template-1', trackedAssetId: 'tracked-eth' },
+    }));
+    expect(result.skipped).toEqual([
+      { templateId: 'template-1', trackedAssetId: 'tracked-eth', reason: 'No USD price yet, will apply once one is stored' },
+    ]);
+  });
+
+  test('starts trailing stops from the latest price', async () => {
+    const latest = { price: 3000, timestamp: new Date('2026-10-19T10:00:00Z') };
+    mockFindLatestPrice.mockResolvedValue(latest);
+
+    await applyRuleTemplates([createTemplate({ type: NotificationRuleType.TRAILING_STOP, value: 8 })], [eth], QuoteCurrency.USD);
+
+    expect(mockCreateRule.mock.calls[0][0].data).toEqual(expect.objectContaining({ value: 8, peakPrice: 3000, peakAt: latest.timestamp }));
+  });
+});
+
+describe('applyPendingRuleTemplates', () => {
+  const pendingApplication = (id: string, trackedAsset: typeof btc) => ({
+    id,
+    template: { ...createTemplate({ autoApply: true }), user: { referenceCurrency: QuoteCurrency.USD } },
+    trackedAsset,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindRules.mockResolvedValue([]);
+    mockCreateRule.mockImplementation(({ data }) => Promise.resolve({ id: `rule-${data.trackedAssetId}` }));
+  });
+
+  test('applies templates whose asset now has a price and keeps the rest pending', async () => {
+    mockFindPending.mockResolvedValue([pendingApplication('pending-btc', btc), pendingApplication('pending-eth', eth)]);
+    mockFindLatestPrice.mockImplementation(({ where }) => Promise.resolve(
+      where.assetId === 'asset-btc' ? { price: 70000, timestamp: new Date() } : null
+    ));
+
+    expect(await applyPendingRuleTemplates()).toBe(1);
+
+    expect(mockCreateRule.mock.calls[0][0].data).toEqual(expect.objectContaining({ trackedAssetId: 'tracked-btc', value: 63000 }));
+    expect(mockDeletePending).toHaveBeenCalledTimes(1);
+    expect(mockDeletePending).toHaveBeenCalledWith({ where: { id: 'pending-btc' } });
+  });
+
+  test('carries on with the other applications when one fails', async () => {
+    mockFindPending.mockResolvedValue([pendingApplication('pending-btc', btc), pendingApplication('pending-eth', eth)]);
+    mockFindLatestPrice.mockResolvedValue({ price: 3000, timestamp: new Date() });
+    mockCreateRule.mockRejectedValueOnce(new Error('Database unavailable'));
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await applyPendingRuleTemplates()).toBe(1);
+
+    expect(mockDeletePending).toHaveBeenCalledTimes(1);
+    expect(mockDeletePending).toHaveBeenCalledWith({ where: { id: 'pending-eth' } });
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('drops applications the user has applied by hand since', async () => {
+    mockFindPending.mockResolvedValue([pendingApplication('pending-btc', btc)]);
+    mockFindRules.mockResolvedValue([{ templateId: 'template-1', trackedAssetId: 'tracked-btc' }]);
+
+    expect(await applyPendingRuleTemplates()).toBe(0);
+    expect(mockDeletePending).toHaveBeenCalledWith({ where: { id: 'pending-btc' } });
+  });
+});
+
+describe('ruleTemplateSchema', () => {
+  test('rejects rule types tied to other assets', () => {
+    const result = ruleTemplateSchema.safeParse({ name: 'Ratio', type: NotificationRuleType.RATIO_ABOVE, value: 0.05 });
+    expect(result.success).toBe(false);
+  });
+
+  test('limits price targets below the current price to under 100%', () => {
+    expect(ruleTemplateSchema.safeParse({ name: 'Dip', type: NotificationRuleType.PRICE_TARGET_BELOW, value: 100 }).success).toBe(false);
+    expect(ruleTemplateSchema.safeParse({ name: 'Dip', type: NotificationRuleType.PRICE_TARGET_BELOW, value: 20 }).success).toBe(true);
+  });
+});
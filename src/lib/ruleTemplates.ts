@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { DeliveryChannel, NotificationRuleType, PriceHistory, QuoteCurrency, RulePriority, RuleRearmMode, RuleTemplate, TrackedAsset } from '@prisma/client';
+import { MAX_RULE_COOLDOWN_MINUTES } from './ruleDefaults';
+import { refineRuleCondition, ruleConditionShape } from './ruleConditions';
+import { buildRuleFields, CreateRuleInput } from './ruleInput';
+
+// Rule types a template can hold: ones that check a single asset. Price targets are stored as a
+// percentage above or below the price when the template is applied.
+export const TEMPLATE_RULE_TYPES: NotificationRuleType[] = [
+  NotificationRuleType.PRICE_TARGET_ABOVE,
+  NotificationRuleType.PRICE_TARGET_BELOW,
+  NotificationRuleType.PERCENT_CHANGE_INCREASE,
+  NotificationRuleType.PERCENT_CHANGE_DECREASE,
+  NotificationRuleType.DRAWDOWN_FROM_HIGH,
+  NotificationRuleType.RALLY_FROM_LOW,
+  NotificationRuleType.MOVING_AVERAGE_CROSS,
+  NotificationRuleType.RSI_CROSS,
+  NotificationRuleType.BOLLINGER_BREAKOUT,
+  NotificationRuleType.TRAILING_STOP,
+  NotificationRuleType.VOLUME_SPIKE,
+];
+
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+
+function isPriceTarget(type: NotificationRuleType): boolean {
+  return type === NotificationRuleType.PRICE_TARGET_ABOVE || type === NotificationRuleType.PRICE_TARGET_BELOW;
+}
+
+// Request body for creating a template
+export const ruleTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_TEMPLATE_NAME_LENGTH),
+  ...ruleConditionShape,
+  type: z.nativeEnum(NotificationRuleType).refine(type => TEMPLATE_RULE_TYPES.includes(type), {
+    message: "Templates can't hold market cap, ratio, compound or expression rules",
+  }),
+  quoteCurrency: z.nativeEnum(QuoteCurrency).optional(), // Defaults to the user's reference currency when applied
+  cooldownMinutes: z.number().int().min(0).max(MAX_RULE_COOLDOWN_MINUTES).optional(),
+  rearmMode: z.nativeEnum(RuleRearmMode).optional(),
+  rearmPercent: z.number().positive().max(100).optional(),
+  channels: z.array(z.nativeEnum(DeliveryChannel)).optional(), // Empty means the user's default channels
+  priority: z.nativeEnum(RulePriority).optional(),
+  autoApply: z.boolean().optional(), // Attach to assets the user adds later
+}).superRefine(refineRuleCondition).refine((data) => {
+    // Price targets are a percentage away from the current price; a target below can't go under zero
+    if (data.type === NotificationRuleType.PRICE_TARGET_ABOVE) return data.value > 0;
+    if (data.type === NotificationRuleType.PRICE_TARGET_BELOW) return data.value > 0 && data.value < 100;
+    return true;
+  }, {
+    message: "Price target templates need a percentage from the current price (below 100 for targets below it)",
+    path: ["value"],
+}).refine((data) => {
+    return data.rearmMode !== RuleRearmMode.CROSS_BACK || (isPriceTarget(data.type) && typeof data.rearmPercent === 'number');
+  }, {
+    message: "CROSS_BACK re-arming requires a price target rule and rearmPercent",
+    path: ["rearmMode"],
+});
+
+export type RuleTemplateInput = z.infer<typeof ruleTemplateSchema>;
+
+export interface SkippedTemplateApplication {
+  templateId: string;
+  trackedAssetId: string;
+  reason: string;
+}
+
+const ALREADY_APPLIED = "Already applied";
+
+export interface TemplateApplicationResult {
+  created: string[]; // IDs of the new rules
+  skipped: SkippedTemplateApplication[];
+}
+
+// Targets are rounded to 6 significant figures, so 5% above 0.123456 doesn't read 0.1296288
+function roundTarget(price: number): number {
+  return Number(price.toPrecision(6));
+}
+
+/**
+ * Turns a template into the input for one tracked asset's rule. Price targets become an actual
+ * price from the asset's latest price.
+ */
+function templateRuleInput(template: RuleTemplate, trackedAssetId: string, latestPrice: PriceHistory | null): CreateRuleInput {
+  let value = template.value;
+  if (template.type === NotificationRuleType.PRICE_TARGET_ABOVE && latestPrice) {
+    value = roundTarget(latestPrice.price * (1 + template.value / 100));
+  } else if (template.type === NotificationRuleType.PRICE_TARGET_BELOW && latestPrice) {
+    value = roundTarget(latestPrice.price * (1 - template.value / 100));
+  }
+
+  return {
+    trackedAssetId,
+    type: template.type,
+    value,
+    timeWindowHours: template.timeWindowHours ?? undefined,
+    movingAverageType: template.movingAverageType ?? undefined,
+    crossDirection: template.crossDirection ?? undefined,
+    indicatorPeriod: template.indicatorPeriod ?? undefined,
+    triggerMode: template.triggerMode,
+    cooldownMinutes: template.cooldownMinutes,
+    rearmMode: template.rearmMode,
+    rearmPercent: template.rearmPercent ?? undefined,
+    channels: template.channels,
+    priority: template.priority,
+  };
+}
+
+/**
+ * Creates a rule from each template on each tracked asset. Assets that already have a rule from
+ * a template are skipped, as are price targets and trailing stops on assets with no stored price
+ * yet (they'd have nothing to measure from).
+ * @param referenceCurrency The owner's reference currency, for templates without a quote currency.
+ * @param options.waitForPrice Record the templates skipped for lack of a price as pending, so
+ *   applyPendingRuleTemplates applies them once the price cron stores one.
+ */
+export async function applyRuleTemplates(
+  templates: RuleTemplate[],
+  trackedAssets: Pick<TrackedAsset, 'id' | 'assetId'>[],
+  referenceCurrency: QuoteCurrency,
+  options: { waitForPrice?: boolean } = {}
+): Promise<TemplateApplicationResult> {
+  const result: TemplateApplicationResult = { created: [], skipped: [] };
+  if (templates.length === 0 || trackedAssets.length === 0) {
+    return result;
+  }
+
+  const existingRules = await prisma.notificationRule.findMany({
+    where: { templateId: { in: templates.map(t => t.id) }, trackedAssetId: { in: trackedAssets.map(t => t.id) } },
+    select: { templateId: true, trackedAssetId: true },
+  });
+  const applied = new Set(existingRules.map(r => `${r.templateId}:${r.trackedAssetId}`));
+
+  // Latest price per asset and currency, looked up once
+  const latestPrices = new Map<string, PriceHistory | null>();
+  const findLatestPrice = async (assetId: string, currency: QuoteCurrency) => {
+    const key = `${assetId}:${currency}`;
+    if (!latestPrices.has(key)) {
+      latestPrices.set(key, await prisma.priceHistory.findFirst({
+        where: { assetId, currency },
+        orderBy: { timestamp: 'desc' },
+      }));
+    }
+    return latestPrices.get(key) ?? null;
+  };
+
+  for (const template of templates) {
+    const quoteCurrency = template.quoteCurrency ?? referenceCurrency;
+    const needsPrice = isPriceTarget(template.type) || template.type === NotificationRuleType.TRAILING_STOP;
+
+    for (const trackedAsset of trackedAssets) {
+      if (applied.has(`${template.id}:${trackedAsset.id}`)) {
+        result.skipped.push({ templateId: template.id, trackedAssetId: trackedAsset.id, reason: ALREADY_APPLIED });
+        continue;
+      }
+
+      const latestPrice = needsPrice ? await findLatestPrice(trackedAsset.assetId, quoteCurrency) : null;
+      if (needsPrice && !latestPrice) {
+        if (options.waitForPrice) {
+          await prisma.pendingTemplateApplication.upsert({
+            where: { templateId_trackedAssetId: { templateId: template.id, trackedAssetId: trackedAsset.id } },
+            create: { templateId: template.id, trackedAssetId: trackedAsset.id },
+            update: {},
+          });
+        }
+        const reason = options.waitForPrice ? `No ${quoteCurrency} price yet, will apply once one is stored` : `No ${quoteCurrency} price yet`;
+        result.skipped.push({ templateId: template.id, trackedAssetId: trackedAsset.id, reason });
+        continue;
+      }
+
+      const isTrailingStop = template.type === NotificationRuleType.TRAILING_STOP;
+      try {
+        const rule = await prisma.notificationRule.create({
+          data: {
+            trackedAssetId: trackedAsset.id,
+            templateId: template.id,
+            ...buildRuleFields(templateRuleInput(template, trackedAsset.id, latestPrice), {}, quoteCurrency),
+            peakPrice: isTrailingStop ? latestPrice?.price : undefined,
+            peakAt: isTrailingStop ? latestPrice?.timestamp : undefined,
+            isEnabled: true,
+          },
+          select: { id: true },
+        });
+        result.created.push(rule.id);
+      } catch (error) {
+        // Another request applied the same template to the asset since `applied` was read
+        if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002') {
+          result.skipped.push({ templateId: template.id, trackedAssetId: trackedAsset.id, reason: ALREADY_APPLIED });
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Applies the auto-applied templates that were waiting for their asset's first price. Applications
+ * still without a price stay pending; ones for templates no longer auto-applied are dropped.
+ *
+ * This function is designed to be called by the price-fetching cron job, after storing prices.
+ * @returns {Promise<number>} The number of rules created.
+ */
+export async function applyPendingRuleTemplates(): Promise<number> {
+  await prisma.pendingTemplateApplication.deleteMany({ where: { template: { autoApply: false } } });
+  const pending = await prisma.pendingTemplateApplication.findMany({
+    include: {
+      template: { include: { user: { select: { referenceCurrency: true } } } },
+      trackedAsset: { select: { id: true, assetId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let createdCount = 0;
+  for (const application of pending) {
+    try {
+      const result = await applyRuleTemplates([application.template], [application.trackedAsset], application.template.user.referenceCurrency);
+      createdCount += result.created.length;
+      const isStillWaiting = result.created.length === 0 && !result.skipped.some(s => s.reason === ALREADY_APPLIED);
+      if (!isStillWaiting) {
+        await prisma.pendingTemplateApplication.delete({ where: { id: application.id } });
+      }
+    } catch (error) {
+      console.error(`Rule Templates: Error applying template ${application.template.id} to tracked asset ${application.trackedAsset.id}:`, error);
+    }
+  }
+  return createdCount;
+}
@@ -1,6 +1,7 @@
 import type { DefaultUser } from "next-auth";
 // import type { DefaultSession, User as DefaultUser } from "next-auth"; // DefaultSession unused
 import type { JWT as DefaultJWT } from "next-auth/jwt";
+import type { UserRole } from "@prisma/client";
 
 // Extend the built-in session types
 
@@ -15,7 +16,7 @@ declare module "next-auth" {
     quietTimeStart?: string | null;
     quietTimeEnd?: string | null;
     quietTimeZone?: string | null;
-    // e.g., role: string;
+    role?: UserRole;
   }
 
   /**
@@ -42,6 +43,6 @@ declare module "next-auth/jwt" {
     quietTimeStart?: string | null;
     quietTimeEnd?: string | null;
     quietTimeZone?: string | null;
-    // e.g., role?: string;
+    role?: UserRole;
   }
 } 
\ No newline at end of file